@@ -2,6 +2,16 @@ const { app, BrowserWindow, ipcMain, dialog } = require('electron');
 const path = require('path');
 const pty = require('node-pty');
 const fs = require('fs');
+const { openTaskRepository } = require('../shared/task-repository.cjs');
+const { createJiraSync } = require('../shared/jira-sync.cjs');
+const { externalRefOf } = require('../shared/task-utils.cjs');
+const { generateReport, formatForFile } = require('../shared/report.cjs');
+const { createTelemetry, isEventType } = require('../shared/telemetry.cjs');
+const { createHistoryStore, loadHistoryConfig } = require('../shared/history-store.cjs');
+const { connectPtyHost } = require('./pty-host.cjs');
+const { createProcessMonitor } = require('./process-monitor.cjs');
+const { git, gitStatus, gitChanges, gitDiff, gitLog, gitHead } = require('../shared/git-info.cjs');
+const { collectTestResults } = require('../shared/test-results.cjs');
 
 let mainWindow = null;
 const shells = new Map();
@@ -45,38 +55,234 @@ fixElectronPath();
 const KAIZEN_DIR = path.join(HOME, '.kaizen-term');
 const TASKS_FILE = path.join(KAIZEN_DIR, 'tasks.json');
 const PIDS_FILE = path.join(KAIZEN_DIR, 'pids.json');
-const SESSION_LOG = path.join(KAIZEN_DIR, 'session.log');
+const REPORTS_DIR = path.join(KAIZEN_DIR, 'reports');
 const BUFFERS_DIR = path.join(KAIZEN_DIR, 'terminal-buffers');
+const COMMANDS_DIR = path.join(KAIZEN_DIR, 'commands');
+const COMMAND_RESULTS_DIR = path.join(COMMANDS_DIR, 'results');
+const MCP_ENDPOINT_FILE = path.join(KAIZEN_DIR, 'mcp-endpoint.json');
+const RECORDINGS_DIR = path.join(KAIZEN_DIR, 'recordings');
 let tasksWatcher = null;
-
-// ─── Terminal Output Ring Buffers ────────────────────────────────────────────
-
-const RING_BUFFER_MAX_LINES = 200;
-const terminalBuffers = new Map(); // id → string[]
+let commandsWatcher = null;
+
+// ─── Terminal Output History ─────────────────────────────────────────────────
+
+// Persisted per terminal in BUFFERS_DIR:
+//   <id>.index.json + <id>/NNNNNN.jsonl  segmented output history (shared/history-store.cjs)
+//   terminals.json id → { name, cwd } of every terminal spawned this session
+//   <id>.blocks.jsonl  finished command blocks (see recordCommandBlock)
+// Retention is configured in ~/.kaizen-term/history.json.
+const TERMINALS_INDEX_FILE = path.join(BUFFERS_DIR, 'terminals.json');
+const history = createHistoryStore({ dir: BUFFERS_DIR, ...loadHistoryConfig(KAIZEN_DIR) });
+const terminalInfo = new Map(); // id → { name, cwd }
 let bufferFlushInterval = null;
 
 function appendToBuffer(id, rawData) {
-    if (!terminalBuffers.has(id)) terminalBuffers.set(id, []);
-    const buf = terminalBuffers.get(id);
     // Strip ANSI escape codes for clean log
     const clean = rawData.replace(/\x1b\[[0-9;]*[a-zA-Z]/g, '').replace(/\r/g, '');
-    const lines = clean.split('\n');
-    for (const line of lines) {
-        if (line.trim()) buf.push(line);
-    }
-    // Trim to max
-    while (buf.length > RING_BUFFER_MAX_LINES) buf.shift();
+    const t = Date.now();
+    history.append(id, clean.split('\n').filter(line => line.trim()).map(text => ({ t, text })));
 }
 
 function flushBuffersToDisk() {
     try {
         if (!fs.existsSync(BUFFERS_DIR)) fs.mkdirSync(BUFFERS_DIR, { recursive: true });
-        for (const [id, lines] of terminalBuffers) {
-            fs.writeFileSync(path.join(BUFFERS_DIR, `${id}.log`), lines.join('\n'));
+        // Appends only what arrived since the last flush — MCP watchers treat each write as new output
+        history.flush();
+    } catch { }
+}
+
+function registerTerminal(id, info) {
+    terminalInfo.set(id, info);
+    try {
+        if (!fs.existsSync(BUFFERS_DIR)) fs.mkdirSync(BUFFERS_DIR, { recursive: true });
+        fs.writeFileSync(TERMINALS_INDEX_FILE, JSON.stringify(Object.fromEntries(terminalInfo), null, 2));
+    } catch { }
+}
+
+// ─── Command Blocks ──────────────────────────────────────────────────────────
+
+const MAX_BLOCKS_PER_TERMINAL = 500;
+const MAX_BLOCK_OUTPUT_LINES = 2000;
+const blockSeqs = new Map(); // id → last block number written
+
+function blocksFile(id) {
+    return path.join(BUFFERS_DIR, `${id}.blocks.jsonl`);
+}
+
+function readBlocks(id) {
+    try {
+        return fs.readFileSync(blocksFile(id), 'utf-8')
+            .split('\n')
+            .filter(Boolean)
+            .map(line => { try { return JSON.parse(line); } catch { return null; } })
+            .filter(Boolean);
+    } catch {
+        return [];
+    }
+}
+
+/** Append one finished command block; numbering continues across app restarts */
+function recordCommandBlock(id, block) {
+    if (!blockSeqs.has(id)) {
+        const existing = readBlocks(id);
+        blockSeqs.set(id, existing.length > 0 ? existing[existing.length - 1].seq || 0 : 0);
+    }
+    const seq = blockSeqs.get(id) + 1;
+    blockSeqs.set(id, seq);
+
+    const output = Array.isArray(block.output) ? block.output : [];
+    const entry = {
+        seq,
+        command: String(block.command || ''),
+        startedAt: block.startedAt,
+        endedAt: block.endedAt,
+        durationMs: block.endedAt && block.startedAt ? block.endedAt - block.startedAt : undefined,
+        exitCode: typeof block.exitCode === 'number' ? block.exitCode : undefined,
+        hasError: !!block.hasError,
+        outputLines: output.length,
+        // Long-running commands keep their tail, where the result usually is
+        output: output.slice(-MAX_BLOCK_OUTPUT_LINES),
+    };
+
+    try {
+        if (!fs.existsSync(BUFFERS_DIR)) fs.mkdirSync(BUFFERS_DIR, { recursive: true });
+        fs.appendFileSync(blocksFile(id), JSON.stringify(entry) + '\n');
+        if (seq % 50 === 0) {
+            const kept = readBlocks(id).slice(-MAX_BLOCKS_PER_TERMINAL);
+            fs.writeFileSync(blocksFile(id) + '.tmp', kept.map(b => JSON.stringify(b)).join('\n') + '\n');
+            fs.renameSync(blocksFile(id) + '.tmp', blocksFile(id));
         }
     } catch { }
 }
 
+// ─── Terminal Recordings (asciicast v2) ──────────────────────────────────────
+
+// Opt-in per pane: the raw PTY stream with timing, playable by asciinema or
+// the built-in replay pane. One header line, then `[seconds, "o"|"r", data]`.
+const recordings = new Map(); // id → { fd, file, startedAt }
+
+function recordingStamp(date) {
+    const pad = n => String(n).padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+function startRecording(id, { cols, rows, title }) {
+    if (recordings.has(id)) return { file: recordings.get(id).file };
+    const startedAt = new Date();
+    const file = path.join(RECORDINGS_DIR, `${id}-${recordingStamp(startedAt)}.cast`);
+    fs.mkdirSync(RECORDINGS_DIR, { recursive: true });
+    const fd = fs.openSync(file, 'a');
+    fs.writeSync(fd, JSON.stringify({
+        version: 2,
+        width: cols || 80,
+        height: rows || 24,
+        timestamp: Math.floor(startedAt.getTime() / 1000),
+        title: title || terminalInfo.get(id)?.name || id,
+        env: { TERM: 'xterm-256color', SHELL: process.env.SHELL || '' },
+    }) + '\n');
+    recordings.set(id, { fd, file, startedAt: startedAt.getTime() });
+    return { file };
+}
+
+function writeRecordingEvent(id, type, data) {
+    const rec = recordings.get(id);
+    if (!rec) return;
+    try {
+        fs.writeSync(rec.fd, JSON.stringify([(Date.now() - rec.startedAt) / 1000, type, data]) + '\n');
+    } catch {
+        stopRecording(id);
+    }
+}
+
+/** Close the recording; returns its file, or null if `id` wasn't recording */
+function stopRecording(id) {
+    const rec = recordings.get(id);
+    if (!rec) return null;
+    recordings.delete(id);
+    try { fs.closeSync(rec.fd); } catch { }
+    return rec.file;
+}
+
+// Header and duration per cast, keyed by path; reused while size and mtime hold
+const recordingSummaries = new Map(); // file → { mtimeMs, size, title, startedAt, duration }
+const RECORDING_READ_CHUNK = 4096;
+
+/** Read up to `length` bytes at `position` as utf-8 */
+async function readRange(handle, position, length) {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+    return buffer.toString('utf-8', 0, bytesRead);
+}
+
+/** Parse the header line and the last event's timestamp without reading the whole cast */
+async function summarizeRecording(file, size) {
+    const handle = await fs.promises.open(file, 'r');
+    try {
+        // Header: grow the window until the first newline shows up
+        let head = '';
+        for (let length = RECORDING_READ_CHUNK; ; length *= 2) {
+            head = await readRange(handle, 0, Math.min(length, size));
+            if (head.includes('\n') || length >= size) break;
+        }
+        const header = JSON.parse(head.split('\n')[0]);
+
+        // Last event: grow a tail window until it holds one complete line
+        let duration = 0;
+        for (let length = RECORDING_READ_CHUNK; ; length *= 2) {
+            const start = Math.max(0, size - length);
+            const tail = (await readRange(handle, start, size - start)).trimEnd();
+            const cut = tail.lastIndexOf('\n');
+            if (cut !== -1 || start === 0) {
+                if (cut !== -1) {
+                    try { duration = JSON.parse(tail.slice(cut + 1))[0] || 0; } catch { }
+                }
+                break;
+            }
+        }
+        return { title: header.title, startedAt: (header.timestamp || 0) * 1000, duration };
+    } finally {
+        await handle.close();
+    }
+}
+
+/** Header + duration of every recording, newest first */
+async function listRecordings() {
+    let files = [];
+    try {
+        files = (await fs.promises.readdir(RECORDINGS_DIR)).filter(f => f.endsWith('.cast'));
+    } catch {
+        return [];
+    }
+    const seen = new Set();
+    const list = await Promise.all(files.map(async name => {
+        const file = path.join(RECORDINGS_DIR, name);
+        seen.add(file);
+        try {
+            const stat = await fs.promises.stat(file);
+            let summary = recordingSummaries.get(file);
+            if (!summary || summary.mtimeMs !== stat.mtimeMs || summary.size !== stat.size) {
+                summary = { mtimeMs: stat.mtimeMs, size: stat.size, ...await summarizeRecording(file, stat.size) };
+                recordingSummaries.set(file, summary);
+            }
+            return {
+                file,
+                title: summary.title || name,
+                startedAt: summary.startedAt,
+                duration: summary.duration,
+                size: stat.size,
+                recording: [...recordings.values()].some(r => r.file === file),
+            };
+        } catch {
+            recordingSummaries.delete(file);
+            return null;
+        }
+    }));
+    for (const file of recordingSummaries.keys()) {
+        if (!seen.has(file)) recordingSummaries.delete(file);
+    }
+    return list.filter(Boolean).sort((a, b) => b.startedAt - a.startedAt);
+}
+
 function startBufferFlush() {
     if (bufferFlushInterval) return;
     bufferFlushInterval = setInterval(flushBuffersToDisk, 2000);
@@ -87,51 +293,192 @@ function stopBufferFlush() {
     flushBuffersToDisk(); // Final flush
 }
 
-// ─── Session Log (Agent Telemetry) ──────────────────────────────────────────
+// ─── Agent Resource Monitor ──────────────────────────────────────────────────
+
+// Samples each shell's process tree (process-monitor.cjs), pushes it to the
+// renderer and mirrors it to agent-resources.json for the MCP server.
+// Thresholds live in ~/.kaizen-term/monitor.json; 0 turns an alert off.
+const RESOURCES_FILE = path.join(KAIZEN_DIR, 'agent-resources.json');
+const MONITOR_DEFAULTS = { intervalMs: 3000, maxRssMB: 2048, cpuPercent: 95, cpuMinutes: 5 };
+const processMonitor = createProcessMonitor();
+const resourceAlerts = new Map(); // id → { cpuHighSince, active: Set<kind> }
+let resourceInterval = null;
+let latestResources = {};
+
+function loadMonitorConfig() {
+    let config = {};
+    try { config = JSON.parse(fs.readFileSync(path.join(KAIZEN_DIR, 'monitor.json'), 'utf-8')); } catch { }
+    const out = { ...MONITOR_DEFAULTS };
+    for (const key of Object.keys(MONITOR_DEFAULTS)) {
+        const value = Number(config[key]);
+        if (Number.isFinite(value) && value >= 0) out[key] = value;
+    }
+    out.intervalMs = Math.max(out.intervalMs, 1000);
+    return out;
+}
 
-function appendSessionLog(event) {
-    try {
-        ensureKaizenDir();
-        const timestamp = new Date().toISOString();
-        const line = `[${timestamp}] ${event}\n`;
-        fs.appendFileSync(SESSION_LOG, line);
+/** Alerts active for one agent's sample; newly raised ones are announced */
+function evaluateResourceAlerts(id, usage, config, now) {
+    if (!resourceAlerts.has(id)) resourceAlerts.set(id, { cpuHighSince: null, active: new Set() });
+    const state = resourceAlerts.get(id);
+    const alerts = [];
 
-        // Rotate if too large (> 10k lines)
-        try {
-            const content = fs.readFileSync(SESSION_LOG, 'utf-8');
-            const lines = content.split('\n');
-            if (lines.length > 10000) {
-                fs.writeFileSync(SESSION_LOG, lines.slice(-5000).join('\n'));
-            }
-        } catch { }
+    if (config.maxRssMB > 0 && usage.rss > config.maxRssMB * 1024 * 1024) {
+        alerts.push({ kind: 'memory', value: usage.rss, message: `using ${Math.round(usage.rss / 1024 / 1024)} MB (limit ${config.maxRssMB} MB)` });
+    }
+    if (config.cpuPercent > 0 && usage.cpu >= config.cpuPercent) {
+        state.cpuHighSince = state.cpuHighSince ?? now;
+        if (now - state.cpuHighSince >= config.cpuMinutes * 60 * 1000) {
+            alerts.push({ kind: 'cpu', value: usage.cpu, message: `at ${Math.round(usage.cpu)}% CPU for ${Math.round((now - state.cpuHighSince) / 60000)}+ min` });
+        }
+    } else {
+        state.cpuHighSince = null;
+    }
+
+    for (const alert of alerts) {
+        if (state.active.has(alert.kind)) continue;
+        telemetry.record('agent.resource_alert', { agentId: id, kind: alert.kind, value: alert.value });
+        if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send('resources:alert', { id, kind: alert.kind, message: alert.message });
+        }
+    }
+    state.active = new Set(alerts.map(a => a.kind));
+    return alerts.map(({ kind, message }) => ({ kind, message }));
+}
+
+async function sampleResources() {
+    const roots = Array.from(shells.entries()).filter(([, term]) => term.pid).map(([id, term]) => ({ id, pid: term.pid }));
+    const config = loadMonitorConfig();
+    const agents = roots.length > 0 ? await processMonitor.sample(roots) : {};
+    const now = Date.now();
+    for (const [id, usage] of Object.entries(agents)) usage.alerts = evaluateResourceAlerts(id, usage, config, now);
+    for (const id of resourceAlerts.keys()) if (!agents[id]) resourceAlerts.delete(id);
+    latestResources = agents;
+
+    try {
+        fs.writeFileSync(RESOURCES_FILE + '.tmp', JSON.stringify({ sampledAt: now, agents }));
+        fs.renameSync(RESOURCES_FILE + '.tmp', RESOURCES_FILE);
     } catch { }
+    if (mainWindow && !mainWindow.isDestroyed()) mainWindow.webContents.send('resources:update', agents);
+}
+
+function startResourceMonitor() {
+    if (resourceInterval) return;
+    resourceInterval = setInterval(() => sampleResources().catch(() => { }), loadMonitorConfig().intervalMs);
+}
+
+function stopResourceMonitor() {
+    if (resourceInterval) { clearInterval(resourceInterval); resourceInterval = null; }
+    try { fs.unlinkSync(RESOURCES_FILE); } catch { }
+}
+
+// ─── Agent Budgets ───────────────────────────────────────────────────────────
+
+// Wall-clock, idle (no output) and output-volume limits per agent, set by the
+// renderer from the agent or its profile. Over budget, 'kill' escalates
+// SIGINT → SIGTERM → SIGKILL down the process tree (tree-kill), BUDGET_GRACE_MS
+// apart; 'pause' SIGSTOPs the tree until budget:resume.
+const BUDGET_CHECK_MS = 5000;
+const BUDGET_GRACE_MS = 5000;
+const agentBudgets = new Map(); // id → { maxRuntimeMin, maxIdleMin, maxOutputMB, action }
+const budgetUsage = new Map(); // id → { startedAt, lastOutputAt, outputBytes, exceeded }
+let budgetInterval = null;
+
+function setAgentBudget(id, budget) {
+    const limits = {};
+    for (const key of ['maxRuntimeMin', 'maxIdleMin', 'maxOutputMB']) {
+        const value = Number(budget?.[key]);
+        if (Number.isFinite(value) && value > 0) limits[key] = value;
+    }
+    if (Object.keys(limits).length === 0) {
+        agentBudgets.delete(id);
+        return;
+    }
+    agentBudgets.set(id, { ...limits, action: budget.action === 'pause' ? 'pause' : 'kill' });
+}
+
+function trackBudgetUsage(id, startedAt = Date.now()) {
+    budgetUsage.set(id, { startedAt, lastOutputAt: Date.now(), outputBytes: 0, exceeded: null });
+    if (!budgetInterval) budgetInterval = setInterval(checkBudgets, BUDGET_CHECK_MS);
 }
 
+function countBudgetOutput(id, data) {
+    const usage = budgetUsage.get(id);
+    if (!usage) return;
+    usage.lastOutputAt = Date.now();
+    usage.outputBytes += Buffer.byteLength(data);
+}
+
+/** The first limit the agent is over, if any */
+function exceededLimit(budget, usage, now) {
+    const minutes = ms => Math.round(ms / 60000);
+    if (budget.maxRuntimeMin && now - usage.startedAt > budget.maxRuntimeMin * 60000) {
+        return { limit: 'runtime', message: `ran for ${minutes(now - usage.startedAt)} min (limit ${budget.maxRuntimeMin} min)` };
+    }
+    if (budget.maxIdleMin && now - usage.lastOutputAt > budget.maxIdleMin * 60000) {
+        return { limit: 'idle', message: `no output for ${minutes(now - usage.lastOutputAt)} min (limit ${budget.maxIdleMin} min)` };
+    }
+    if (budget.maxOutputMB && usage.outputBytes > budget.maxOutputMB * 1024 * 1024) {
+        return { limit: 'output', message: `printed ${Math.round(usage.outputBytes / 1024 / 1024)} MB (limit ${budget.maxOutputMB} MB)` };
+    }
+    return null;
+}
+
+function checkBudgets() {
+    const now = Date.now();
+    for (const [id, usage] of budgetUsage) {
+        const budget = agentBudgets.get(id);
+        const term = shells.get(id);
+        if (usage.exceeded || !budget || !term?.pid) continue;
+        const over = exceededLimit(budget, usage, now);
+        if (!over) continue;
+
+        usage.exceeded = { ...over, action: budget.action };
+        telemetry.record('agent.budget_exceeded', { agentId: id, limit: over.limit, action: budget.action });
+        if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send('budget:exceeded', { id, limit: over.limit, action: budget.action, message: over.message });
+        }
+        if (budget.action === 'pause') treeKill(term.pid, 'SIGSTOP');
+        else escalateKill(id, term.pid);
+    }
+}
+
+function escalateKill(id, pid) {
+    const signals = ['SIGINT', 'SIGTERM', 'SIGKILL'];
+    const step = (i) => {
+        // Stop escalating once the shell is gone (or was restarted under a new pid)
+        if (i >= signals.length || shells.get(id)?.pid !== pid) return;
+        treeKill(pid, signals[i], () => { });
+        setTimeout(() => step(i + 1), BUDGET_GRACE_MS);
+    };
+    step(0);
+}
+
+// ─── Session Telemetry ──────────────────────────────────────────────────────
+
+// Typed JSONL events in session.jsonl, rotated by size (shared/telemetry.cjs)
+const telemetry = createTelemetry({ dir: KAIZEN_DIR });
+
 function ensureKaizenDir() {
     if (!fs.existsSync(KAIZEN_DIR)) fs.mkdirSync(KAIZEN_DIR, { recursive: true });
 }
 
+// Shared with the MCP server: SQLite (kaizen.db) with a tasks.json export,
+// or the locked tasks.json + journal store where node:sqlite is missing
+const taskStore = openTaskRepository({ dir: KAIZEN_DIR, writer: 'electron' });
+
 function loadTasks() {
-    ensureKaizenDir();
-    // Read with fallback to .tmp if main file is corrupt
-    const tryRead = (filePath) => {
-        try {
-            if (fs.existsSync(filePath)) {
-                const content = fs.readFileSync(filePath, 'utf-8');
-                return JSON.parse(content);
-            }
-        } catch { /* corrupt / missing */ }
-        return null;
-    };
-    return tryRead(TASKS_FILE) ?? tryRead(TASKS_FILE + '.tmp') ?? [];
+    return taskStore.load();
 }
 
-function saveTasks(tasks) {
-    ensureKaizenDir();
-    const tmpFile = TASKS_FILE + '.tmp';
-    // Atomic write: write to .tmp then rename
-    fs.writeFileSync(tmpFile, JSON.stringify(tasks, null, 2));
-    fs.renameSync(tmpFile, TASKS_FILE);
+/**
+ * Tasks plus a revision for a later compare-and-swap save. The revision is
+ * read first, so a write landing in between makes that save fail rather
+ * than pass over the write.
+ */
+function loadTasksWithRevision() {
+    const revision = taskStore.revision();
+    return { tasks: loadTasks(), revision };
 }
 
 function watchTasksFile() {
@@ -141,13 +488,16 @@ function watchTasksFile() {
 
     let debounceTimer = null;
     try {
-        tasksWatcher = fs.watch(TASKS_FILE, { persistent: false }, () => {
+        // Watch the directory: every writer replaces tasks.json by rename, which
+        // would leave a watcher on the file itself stuck on the old inode
+        tasksWatcher = fs.watch(KAIZEN_DIR, { persistent: false }, (_event, filename) => {
+            if (filename && filename.toString() !== path.basename(TASKS_FILE)) return;
             // Debounce: coalesce rapid fs events (atomic renames, multi-writes)
             clearTimeout(debounceTimer);
             debounceTimer = setTimeout(() => {
                 if (mainWindow && !mainWindow.isDestroyed()) {
-                    const tasks = loadTasks();
-                    mainWindow.webContents.send('tasks:updated', tasks);
+                    const { tasks, revision } = loadTasksWithRevision();
+                    mainWindow.webContents.send('tasks:updated', tasks, revision);
                 }
             }, 150);
         });
@@ -156,6 +506,131 @@ function watchTasksFile() {
     }
 }
 
+// ─── Command Channel (MCP → Electron) ───────────────────────────────────────
+// The MCP server drops one JSON file per command into ~/.kaizen-term/commands/.
+// We execute it and answer with commands/results/<id>.json — unless the
+// command's deadline has passed, since nobody is polling for that result.
+
+const SPAWN_REPLY_TIMEOUT_MS = 10000;
+// Shells that print nothing at startup still get their command after this
+const STARTUP_COMMAND_FALLBACK_MS = 3000;
+
+// spawn commands waiting for the renderer's pty:spawn of their terminal id
+const pendingSpawns = new Map();        // id → { resolve, command, timer }
+// startup commands waiting for the new shell's first output
+const pendingStartupCommands = new Map(); // id → { command, timer }
+
+function genTerminalId() {
+    return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function settleSpawn(id, result) {
+    const pending = pendingSpawns.get(id);
+    if (!pending) return;
+    pendingSpawns.delete(id);
+    clearTimeout(pending.timer);
+    if (result.ok && pending.command) {
+        const timer = setTimeout(() => runStartupCommand(id), STARTUP_COMMAND_FALLBACK_MS);
+        pendingStartupCommands.set(id, { command: pending.command, timer });
+    }
+    pending.resolve(result);
+}
+
+function runStartupCommand(id) {
+    const pending = pendingStartupCommands.get(id);
+    if (!pending) return;
+    pendingStartupCommands.delete(id);
+    clearTimeout(pending.timer);
+    shells.get(id)?.write(pending.command + '\r');
+}
+
+function writeCommandResult(cmdId, result, deadline) {
+    if (deadline && Date.now() > deadline) return;
+    try {
+        if (!fs.existsSync(COMMAND_RESULTS_DIR)) fs.mkdirSync(COMMAND_RESULTS_DIR, { recursive: true });
+        const resultFile = path.join(COMMAND_RESULTS_DIR, `${cmdId}.json`);
+        fs.writeFileSync(resultFile + '.tmp', JSON.stringify(result));
+        fs.renameSync(resultFile + '.tmp', resultFile);
+    } catch (err) {
+        sendError(`Failed to write command result ${cmdId}: ${err.message}`);
+    }
+}
+
+async function executeCommand(cmd) {
+    switch (cmd.type) {
+        case 'spawn': {
+            if (!mainWindow || mainWindow.isDestroyed()) {
+                return { ok: false, error: 'KaizenTerm window is not open' };
+            }
+            // The renderer owns pane creation; it calls pty:spawn with this id,
+            // and the command only succeeds once that shell is running
+            const id = genTerminalId();
+            const waitMs = Math.min(SPAWN_REPLY_TIMEOUT_MS, (cmd.deadline || Infinity) - Date.now());
+            const spawned = new Promise((resolve) => {
+                const timer = setTimeout(() => settleSpawn(id, { ok: false, error: 'The pane was not created in time' }), waitMs);
+                pendingSpawns.set(id, { resolve, command: cmd.command, timer });
+            });
+            mainWindow.webContents.send('agent:spawnRequest', {
+                id,
+                name: cmd.name,
+                cwd: cmd.cwd,
+                taskId: cmd.taskId,
+            });
+            telemetry.record('agent.requested', { agentId: id, taskId: cmd.taskId, command: cmd.command });
+            const result = await spawned;
+            return result.ok ? { ok: true, terminalId: id } : result;
+        }
+        case 'write': {
+            const term = shells.get(cmd.terminalId);
+            if (!term) return { ok: false, error: `Terminal ${cmd.terminalId} not found` };
+            term.write(cmd.data);
+            telemetry.record('terminal.input', { agentId: cmd.terminalId, bytes: (cmd.data || '').length });
+            return { ok: true };
+        }
+        default:
+            return { ok: false, error: `Unknown command type: ${cmd.type}` };
+    }
+}
+
+function processCommandSpool() {
+    let files = [];
+    try {
+        files = fs.readdirSync(COMMANDS_DIR).filter(f => f.endsWith('.json')).sort();
+    } catch { return; }
+
+    for (const file of files) {
+        const filePath = path.join(COMMANDS_DIR, file);
+        let cmd;
+        try {
+            cmd = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+            // Claim the command: if the MCP side already withdrew it, skip
+            fs.unlinkSync(filePath);
+        } catch {
+            continue;
+        }
+        const cmdId = cmd.id || file.replace(/\.json$/, '');
+        executeCommand(cmd)
+            .catch(err => ({ ok: false, error: err.message }))
+            .then(result => writeCommandResult(cmdId, result, cmd.deadline));
+    }
+}
+
+function watchCommandSpool() {
+    try {
+        if (!fs.existsSync(COMMAND_RESULTS_DIR)) fs.mkdirSync(COMMAND_RESULTS_DIR, { recursive: true });
+    } catch { }
+
+    let debounceTimer = null;
+    try {
+        commandsWatcher = fs.watch(COMMANDS_DIR, { persistent: false }, () => {
+            clearTimeout(debounceTimer);
+            debounceTimer = setTimeout(processCommandSpool, 50);
+        });
+    } catch (err) {
+        sendError(`Failed to watch command spool: ${err.message}`);
+    }
+}
+
 // ─── Error Channel ──────────────────────────────────────────────────────────
 
 function sendError(message) {
@@ -169,7 +644,8 @@ function sendError(message) {
 
 function writePidLock() {
     ensureKaizenDir();
-    const pids = Array.from(shells.entries()).map(([id, term]) => ({
+    // Shells owned by the PTY host are meant to outlive us — never reap them
+    const pids = Array.from(shells.entries()).filter(([, term]) => !term.hosted).map(([id, term]) => ({
         id,
         pid: term.pid,
         timestamp: Date.now(),
@@ -264,15 +740,31 @@ function createWindow() {
 
     mainWindow.on('closed', () => {
         mainWindow = null;
-        shells.forEach((term) => { try { term.kill(); } catch { } });
-        shells.clear();
+        killLocalShells();
         if (tasksWatcher) { tasksWatcher.close(); tasksWatcher = null; }
+        if (commandsWatcher) { commandsWatcher.close(); commandsWatcher = null; }
     });
 
     watchTasksFile();
+    // Wait for the renderer so queued spawn requests have a listener
+    mainWindow.webContents.once('did-finish-load', () => {
+        watchCommandSpool();
+        processCommandSpool();
+    });
 }
 
-// ─── IPC: Terminal ───────────────────────────────────────────────────────────
+// ─── Agent Environment ───────────────────────────────────────────────────────
+
+/** Endpoint of a running MCP server started with --http (see mcp-server/src/http-transport.ts) */
+function readMcpEndpoint() {
+    try {
+        const endpoint = JSON.parse(fs.readFileSync(MCP_ENDPOINT_FILE, 'utf-8'));
+        process.kill(endpoint.pid, 0); // throws when the server is gone
+        return endpoint;
+    } catch {
+        return null;
+    }
+}
 
 // Get active task context for agent environment injection
 function getActiveTaskEnv() {
@@ -281,26 +773,96 @@ function getActiveTaskEnv() {
     const env = {};
 
     if (activeTasks.length > 0) {
-        env.KAIZEN_ACTIVE_TASK = activeTasks.map(t =>
-            `${t.id}: ${t.title}${t.jiraKey ? ` [${t.jiraKey}]` : ''}`
-        ).join(' | ');
+        env.KAIZEN_ACTIVE_TASK = activeTasks.map(t => {
+            const ref = externalRefOf(t);
+            return `${t.id}: ${t.title}${ref ? ` [${ref.key}]` : ''}`;
+        }).join(' | ');
         env.KAIZEN_ACTIVE_TASK_IDS = activeTasks.map(t => t.id).join(',');
     }
 
     env.KAIZEN_TASK_COUNT = String(tasks.length);
-    env.KAIZEN_MCP_SOCKET = 'stdio';
+    const endpoint = readMcpEndpoint();
+    env.KAIZEN_MCP_SOCKET = endpoint?.url || 'stdio';
+    if (endpoint?.token) env.KAIZEN_MCP_TOKEN = endpoint.token;
     return env;
 }
 
-ipcMain.handle('pty:spawn', (event, { id, cols, rows, cwd, timerState }) => {
+// ─── PTY Host ────────────────────────────────────────────────────────────────
+
+// Shells run inside a detached host process (pty-host.cjs) so agents survive
+// an app restart; the next window reattaches by terminal id. When the host
+// can't be started we fall back to in-process node-pty for this run.
+let ptyHostPromise = null;
+let detachingPtyHost = false;
+let endSessionsOnQuit = false;
+
+function getPtyHost() {
+    if (!ptyHostPromise) {
+        ptyHostPromise = connectPtyHost({
+            onData: handlePtyData,
+            onExit: handlePtyExit,
+            onClose: () => {
+                ptyHostPromise = null;
+                if (detachingPtyHost) return;
+                // The host died and took its shells with it
+                for (const [id, term] of shells) {
+                    if (term.hosted) handlePtyExit(id, -1);
+                }
+            },
+        }).catch((err) => {
+            sendError(`Terminals won't survive a restart: ${err.message}`);
+            return null;
+        });
+    }
+    return ptyHostPromise;
+}
+
+function handlePtyData(id, data) {
+    // Capture output to the history store
+    appendToBuffer(id, data);
+    countBudgetOutput(id, data);
+    writeRecordingEvent(id, 'o', data);
+    if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('pty:data', { id, data });
+    }
+    // First output means the shell is up: type the spawn_agent startup command
+    if (pendingStartupCommands.has(id)) runStartupCommand(id);
+}
+
+function handlePtyExit(id, exitCode) {
+    clearTimeout(pendingStartupCommands.get(id)?.timer);
+    pendingStartupCommands.delete(id);
+    shells.delete(id);
+    budgetUsage.delete(id);
+    writePidLock();
+    telemetry.record('agent.exited', { agentId: id, exitCode });
+    const recordingFile = stopRecording(id);
+    // Flush buffer one last time before cleanup
+    flushBuffersToDisk();
+    if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('pty:exit', { id, exitCode });
+        if (recordingFile) mainWindow.webContents.send('rec:stopped', { id, file: recordingFile });
+    }
+}
+
+/** Kill the in-process fallback shells; hosted ones keep running */
+function killLocalShells() {
+    for (const [id, term] of shells) {
+        if (term.hosted) continue;
+        try { term.kill(); } catch { }
+        shells.delete(id);
+    }
+}
+
+// ─── IPC: Terminal ───────────────────────────────────────────────────────────
+
+ipcMain.handle('pty:spawn', async (event, { id, name, cols, rows, cwd, timerState, budget }) => {
     const shellPath = process.env.SHELL || '/bin/zsh';
     const workDir = cwd && fs.existsSync(cwd) ? cwd : (HOME);
 
     try {
         const taskEnv = getActiveTaskEnv();
-
-        const term = pty.spawn(shellPath, [], {
-            name: 'xterm-256color',
+        const opts = {
             cols: cols || 80,
             rows: rows || 24,
             cwd: workDir,
@@ -311,40 +873,73 @@ ipcMain.handle('pty:spawn', (event, { id, cols, rows, cwd, timerState }) => {
                 ...taskEnv,
                 KAIZEN_TIMER_STATE: timerState || 'unknown',
             },
-        });
+        };
+
+        const host = await getPtyHost();
+        let term;
+        if (host) {
+            term = await host.spawn(id, { shell: shellPath, ...opts });
+        } else {
+            term = pty.spawn(shellPath, [], { name: 'xterm-256color', ...opts });
+            term.onData((data) => handlePtyData(id, data));
+            term.onExit(({ exitCode }) => handlePtyExit(id, exitCode));
+        }
 
         shells.set(id, term);
         writePidLock();
         startBufferFlush();
-        appendSessionLog(`SPAWN ${id} PID=${term.pid} CWD=${workDir}`);
-
-        term.onData((data) => {
-            // Capture output to ring buffer
-            appendToBuffer(id, data);
-            if (mainWindow && !mainWindow.isDestroyed()) {
-                mainWindow.webContents.send('pty:data', { id, data });
-            }
-        });
-
-        term.onExit(({ exitCode }) => {
-            shells.delete(id);
-            writePidLock();
-            appendSessionLog(`EXIT ${id} CODE=${exitCode}`);
-            // Flush buffer one last time before cleanup
-            flushBuffersToDisk();
-            if (mainWindow && !mainWindow.isDestroyed()) {
-                mainWindow.webContents.send('pty:exit', { id, exitCode });
-            }
-        });
+        startResourceMonitor();
+        telemetry.record('agent.spawned', { agentId: id, pid: term.pid, cwd: workDir });
+        // A restart without a budget keeps the one already set for this id
+        if (budget) setAgentBudget(id, budget);
+        trackBudgetUsage(id);
+        registerTerminal(id, { name: name || id, cwd: workDir });
+        settleSpawn(id, { ok: true });
 
         return { pid: term.pid };
     } catch (err) {
         sendError(`Failed to spawn shell for ${id}: ${err.message}`);
-        appendSessionLog(`SPAWN_FAIL ${id} ERROR=${err.message}`);
+        telemetry.record('agent.spawn_failed', { agentId: id, error: err.message });
+        settleSpawn(id, { ok: false, error: err.message });
         return { error: err.message };
     }
 });
 
+// Reconnect a restored pane to the shell the PTY host kept for it.
+// status: 'running' (scrollback to replay), 'exited' (ended while we were
+// away) or 'missing' (the host never had it — spawn a fresh shell).
+ipcMain.handle('pty:attach', async (event, { id, name, cols, rows, budget }) => {
+    if (shells.has(id)) return { status: 'running', pid: shells.get(id).pid, scrollback: '' };
+    const host = await getPtyHost();
+    if (!host) return { status: 'missing' };
+
+    try {
+        const session = await host.attach(id);
+        if (!session) return { status: 'missing' };
+        // Output produced while no window was attached
+        if (session.unseen) appendToBuffer(id, session.unseen);
+
+        if (!session.term) {
+            telemetry.record('agent.exited', { agentId: id, exitCode: session.exitCode });
+            flushBuffersToDisk();
+            return { status: 'exited', exitCode: session.exitCode, scrollback: session.scrollback };
+        }
+
+        shells.set(id, session.term);
+        if (cols && rows) session.term.resize(cols, rows);
+        startBufferFlush();
+        startResourceMonitor();
+        telemetry.record('agent.reattached', { agentId: id, pid: session.pid });
+        if (budget) setAgentBudget(id, budget);
+        trackBudgetUsage(id, session.startedAt);
+        registerTerminal(id, { name: name || id, cwd: session.cwd });
+        return { status: 'running', pid: session.pid, scrollback: session.scrollback };
+    } catch (err) {
+        sendError(`Failed to reattach ${id}: ${err.message}`);
+        return { status: 'missing' };
+    }
+});
+
 ipcMain.on('pty:write', (event, { id, data }) => {
     const term = shells.get(id);
     if (term) term.write(data);
@@ -354,6 +949,7 @@ ipcMain.on('pty:resize', (event, { id, cols, rows }) => {
     const term = shells.get(id);
     if (term) {
         try { term.resize(cols, rows); } catch { }
+        writeRecordingEvent(id, 'r', `${cols}x${rows}`);
     }
 });
 
@@ -363,50 +959,204 @@ ipcMain.on('pty:kill', (event, { id }) => {
         term.kill();
         shells.delete(id);
         writePidLock();
-        appendSessionLog(`KILL ${id}`);
+        stopRecording(id);
+        telemetry.record('agent.killed', { agentId: id });
+    }
+});
+
+ipcMain.on('pty:rename', (event, { id, name }) => {
+    const info = terminalInfo.get(id);
+    if (info && name) registerTerminal(id, { ...info, name });
+});
+
+// Finished command blocks from the renderer's block tracker
+ipcMain.on('blocks:record', (event, { id, block }) => {
+    if (typeof id === 'string' && /^[\w.-]+$/.test(id) && block) recordCommandBlock(id, block);
+});
+
+// Persisted blocks for the review panel, newest last
+ipcMain.handle('blocks:read', (event, { id, errorsOnly = false, since, limit = 20 }) => {
+    if (typeof id !== 'string' || !/^[\w.-]+$/.test(id)) return [];
+    return readBlocks(id)
+        .filter(b => (!errorsOnly || b.hasError || (b.exitCode != null && b.exitCode !== 0)) && (!since || (b.endedAt || 0) >= since))
+        .slice(-limit);
+});
+
+// Quit and take the PTY host's shells down too, instead of leaving them for the next launch
+ipcMain.on('app:quitEndingSessions', () => {
+    endSessionsOnQuit = true;
+    app.quit();
+});
+
+// Budgets: set or clear (null) an agent's limits while it runs; resume a paused one
+ipcMain.on('budget:set', (event, { id, budget }) => setAgentBudget(id, budget));
+
+ipcMain.on('budget:resume', (event, id) => {
+    const usage = budgetUsage.get(id);
+    const term = shells.get(id);
+    if (usage?.exceeded?.action !== 'pause' || !term?.pid) return;
+    treeKill(term.pid, 'SIGCONT');
+    // The budget starts over from the resume
+    trackBudgetUsage(id);
+});
+
+// Latest process-tree sample per agent (also pushed as resources:update)
+ipcMain.handle('resources:get', () => latestResources);
+
+// Read the last `count` lines of a terminal's output history
+ipcMain.handle('pty:readOutput', (event, id, count = 200) => {
+    const lines = history.tail(id, Math.min(Math.max(count, 1), 5000)).map(e => e.text);
+    return { lines, count: lines.length, total: history.lastLine(id) };
+});
+
+// ─── IPC: Recordings ─────────────────────────────────────────────────────────
+
+ipcMain.handle('rec:start', (event, { id, cols, rows, title }) => {
+    if (!shells.has(id)) return { error: `Terminal ${id} is not running` };
+    try {
+        return startRecording(id, { cols, rows, title });
+    } catch (err) {
+        return { error: err.message };
     }
 });
 
-// Read terminal output ring buffer
-ipcMain.handle('pty:readOutput', (event, id) => {
-    const buf = terminalBuffers.get(id);
-    if (!buf) return { lines: [], count: 0 };
-    return { lines: buf, count: buf.length };
+ipcMain.handle('rec:stop', (event, id) => {
+    const file = stopRecording(id);
+    return file ? { file } : null;
+});
+
+ipcMain.handle('rec:list', () => listRecordings());
+
+ipcMain.handle('rec:read', (event, file) => {
+    // Only casts inside the recordings directory
+    const resolved = path.resolve(String(file || ''));
+    if (!resolved.startsWith(RECORDINGS_DIR + path.sep) || !resolved.endsWith('.cast')) return null;
+    try {
+        return fs.readFileSync(resolved, 'utf-8');
+    } catch {
+        return null;
+    }
 });
 
 // ─── IPC: Tasks (Shared with MCP Server) ────────────────────────────────────
 
 ipcMain.handle('tasks:load', () => {
-    return loadTasks();
+    return loadTasksWithRevision();
 });
 
-ipcMain.handle('tasks:save', (event, tasks) => {
-    saveTasks(tasks);
-    return { ok: true };
+ipcMain.handle('tasks:save', (event, { tasks, expectedRevision }) => {
+    try {
+        // Compare-and-swap, so a stale full save can't undo what others wrote since
+        taskStore.replaceAll(tasks, { expectedRevision });
+        return { ok: true };
+    } catch (err) {
+        if (err.code === 'revision-conflict' && mainWindow && !mainWindow.isDestroyed()) {
+            const current = loadTasksWithRevision();
+            mainWindow.webContents.send('tasks:updated', current.tasks, current.revision);
+            sendError('Tasks changed since the board loaded them — reloaded, try the save again');
+            return { error: err.message, conflict: true };
+        }
+        sendError(`Failed to save tasks: ${err.message}`);
+        return { error: err.message };
+    }
 });
 
 ipcMain.handle('tasks:add', (event, task) => {
-    const tasks = loadTasks();
-    tasks.push(task);
-    saveTasks(tasks);
-    return { ok: true };
+    try {
+        taskStore.add(task);
+        return { ok: true };
+    } catch (err) {
+        return { error: err.message };
+    }
 });
 
 ipcMain.handle('tasks:update', (event, { id, updates }) => {
-    const tasks = loadTasks();
-    const task = tasks.find(t => t.id === id);
-    if (!task) return { error: 'Task not found' };
-    Object.assign(task, updates, { updatedAt: new Date().toISOString() });
-    saveTasks(tasks);
-    appendSessionLog(`TASK_UPDATE ${id} ${JSON.stringify(updates)}`);
+    const from = loadTasks().find(t => t.id === id)?.status;
+    let task;
+    try {
+        ({ result: task } = taskStore.update(id, updates));
+    } catch (err) {
+        return { error: err.code === 'not-found' ? 'Task not found' : err.message };
+    }
+    telemetry.record('task.updated', { taskId: id, changes: updates });
+    if (task.status !== from) telemetry.record('task.transitioned', { taskId: id, from, to: task.status, by: 'electron' });
     return { ok: true };
 });
 
 ipcMain.handle('tasks:delete', (event, id) => {
-    let tasks = loadTasks();
-    tasks = tasks.filter(t => t.id !== id);
-    saveTasks(tasks);
-    return { ok: true };
+    try {
+        taskStore.remove(id);
+        return { ok: true };
+    } catch (err) {
+        return { error: err.message };
+    }
+});
+
+// ─── IPC: Jira Sync ─────────────────────────────────────────────────────────
+
+ipcMain.handle('jira:sync', async () => {
+    try {
+        // Re-created per run so edits to jira.json apply without a restart
+        const summary = await createJiraSync({ store: taskStore, dir: KAIZEN_DIR }).sync();
+        telemetry.record('tracker.synced', {
+            provider: 'jira',
+            created: summary.created.length,
+            pulled: summary.pulled.length,
+            pushed: summary.pushed.length,
+            conflicts: summary.conflicts.length,
+        });
+        return summary;
+    } catch (err) {
+        return { error: err.message };
+    }
+});
+
+ipcMain.handle('jira:resolveConflict', async (event, { taskId, keep }) => {
+    try {
+        await createJiraSync({ store: taskStore, dir: KAIZEN_DIR }).resolveConflict(taskId, keep);
+        telemetry.record('tracker.conflict_resolved', { provider: 'jira', taskId, keep });
+        return { ok: true };
+    } catch (err) {
+        return { ok: false, error: err.message };
+    }
+});
+
+// ─── IPC: Session Events & Reports ──────────────────────────────────────────
+
+// Events only the renderer sees; anything else from it is dropped
+const RENDERER_SESSION_EVENTS = new Set(['timer.cycle', 'task.auto_completed', 'ai.request', 'task.reviewed']);
+
+ipcMain.on('session:event', (event, { type, fields }) => {
+    if (!RENDERER_SESSION_EVENTS.has(type) || !isEventType(type)) return;
+    telemetry.record(type, fields && typeof fields === 'object' ? fields : {});
+});
+
+ipcMain.handle('report:save', async (event, period) => {
+    const date = new Date();
+    const stamp = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    const result = await dialog.showSaveDialog(mainWindow, {
+        defaultPath: path.join(REPORTS_DIR, `kaizen-${period}-${stamp}.md`),
+        filters: [
+            { name: 'Markdown', extensions: ['md'] },
+            { name: 'HTML', extensions: ['html'] },
+        ],
+    });
+    if (result.canceled || !result.filePath) return null;
+    try {
+        const report = generateReport({
+            dir: KAIZEN_DIR,
+            tasks: loadTasks(),
+            period: period === 'weekly' ? 'weekly' : 'daily',
+            format: formatForFile(result.filePath),
+            date,
+        });
+        fs.mkdirSync(path.dirname(result.filePath), { recursive: true });
+        fs.writeFileSync(result.filePath, report.content, 'utf-8');
+        telemetry.record('report.generated', { period: report.period, file: result.filePath });
+        return { filePath: result.filePath };
+    } catch (err) {
+        return { error: err.message };
+    }
 });
 
 // ─── IPC: MCP / Skills Discovery ────────────────────────────────────────────
@@ -548,7 +1298,7 @@ ipcMain.handle('mcp:start', (event, { name, command, args }) => {
         mcpProcesses.set(name, child);
         child.on('exit', () => mcpProcesses.delete(name));
         child.on('error', () => mcpProcesses.delete(name));
-        appendSessionLog(`MCP START ${name}: ${command} ${(args || []).join(' ')}`);
+        telemetry.record('mcp.started', { name, command, args: args || [] });
         return { ok: true, pid: child.pid };
     } catch (err) {
         return { ok: false, error: err.message };
@@ -561,7 +1311,7 @@ ipcMain.handle('mcp:stop', (event, { name }) => {
     try {
         child.kill('SIGTERM');
         mcpProcesses.delete(name);
-        appendSessionLog(`MCP STOP ${name}`);
+        telemetry.record('mcp.stopped', { name });
         return { ok: true };
     } catch (err) {
         return { ok: false, error: err.message };
@@ -645,6 +1395,169 @@ ipcMain.handle('git:branch', (event, cwd) => {
     }
 });
 
+// Status, diffstats, diffs and log for any agent's cwd (shared/git-info.cjs).
+// Not a repository / no git comes back as { ok: false, error }.
+function gitQuery(query) {
+    return async (event, ...args) => {
+        try {
+            return { ok: true, ...(await query(...args)) };
+        } catch (err) {
+            return { ok: false, error: err.message };
+        }
+    };
+}
+
+ipcMain.handle('git:status', gitQuery(cwd => gitStatus(cwd || HOME)));
+ipcMain.handle('git:changes', gitQuery(({ cwd, base }) => gitChanges(cwd || HOME, { base })));
+ipcMain.handle('git:diff', gitQuery(({ cwd, ...options }) => gitDiff(cwd || HOME, options)));
+ipcMain.handle('git:log', gitQuery(async ({ cwd, limit, range }) => ({ entries: await gitLog(cwd || HOME, { limit, range }) })));
+ipcMain.handle('git:head', gitQuery(async cwd => ({ head: await gitHead(cwd || HOME) })));
+
+// ─── IPC: Test Results ──────────────────────────────────────────────────────
+// Report files in the agent's cwd, else the last run printed to its PTY
+// (shared/test-results.cjs). `since` skips reports and output from before
+// the agent was spawned for its card.
+
+const TEST_OUTPUT_LINES = 5000;
+
+ipcMain.handle('tests:collect', async (event, { id, cwd, since = 0 }) => {
+    try {
+        const lines = typeof id === 'string' && /^[\w.-]+$/.test(id)
+            ? history.tail(id, TEST_OUTPUT_LINES).filter(e => e.t >= since).map(e => e.text)
+            : [];
+        return { ok: true, results: await collectTestResults({ cwd, lines, since }) };
+    } catch (err) {
+        return { ok: false, error: err.message };
+    }
+});
+
+// ─── Git Worktrees (isolated task agents) ───────────────────────────────────
+// An "isolated" spawn gives the task its own worktree and branch
+// (kz/<taskId>-<slug>) under ~/.kaizen-term/worktrees/<repo>/, so agents on
+// different cards never share a checkout. When the card is done the branch
+// is merged into (or rebased onto) the branch it was cut from, then cleaned up.
+
+const WORKTREES_DIR = path.join(KAIZEN_DIR, 'worktrees');
+const WORKTREE_BRANCH_PREFIX = 'kz/';
+
+// Checkouts, merges and rebases can take a while on big repos
+const WORKTREE_GIT_TIMEOUT_MS = 60000;
+
+/** Run git (the shared async runner) and return trimmed stdout */
+async function runGit(args, cwd, options) {
+    return (await git(args, cwd, options)).trim();
+}
+
+function slugify(text, max = 32) {
+    return String(text || '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, max)
+        .replace(/-+$/, '') || 'task';
+}
+
+/** Worktree path → branch, from `git worktree list --porcelain` */
+async function listWorktrees(repo) {
+    const worktrees = new Map();
+    let current = null;
+    for (const line of (await runGit(['worktree', 'list', '--porcelain'], repo)).split('\n')) {
+        if (line.startsWith('worktree ')) current = line.slice('worktree '.length);
+        else if (line.startsWith('branch ') && current) worktrees.set(current, line.slice('branch refs/heads/'.length));
+    }
+    return worktrees;
+}
+
+async function isDirty(cwd) {
+    return (await runGit(['status', '--porcelain'], cwd)).length > 0;
+}
+
+ipcMain.handle('git:worktreeCreate', async (event, { cwd, taskId, title }) => {
+    try {
+        const repo = await runGit(['rev-parse', '--show-toplevel'], cwd || HOME);
+        const base = await runGit(['rev-parse', '--abbrev-ref', 'HEAD'], repo);
+        if (base === 'HEAD') return { ok: false, error: `${repo} is on a detached HEAD — check out a branch first` };
+
+        const slug = slugify(title);
+        const branch = `${WORKTREE_BRANCH_PREFIX}${taskId}-${slug}`;
+        const worktreePath = path.join(WORKTREES_DIR, path.basename(repo), `${taskId}-${slug}`);
+
+        // Spawning a second agent for the card reuses its worktree
+        const existing = [...await listWorktrees(repo)].find(([, b]) => b === branch);
+        if (existing) {
+            return { ok: true, reused: true, worktree: { path: existing[0], branch, base, repo, createdAt: new Date().toISOString() } };
+        }
+
+        await fs.promises.mkdir(path.dirname(worktreePath), { recursive: true });
+        const branchExists = await runGit(['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`], repo).then(() => true, () => false);
+        await runGit(branchExists
+            ? ['worktree', 'add', worktreePath, branch]
+            : ['worktree', 'add', '-b', branch, worktreePath, base], repo, { timeout: WORKTREE_GIT_TIMEOUT_MS });
+        return { ok: true, reused: false, worktree: { path: worktreePath, branch, base, repo, createdAt: new Date().toISOString() } };
+    } catch (err) {
+        return { ok: false, error: err.message };
+    }
+});
+
+ipcMain.handle('git:worktreeStatus', async (event, { path: worktreePath, branch, base, repo }) => {
+    try {
+        if (!fs.existsSync(worktreePath)) return { ok: true, exists: false, dirty: false, ahead: 0, behind: 0 };
+        const [behind, ahead] = (await runGit(['rev-list', '--left-right', '--count', `${base}...${branch}`], repo))
+            .split(/\s+/).map(Number);
+        return { ok: true, exists: true, dirty: await isDirty(worktreePath), ahead, behind };
+    } catch (err) {
+        return { ok: false, error: err.message };
+    }
+});
+
+ipcMain.handle('git:worktreeFinish', async (event, { worktree, action, force = false }) => {
+    const { path: worktreePath, branch, base, repo } = worktree || {};
+    if (!repo || !branch || !base) return { ok: false, error: 'Task has no worktree' };
+    try {
+        switch (action) {
+            case 'merge': {
+                if (fs.existsSync(worktreePath) && await isDirty(worktreePath)) {
+                    return { ok: false, error: `${branch} has uncommitted changes — commit or discard them first` };
+                }
+                const checkedOut = await runGit(['rev-parse', '--abbrev-ref', 'HEAD'], repo);
+                if (checkedOut !== base) return { ok: false, error: `${repo} is on ${checkedOut}, not ${base} — check out ${base} to merge` };
+                if (await isDirty(repo)) return { ok: false, error: `${repo} has uncommitted changes` };
+                try {
+                    const output = await runGit(['merge', '--no-ff', '--no-edit', branch], repo, { timeout: WORKTREE_GIT_TIMEOUT_MS });
+                    return { ok: true, output };
+                } catch (err) {
+                    await runGit(['merge', '--abort'], repo).catch(() => { });
+                    return { ok: false, error: `Merge of ${branch} into ${base} failed and was aborted: ${err.message}` };
+                }
+            }
+            case 'rebase': {
+                if (!fs.existsSync(worktreePath)) return { ok: false, error: `Worktree ${worktreePath} no longer exists` };
+                if (await isDirty(worktreePath)) return { ok: false, error: `${branch} has uncommitted changes — commit or discard them first` };
+                try {
+                    const output = await runGit(['rebase', base], worktreePath, { timeout: WORKTREE_GIT_TIMEOUT_MS });
+                    return { ok: true, output };
+                } catch (err) {
+                    await runGit(['rebase', '--abort'], worktreePath).catch(() => { });
+                    return { ok: false, error: `Rebase of ${branch} onto ${base} failed and was aborted: ${err.message}` };
+                }
+            }
+            case 'cleanup': {
+                if (fs.existsSync(worktreePath)) {
+                    await runGit(['worktree', 'remove', ...(force ? ['--force'] : []), worktreePath], repo);
+                }
+                await runGit(['worktree', 'prune'], repo);
+                // -d refuses to drop unmerged work unless forced
+                await runGit(['branch', force ? '-D' : '-d', branch], repo);
+                return { ok: true, output: `Removed ${worktreePath} and ${branch}` };
+            }
+            default:
+                return { ok: false, error: `Unknown worktree action: ${action}` };
+        }
+    } catch (err) {
+        return { ok: false, error: err.message };
+    }
+});
+
 // ─── Auto-Setup: Ollama AI Backend ──────────────────────────────────────────
 
 const DEFAULT_AI_MODEL = 'qwen2.5-coder:1.5b';
@@ -857,6 +1770,7 @@ const treeKill = require('tree-kill');
 async function killAllShells() {
     const killPromises = [];
     shells.forEach((term) => {
+        if (term.hosted) return;
         try {
             if (term.pid) {
                 killPromises.push(new Promise(resolve => {
@@ -868,11 +1782,21 @@ async function killAllShells() {
         } catch { }
     });
     await Promise.allSettled(killPromises);
+
+    // Hosted shells keep running for the next launch unless asked otherwise
+    const host = ptyHostPromise && await ptyHostPromise;
+    if (host) {
+        if (endSessionsOnQuit) await host.shutdown();
+        detachingPtyHost = true;
+        host.close();
+    }
     shells.clear();
 }
 
 app.whenReady().then(() => {
     cleanupOrphanedProcesses();
+    // Apply history retention to terminals that won't flush again
+    try { history.prune(); } catch { }
     createWindow();
     // Auto-setup Ollama (non-blocking)
     setTimeout(() => ensureOllama(), 3000);
@@ -880,13 +1804,15 @@ app.whenReady().then(() => {
 
 app.on('before-quit', async (e) => {
     e.preventDefault();
-    // Kill all PTY child process trees
+    // Kill in-process PTY trees; detach from (or shut down) the PTY host
     await killAllShells();
+    for (const id of [...recordings.keys()]) stopRecording(id);
     cleanPidLock();
     // Only kill Ollama if we started it (don't kill user's global Ollama)
     if (ollamaStartedByUs && ollamaServeProcess) {
         try { treeKill(ollamaServeProcess.pid, 'SIGKILL'); } catch { }
     }
+    try { taskStore.close?.(); } catch { }
     app.exit(0);
 });
 
@@ -900,14 +1826,16 @@ app.on('activate', () => {
 
 // Graceful shutdown
 app.on('before-quit', () => {
-    appendSessionLog('APP_QUIT');
+    telemetry.record('app.quit');
     if (ollamaServeProcess) {
         try { ollamaServeProcess.kill(); } catch { }
         ollamaServeProcess = null;
     }
-    shells.forEach((term) => { try { term.kill(); } catch { } });
-    shells.clear();
+    killLocalShells();
     cleanPidLock();
     stopBufferFlush();
+    stopResourceMonitor();
+    if (budgetInterval) { clearInterval(budgetInterval); budgetInterval = null; }
     if (tasksWatcher) { tasksWatcher.close(); tasksWatcher = null; }
+    if (commandsWatcher) { commandsWatcher.close(); commandsWatcher = null; }
 });
@@ -6,24 +6,63 @@ contextBridge.exposeInMainWorld('kaizenBridge', {
     writeTerminal: (id, data) => ipcRenderer.send('pty:write', { id, data }),
     resizeTerminal: (id, cols, rows) => ipcRenderer.send('pty:resize', { id, cols, rows }),
     killTerminal: (id) => ipcRenderer.send('pty:kill', { id }),
+    renameTerminal: (id, name) => ipcRenderer.send('pty:rename', { id, name }),
     onTerminalData: (callback) => {
         ipcRenderer.on('pty:data', (event, { id, data }) => callback(id, data));
     },
     onTerminalExit: (callback) => {
         ipcRenderer.on('pty:exit', (event, { id, exitCode }) => callback(id, exitCode));
     },
-    readTerminalOutput: (id) => ipcRenderer.invoke('pty:readOutput', id),
+    attachTerminal: (opts) => ipcRenderer.invoke('pty:attach', opts),
+    quitEndingSessions: () => ipcRenderer.send('app:quitEndingSessions'),
+    // Agent budgets (runtime / idle / output limits)
+    setAgentBudget: (id, budget) => ipcRenderer.send('budget:set', { id, budget }),
+    resumeAgent: (id) => ipcRenderer.send('budget:resume', id),
+    onBudgetExceeded: (callback) => {
+        ipcRenderer.on('budget:exceeded', (event, info) => callback(info));
+    },
+    // Per-agent CPU / memory / child processes, sampled every few seconds
+    getAgentResources: () => ipcRenderer.invoke('resources:get'),
+    onAgentResources: (callback) => {
+        ipcRenderer.on('resources:update', (event, agents) => callback(agents));
+    },
+    onResourceAlert: (callback) => {
+        ipcRenderer.on('resources:alert', (event, alert) => callback(alert));
+    },
+    readTerminalOutput: (id, count) => ipcRenderer.invoke('pty:readOutput', id, count),
+    recordCommandBlock: (id, block) => ipcRenderer.send('blocks:record', { id, block }),
+    readCommandBlocks: (id, opts) => ipcRenderer.invoke('blocks:read', { id, ...opts }),
+    // asciicast recordings (~/.kaizen-term/recordings)
+    startRecording: (id, opts) => ipcRenderer.invoke('rec:start', { id, ...opts }),
+    stopRecording: (id) => ipcRenderer.invoke('rec:stop', id),
+    onRecordingStopped: (callback) => {
+        ipcRenderer.on('rec:stopped', (event, { id, file }) => callback(id, file));
+    },
+    listRecordings: () => ipcRenderer.invoke('rec:list'),
+    readRecording: (file) => ipcRenderer.invoke('rec:read', file),
+    // Agent spawn requests coming from the MCP command channel
+    onAgentSpawnRequest: (callback) => {
+        ipcRenderer.on('agent:spawnRequest', (event, request) => callback(request));
+    },
 
     // Tasks (shared with MCP server via ~/.kaizen-term/tasks.json)
     loadTasks: () => ipcRenderer.invoke('tasks:load'),
-    saveTasks: (tasks) => ipcRenderer.invoke('tasks:save', tasks),
+    saveTasks: (tasks, expectedRevision) => ipcRenderer.invoke('tasks:save', { tasks, expectedRevision }),
     addTask: (task) => ipcRenderer.invoke('tasks:add', task),
     updateTask: (id, updates) => ipcRenderer.invoke('tasks:update', { id, updates }),
     deleteTask: (id) => ipcRenderer.invoke('tasks:delete', id),
     onTasksUpdated: (callback) => {
-        ipcRenderer.on('tasks:updated', (event, tasks) => callback(tasks));
+        ipcRenderer.on('tasks:updated', (event, tasks, revision) => callback(tasks, revision));
     },
 
+    // Jira two-way sync (config in ~/.kaizen-term/jira.json)
+    syncJira: () => ipcRenderer.invoke('jira:sync'),
+    resolveJiraConflict: (taskId, keep) => ipcRenderer.invoke('jira:resolveConflict', { taskId, keep }),
+
+    // Session log events from the renderer, and daily / weekly reports built from it
+    logSessionEvent: (type, fields) => ipcRenderer.send('session:event', { type, fields }),
+    saveReport: (period) => ipcRenderer.invoke('report:save', period),
+
     // Discovery
     discoverSkills: (paths) => ipcRenderer.invoke('discover:skills', paths),
     discoverMCP: (paths) => ipcRenderer.invoke('discover:mcp', paths),
@@ -44,6 +83,17 @@ contextBridge.exposeInMainWorld('kaizenBridge', {
 
     // Git
     gitBranch: (cwd) => ipcRenderer.invoke('git:branch', cwd),
+    gitStatus: (cwd) => ipcRenderer.invoke('git:status', cwd),
+    gitChanges: (cwd, base) => ipcRenderer.invoke('git:changes', { cwd, base }),
+    gitDiff: (opts) => ipcRenderer.invoke('git:diff', opts),
+    gitLog: (cwd, limit, range) => ipcRenderer.invoke('git:log', { cwd, limit, range }),
+    gitHead: (cwd) => ipcRenderer.invoke('git:head', cwd),
+    createTaskWorktree: (cwd, taskId, title) => ipcRenderer.invoke('git:worktreeCreate', { cwd, taskId, title }),
+    getWorktreeStatus: (worktree) => ipcRenderer.invoke('git:worktreeStatus', worktree),
+    finishTaskWorktree: (worktree, action, force) => ipcRenderer.invoke('git:worktreeFinish', { worktree, action, force }),
+
+    // Test results (JUnit XML / TAP / Jest JSON reports, or the PTY output)
+    collectTestResults: (opts) => ipcRenderer.invoke('tests:collect', opts),
 
     // Dialog
     openFolderDialog: () => ipcRenderer.invoke('dialog:openFolder'),
@@ -0,0 +1,139 @@
+// ═══════════════════════════════════════════════════════════════
+// KaizenTerm — Agent Process Monitor
+// ═══════════════════════════════════════════════════════════════
+//
+// Samples the process tree under each agent's shell: CPU (percent of one
+// core, summed over the tree), resident memory and the child commands.
+// Linux reads /proc directly; elsewhere one `ps` call per sample.
+//
+// CPU on Linux is the tick delta since the previous sample, so the first
+// sample of a process reports 0.
+
+const fs = require('fs');
+const { execFile } = require('child_process');
+
+const CLK_TCK = 100;
+const PAGE_SIZE = 4096;
+const MAX_ARGS_LENGTH = 120;
+
+/** pid → { ppid, command, ticks, rss } from /proc */
+function readProcTable() {
+    const table = new Map();
+    for (const entry of fs.readdirSync('/proc')) {
+        if (!/^\d+$/.test(entry)) continue;
+        try {
+            const stat = fs.readFileSync(`/proc/${entry}/stat`, 'utf-8');
+            // comm may contain spaces and parens — split after the last ')'
+            const close = stat.lastIndexOf(')');
+            const command = stat.slice(stat.indexOf('(') + 1, close);
+            const fields = stat.slice(close + 2).split(' ');
+            table.set(Number(entry), {
+                ppid: Number(fields[1]),
+                command,
+                ticks: Number(fields[11]) + Number(fields[12]),
+                rss: Number(fields[21]) * PAGE_SIZE,
+            });
+        } catch { /* exited while we were reading */ }
+    }
+    return table;
+}
+
+function readArgs(pid) {
+    try {
+        const args = fs.readFileSync(`/proc/${pid}/cmdline`, 'utf-8').split('\0').filter(Boolean).join(' ');
+        return args.length > MAX_ARGS_LENGTH ? args.slice(0, MAX_ARGS_LENGTH - 1) + '…' : args;
+    } catch {
+        return '';
+    }
+}
+
+/** pid → { ppid, command, cpu, rss } from `ps` */
+function readPsTable() {
+    return new Promise((resolve) => {
+        execFile('ps', ['-axo', 'pid=,ppid=,pcpu=,rss=,comm='], { maxBuffer: 4 * 1024 * 1024 }, (err, stdout) => {
+            const table = new Map();
+            if (err) return resolve(table);
+            for (const line of stdout.split('\n')) {
+                const m = line.trim().match(/^(\d+)\s+(\d+)\s+([\d.]+)\s+(\d+)\s+(.*)$/);
+                if (!m) continue;
+                table.set(Number(m[1]), {
+                    ppid: Number(m[2]),
+                    cpu: Number(m[3]),
+                    rss: Number(m[4]) * 1024,
+                    command: m[5].split('/').pop(),
+                    args: m[5],
+                });
+            }
+            resolve(table);
+        });
+    });
+}
+
+function descendants(table, rootPid) {
+    const children = new Map();
+    for (const [pid, p] of table) {
+        if (!children.has(p.ppid)) children.set(p.ppid, []);
+        children.get(p.ppid).push(pid);
+    }
+    const out = [];
+    const stack = [rootPid];
+    while (stack.length > 0) {
+        const pid = stack.pop();
+        if (!table.has(pid)) continue;
+        out.push(pid);
+        stack.push(...(children.get(pid) || []));
+    }
+    return out;
+}
+
+function createProcessMonitor() {
+    const previous = new Map(); // pid → ticks at the last sample (Linux)
+    let lastSampleAt = 0;
+
+    /**
+     * @param {{ id: string, pid: number }[]} roots
+     * @returns {Promise<Record<string, { pid: number, cpu: number, rss: number, processes: { pid: number, command: string, args: string, cpu: number, rss: number }[] }>>}
+     */
+    async function sample(roots) {
+        const now = Date.now();
+        const linux = process.platform === 'linux';
+        const table = linux ? readProcTable() : await readPsTable();
+        const elapsed = (now - lastSampleAt) / 1000;
+        lastSampleAt = now;
+
+        const result = {};
+        const seen = new Map();
+        for (const { id, pid } of roots) {
+            const processes = descendants(table, pid).map((p) => {
+                const info = table.get(p);
+                let cpu = info.cpu ?? 0;
+                if (linux) {
+                    const before = previous.get(p);
+                    cpu = before != null && elapsed > 0 ? ((info.ticks - before) / CLK_TCK / elapsed) * 100 : 0;
+                    seen.set(p, info.ticks);
+                }
+                return {
+                    pid: p,
+                    command: info.command,
+                    args: linux ? readArgs(p) : info.args,
+                    cpu: Math.max(0, Math.round(cpu * 10) / 10),
+                    rss: info.rss,
+                };
+            });
+            result[id] = {
+                pid,
+                cpu: Math.round(processes.reduce((n, p) => n + p.cpu, 0) * 10) / 10,
+                rss: processes.reduce((n, p) => n + p.rss, 0),
+                processes,
+            };
+        }
+        // Only keep tick baselines for processes still in an agent tree
+        previous.clear();
+        for (const [pid, ticks] of seen) previous.set(pid, ticks);
+        return result;
+    }
+
+    return { sample };
+}
+
+module.exports = { createProcessMonitor };
@@ -0,0 +1,362 @@
+// ═══════════════════════════════════════════════════════════════
+// KaizenTerm — Detached PTY Host
+// ═══════════════════════════════════════════════════════════════
+//
+// A background process that owns the node-pty shells so they outlive the
+// Electron window, tmux-style. Electron launches it detached (running its
+// own binary with ELECTRON_RUN_AS_NODE, so node-pty's ABI matches) and
+// talks to it over a Unix socket / named pipe with newline-delimited JSON:
+//
+//   → { seq, type: 'spawn' | 'attach' | 'write' | 'resize' | 'kill' | 'list' | 'shutdown', ... }
+//   ← { seq, ok: true, ...result } | { seq, ok: false, error }
+//   ← { event: 'data', id, data } | { event: 'exit', id, exitCode }
+//
+// Each session keeps its raw output (SCROLLBACK_CHARS) so a reattaching
+// window can replay the screen. Sessions that exit while no window is
+// connected are kept (EXITED_TTL_MS) so the next attach can report how
+// they ended. The host exits once it has no sessions and no clients.
+
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+const { spawn } = require('child_process');
+
+const KAIZEN_DIR = path.join(process.env.HOME || os.homedir(), '.kaizen-term');
+const SOCKET_PATH = process.platform === 'win32'
+    ? `\\\\.\\pipe\\kaizen-pty-host-${os.userInfo().username}`
+    : path.join(KAIZEN_DIR, 'pty-host.sock');
+const HOST_LOG = path.join(KAIZEN_DIR, 'pty-host.log');
+const SCROLLBACK_CHARS = 1024 * 1024;
+const EXITED_TTL_MS = 24 * 60 * 60 * 1000;
+const IDLE_EXIT_MS = 60 * 1000;
+const CONNECT_TIMEOUT_MS = 5000;
+
+// ─── Host (daemon side) ─────────────────────────────────────────────────────
+
+function logHost(message) {
+    try { fs.appendFileSync(HOST_LOG, `[${new Date().toISOString()}] ${message}\n`); } catch { }
+}
+
+function startHost() {
+    const pty = require('node-pty');
+    const sessions = new Map(); // id → session
+    const clients = new Set();
+    let idleTimer = null;
+
+    const send = (socket, msg) => {
+        try { socket.write(JSON.stringify(msg) + '\n'); } catch { }
+    };
+    const broadcast = msg => { for (const c of clients) send(c, msg); };
+
+    function scheduleIdleExit() {
+        clearTimeout(idleTimer);
+        if (clients.size > 0 || sessions.size > 0) return;
+        idleTimer = setTimeout(() => {
+            logHost('idle, exiting');
+            process.exit(0);
+        }, IDLE_EXIT_MS);
+    }
+
+    function describe(s) {
+        return { id: s.id, pid: s.pid, cols: s.cols, rows: s.rows, cwd: s.cwd, startedAt: s.startedAt, exitCode: s.exited?.exitCode };
+    }
+
+    function spawnSession({ id, shell, args, cols, rows, cwd, env }) {
+        if (sessions.get(id) && !sessions.get(id).exited) throw new Error(`Session ${id} is already running`);
+        const term = pty.spawn(shell, args || [], {
+            name: 'xterm-256color',
+            cols: cols || 80,
+            rows: rows || 24,
+            cwd,
+            env,
+        });
+        const s = { id, term, pid: term.pid, cols: cols || 80, rows: rows || 24, cwd, startedAt: Date.now(), chunks: [], buffered: 0, total: 0, seen: 0, exited: null };
+        sessions.set(id, s);
+
+        term.onData((data) => {
+            s.chunks.push(data);
+            s.buffered += data.length;
+            s.total += data.length;
+            // Drop whole chunks from the front while the rest still fills the scrollback
+            while (s.chunks.length > 1 && s.buffered - s.chunks[0].length >= SCROLLBACK_CHARS) {
+                s.buffered -= s.chunks.shift().length;
+            }
+            if (clients.size > 0) {
+                s.seen = s.total;
+                broadcast({ event: 'data', id, data });
+            }
+        });
+        term.onExit(({ exitCode }) => {
+            s.exited = { exitCode, at: Date.now() };
+            s.term = null;
+            if (clients.size > 0) {
+                // Someone saw it end — nothing left to report on attach
+                sessions.delete(id);
+                broadcast({ event: 'exit', id, exitCode });
+            }
+            scheduleIdleExit();
+        });
+        return { pid: term.pid };
+    }
+
+    /** The last SCROLLBACK_CHARS of output, joined only when a window attaches */
+    function scrollback(s) {
+        let buffer = s.chunks.join('');
+        if (buffer.length > SCROLLBACK_CHARS) {
+            // Trim at a line break so the replay doesn't start mid escape sequence
+            const cut = buffer.indexOf('\n', buffer.length - SCROLLBACK_CHARS);
+            buffer = buffer.slice(cut === -1 ? buffer.length - SCROLLBACK_CHARS : cut + 1);
+        }
+        s.chunks = buffer ? [buffer] : [];
+        s.buffered = buffer.length;
+        return buffer;
+    }
+
+    /** Scrollback to replay, plus the output no client has seen yet */
+    function attachSession(id) {
+        const s = sessions.get(id);
+        if (!s) return { found: false };
+        const buffer = scrollback(s);
+        const unseenChars = Math.min(s.total - s.seen, buffer.length);
+        const result = {
+            found: true,
+            ...describe(s),
+            scrollback: buffer,
+            unseen: unseenChars > 0 ? buffer.slice(-unseenChars) : '',
+        };
+        s.seen = s.total;
+        if (s.exited) sessions.delete(id);
+        return result;
+    }
+
+    function dispatch(msg) {
+        const s = msg.id ? sessions.get(msg.id) : null;
+        switch (msg.type) {
+            case 'spawn': return spawnSession(msg);
+            case 'attach': return attachSession(msg.id);
+            case 'write':
+                s?.term?.write(msg.data);
+                return {};
+            case 'resize':
+                if (s?.term) {
+                    s.term.resize(msg.cols, msg.rows);
+                    s.cols = msg.cols;
+                    s.rows = msg.rows;
+                }
+                return {};
+            case 'kill':
+                if (s?.term) s.term.kill();
+                sessions.delete(msg.id);
+                return {};
+            case 'list':
+                return { sessions: [...sessions.values()].map(describe) };
+            case 'shutdown':
+                for (const x of sessions.values()) { try { x.term?.kill(); } catch { } }
+                sessions.clear();
+                setTimeout(() => process.exit(0), 100);
+                return {};
+            default:
+                throw new Error(`Unknown request: ${msg.type}`);
+        }
+    }
+
+    const server = net.createServer((socket) => {
+        clients.add(socket);
+        clearTimeout(idleTimer);
+        let pending = '';
+        socket.setEncoding('utf-8');
+        socket.on('data', (chunk) => {
+            pending += chunk;
+            let nl;
+            while ((nl = pending.indexOf('\n')) !== -1) {
+                const line = pending.slice(0, nl);
+                pending = pending.slice(nl + 1);
+                if (!line) continue;
+                let msg;
+                try { msg = JSON.parse(line); } catch { continue; }
+                // Requests without a seq (write / resize / kill) get no reply
+                try {
+                    const result = dispatch(msg);
+                    if (msg.seq != null) send(socket, { seq: msg.seq, ok: true, ...result });
+                } catch (err) {
+                    if (msg.seq != null) send(socket, { seq: msg.seq, ok: false, error: err.message });
+                }
+            }
+        });
+        const drop = () => {
+            clients.delete(socket);
+            scheduleIdleExit();
+        };
+        socket.on('close', drop);
+        socket.on('error', drop);
+    });
+
+    // Forget sessions that ended while nobody was looking, after a day
+    setInterval(() => {
+        const cutoff = Date.now() - EXITED_TTL_MS;
+        for (const [id, s] of sessions) {
+            if (s.exited && s.exited.at < cutoff) sessions.delete(id);
+        }
+        scheduleIdleExit();
+    }, 60 * 60 * 1000).unref();
+
+    server.on('error', (err) => {
+        if (err.code !== 'EADDRINUSE') {
+            logHost(`server error: ${err.message}`);
+            process.exit(1);
+        }
+        // Another host may own the socket — only take it over if it's stale
+        const probe = net.connect(SOCKET_PATH);
+        probe.once('connect', () => {
+            logHost('another host is running, exiting');
+            process.exit(0);
+        });
+        probe.once('error', () => {
+            try { fs.unlinkSync(SOCKET_PATH); } catch { }
+            server.listen(SOCKET_PATH);
+        });
+    });
+
+    process.on('uncaughtException', (err) => logHost(`uncaught: ${err.stack || err.message}`));
+    process.on('exit', () => {
+        if (process.platform !== 'win32') { try { fs.unlinkSync(SOCKET_PATH); } catch { } }
+    });
+
+    fs.mkdirSync(KAIZEN_DIR, { recursive: true });
+    server.listen(SOCKET_PATH, () => {
+        logHost(`listening on ${SOCKET_PATH} (pid ${process.pid})`);
+        scheduleIdleExit();
+    });
+}
+
+// ─── Client (Electron side) ─────────────────────────────────────────────────
+
+function tryConnect() {
+    return new Promise((resolve, reject) => {
+        const socket = net.connect(SOCKET_PATH);
+        socket.once('connect', () => resolve(socket));
+        socket.once('error', reject);
+    });
+}
+
+function launchHost() {
+    const child = spawn(process.execPath, [__filename], {
+        detached: true,
+        stdio: 'ignore',
+        env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+    });
+    child.unref();
+}
+
+/**
+ * Connect to the PTY host, launching it first if nobody is listening.
+ * Resolves with a client, or rejects when the host never comes up.
+ *
+ * @param {{ onData: (id: string, data: string) => void, onExit: (id: string, exitCode: number) => void, onClose?: () => void }} handlers
+ */
+async function connectPtyHost({ onData, onExit, onClose }) {
+    let socket;
+    try {
+        socket = await tryConnect();
+    } catch {
+        launchHost();
+        const deadline = Date.now() + CONNECT_TIMEOUT_MS;
+        while (!socket) {
+            await new Promise(r => setTimeout(r, 100));
+            try {
+                socket = await tryConnect();
+            } catch (err) {
+                if (Date.now() > deadline) throw new Error(`PTY host did not start: ${err.message}`);
+            }
+        }
+    }
+
+    let seq = 0;
+    const waiting = new Map(); // seq → { resolve, reject }
+    let pending = '';
+    let closed = false;
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk) => {
+        pending += chunk;
+        let nl;
+        while ((nl = pending.indexOf('\n')) !== -1) {
+            const line = pending.slice(0, nl);
+            pending = pending.slice(nl + 1);
+            let msg;
+            try { msg = JSON.parse(line); } catch { continue; }
+            if (msg.event === 'data') onData(msg.id, msg.data);
+            else if (msg.event === 'exit') onExit(msg.id, msg.exitCode);
+            else if (waiting.has(msg.seq)) {
+                const { resolve, reject } = waiting.get(msg.seq);
+                waiting.delete(msg.seq);
+                if (msg.ok) resolve(msg);
+                else reject(new Error(msg.error));
+            }
+        }
+    });
+    const close = () => {
+        if (closed) return;
+        closed = true;
+        for (const { reject } of waiting.values()) reject(new Error('PTY host connection closed'));
+        waiting.clear();
+        onClose?.();
+    };
+    socket.on('close', close);
+    socket.on('error', close);
+
+    function request(type, fields = {}) {
+        if (closed) return Promise.reject(new Error('PTY host connection closed'));
+        return new Promise((resolve, reject) => {
+            const id = ++seq;
+            waiting.set(id, { resolve, reject });
+            socket.write(JSON.stringify({ seq: id, type, ...fields }) + '\n');
+        });
+    }
+    // Fire-and-forget for the keystroke path
+    function notify(type, fields) {
+        if (!closed) socket.write(JSON.stringify({ type, ...fields }) + '\n');
+    }
+
+    /** A node-pty-shaped handle, so callers treat hosted and in-process shells alike */
+    function handle(id, pid) {
+        return {
+            hosted: true,
+            pid,
+            write: data => notify('write', { id, data }),
+            resize: (cols, rows) => notify('resize', { id, cols, rows }),
+            kill: () => notify('kill', { id }),
+        };
+    }
+
+    return {
+        async spawn(id, opts) {
+            const { pid } = await request('spawn', { id, ...opts });
+            return handle(id, pid);
+        },
+        /** null when the host has no session with this id */
+        async attach(id) {
+            const res = await request('attach', { id });
+            if (!res.found) return null;
+            return {
+                term: res.exitCode == null ? handle(id, res.pid) : null,
+                pid: res.pid,
+                cwd: res.cwd,
+                startedAt: res.startedAt,
+                exitCode: res.exitCode,
+                scrollback: res.scrollback,
+                unseen: res.unseen,
+            };
+        },
+        async list() {
+            return (await request('list')).sessions;
+        },
+        shutdown: () => request('shutdown').catch(() => { }),
+        close: () => socket.end(),
+        isClosed: () => closed,
+    };
+}
+
+if (require.main === module) startHost();
+
+module.exports = { connectPtyHost, SOCKET_PATH };
@@ -0,0 +1,43 @@
+// ═══════════════════════════════════════════════════════════════
+// Agent Git — git_status / git_diff over an agent's working directory
+// ═══════════════════════════════════════════════════════════════
+//
+// The queries themselves live in shared/git-info.cjs (also behind the
+// Electron git:* IPC); this resolves which directory to ask about and
+// formats the answers for tool output.
+
+import { readTerminalNames } from './terminal-search.js';
+import type { GitFileDiffStat, GitStatus } from '../../shared/git-info.cjs';
+
+/** An agent's cwd (from terminals.json) or an explicit directory */
+export function resolveGitTarget(agentId?: string, cwd?: string): { cwd: string; label: string } | { error: string } {
+    if (cwd) return { cwd, label: `\`${cwd}\`` };
+    if (!agentId) return { error: 'Pass agentId or cwd' };
+    const info = readTerminalNames()[agentId];
+    if (!info?.cwd) return { error: `Unknown agent "${agentId}" — no terminal with that ID was spawned this session` };
+    return { cwd: info.cwd, label: `**${info.name || agentId}** (${agentId}) · \`${info.cwd}\`` };
+}
+
+/** `XY path` like `git status --short`, with the diffstat when there is one */
+export function formatStatusLines(status: GitStatus, stats: GitFileDiffStat[]): string[] {
+    const byPath = new Map<string, { added: number; deleted: number; binary: boolean }>();
+    for (const s of stats) {
+        const prev = byPath.get(s.path);
+        byPath.set(s.path, {
+            added: (prev?.added ?? 0) + s.added,
+            deleted: (prev?.deleted ?? 0) + s.deleted,
+            binary: (prev?.binary ?? false) || s.binary,
+        });
+    }
+    return status.files.map((f) => {
+        const code = `${f.index === '.' ? ' ' : f.index}${f.worktree === '.' ? ' ' : f.worktree}`;
+        const stat = byPath.get(f.path);
+        const delta = stat ? (stat.binary ? '  binary' : `  +${stat.added} −${stat.deleted}`) : '';
+        return `${code} ${f.origPath ? `${f.origPath} → ` : ''}${f.path}${delta}`;
+    });
+}
+
+export function formatBranch(status: GitStatus): string {
+    const sync = [status.ahead ? `↑${status.ahead}` : '', status.behind ? `↓${status.behind}` : ''].filter(Boolean).join(' ');
+    return `⎇ ${status.branch || 'detached HEAD'}${status.upstream ? ` → ${status.upstream}` : ''}${sync ? ` ${sync}` : ''}`;
+}
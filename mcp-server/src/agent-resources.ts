@@ -0,0 +1,50 @@
+// ═══════════════════════════════════════════════════════════════
+// Agent Resources — the process-tree samples Electron writes
+// ═══════════════════════════════════════════════════════════════
+//
+// electron/process-monitor.cjs samples every shell's process tree each few
+// seconds and Electron mirrors the result to agent-resources.json. The file
+// is removed on quit, and a stale `sampledAt` means the app stopped sampling.
+
+import * as fs from 'fs';
+import { AGENT_RESOURCES_FILE } from './paths.js';
+
+export interface AgentProcess {
+    pid: number;
+    command: string;
+    args: string;
+    /** Percent of one core */
+    cpu: number;
+    /** Resident memory in bytes */
+    rss: number;
+}
+
+export interface AgentResources {
+    pid: number;
+    cpu: number;
+    rss: number;
+    processes: AgentProcess[];
+    alerts: { kind: 'memory' | 'cpu'; message: string }[];
+}
+
+export interface ResourceSnapshot {
+    sampledAt: number;
+    agents: Record<string, AgentResources>;
+}
+
+/** A sample older than this means KaizenTerm isn't updating it any more */
+export const STALE_AFTER_MS = 30_000;
+
+export function readAgentResources(): ResourceSnapshot | null {
+    try {
+        const snapshot = JSON.parse(fs.readFileSync(AGENT_RESOURCES_FILE, 'utf-8')) as ResourceSnapshot;
+        return snapshot && typeof snapshot.agents === 'object' ? snapshot : null;
+    } catch {
+        return null;
+    }
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+    return `${Math.round(bytes / 1024 ** 2)} MB`;
+}
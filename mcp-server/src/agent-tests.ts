@@ -0,0 +1,27 @@
+// ═══════════════════════════════════════════════════════════════
+// Agent Tests — get_test_results output
+// ═══════════════════════════════════════════════════════════════
+//
+// Finding and parsing the reports lives in shared/test-results.cjs (also
+// behind the Electron tests:collect IPC that feeds the card badge); this
+// only formats the result for tool output.
+
+import { formatTestCounts, type TestResults } from '../../shared/test-results.cjs';
+
+const FAILURES_SHOWN = 20;
+
+export function formatTestResults(results: TestResults): string[] {
+    const lines = [
+        `${results.failed > 0 ? '❌' : '✅'} ${formatTestCounts(results)} (${results.total} total)`,
+        `Source: ${results.runs.map(r => `${r.source} [${r.format}]`).join(', ')} · collected ${results.collectedAt}`,
+    ];
+    if (results.failures.length > 0) {
+        lines.push('', `**Failing tests**${results.failed > FAILURES_SHOWN ? ` (first ${FAILURES_SHOWN} of ${results.failed})` : ''}`);
+        for (const f of results.failures.slice(0, FAILURES_SHOWN)) {
+            lines.push(`- ${f.name}${f.file ? ` (${f.file})` : ''}${f.message ? ` — ${f.message}` : ''}`);
+        }
+    } else if (results.failed > 0) {
+        lines.push('', '_Only counts were printed — the failing test names need a JUnit / TAP / JSON report._');
+    }
+    return lines;
+}
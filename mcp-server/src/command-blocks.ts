@@ -0,0 +1,76 @@
+// ═══════════════════════════════════════════════════════════════
+// Command Blocks — per-terminal command / output / exit history
+// ═══════════════════════════════════════════════════════════════
+//
+// Electron appends one JSON line per finished block to
+// terminal-buffers/<id>.blocks.jsonl (the renderer's block tracker decides
+// where a command starts and ends). Numbering (`seq`) is per terminal.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BUFFERS_DIR } from './paths.js';
+
+export const BLOCKS_SUFFIX = '.blocks.jsonl';
+
+export interface CommandBlockRecord {
+    seq: number;
+    command: string;
+    startedAt: number;
+    endedAt?: number;
+    durationMs?: number;
+    /** Only known with shell integration (OSC 133) or when the shell itself exited */
+    exitCode?: number;
+    hasError: boolean;
+    /** Lines the command printed; `output` keeps at most the last 2000 */
+    outputLines: number;
+    output: string[];
+}
+
+export interface TerminalBlock extends CommandBlockRecord {
+    terminalId: string;
+}
+
+export function readCommandBlocks(terminalId: string): CommandBlockRecord[] {
+    try {
+        return fs.readFileSync(path.join(BUFFERS_DIR, terminalId + BLOCKS_SUFFIX), 'utf-8')
+            .split('\n')
+            .filter(Boolean)
+            .map(line => { try { return JSON.parse(line) as CommandBlockRecord; } catch { return null; } })
+            .filter((b): b is CommandBlockRecord => !!b);
+    } catch {
+        return [];
+    }
+}
+
+/** Terminal ids that have recorded at least one block */
+export function listBlockTerminals(): string[] {
+    try {
+        return fs.readdirSync(BUFFERS_DIR)
+            .filter(f => f.endsWith(BLOCKS_SUFFIX))
+            .map(f => f.slice(0, -BLOCKS_SUFFIX.length))
+            .sort();
+    } catch {
+        return [];
+    }
+}
+
+/** Most recent blocks first, across the given terminals (default: all) */
+export function recentCommandBlocks(
+    { terminalIds, errorsOnly, command, limit }: { terminalIds?: string[]; errorsOnly?: boolean; command?: string; limit: number },
+): TerminalBlock[] {
+    const needle = command?.toLowerCase();
+    const ids = terminalIds?.length ? terminalIds : listBlockTerminals();
+    return ids
+        .flatMap(terminalId => readCommandBlocks(terminalId).map(b => ({ ...b, terminalId })))
+        .filter(b => !errorsOnly || b.hasError || (b.exitCode ?? 0) !== 0)
+        .filter(b => !needle || b.command.toLowerCase().includes(needle))
+        .sort((a, b) => b.startedAt - a.startedAt)
+        .slice(0, limit);
+}
+
+export function formatDuration(ms?: number): string {
+    if (ms == null) return '?';
+    if (ms < 1000) return `${ms}ms`;
+    if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+    return `${Math.floor(ms / 60_000)}m${Math.round((ms % 60_000) / 1000)}s`;
+}
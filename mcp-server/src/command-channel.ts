@@ -0,0 +1,82 @@
+// ═══════════════════════════════════════════════════════════════
+// Command Channel — MCP → Electron via a watched spool directory
+// ═══════════════════════════════════════════════════════════════
+//
+// The MCP server writes one JSON file per command into
+// ~/.kaizen-term/commands/. The Electron main process watches that
+// directory, executes the command (pty spawn / write) and answers
+// with ~/.kaizen-term/commands/results/<id>.json. Each command carries its
+// deadline; Electron drops results nobody is waiting for any more, and
+// results that still slip through are swept on the next send.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { COMMANDS_DIR, COMMAND_RESULTS_DIR } from './paths.js';
+
+export type ChannelCommand =
+    | { type: 'spawn'; name?: string; cwd?: string; command?: string; taskId?: string }
+    | { type: 'write'; terminalId: string; data: string };
+
+export interface ChannelResult {
+    ok: boolean;
+    error?: string;
+    terminalId?: string;
+}
+
+const POLL_INTERVAL_MS = 100;
+const DEFAULT_TIMEOUT_MS = 5000;
+const STALE_RESULT_MS = 60_000;
+
+function genCommandId(): string {
+    return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Remove results whose sender gave up on them (answered just after its deadline) */
+function sweepStaleResults() {
+    const cutoff = Date.now() - STALE_RESULT_MS;
+    for (const file of fs.readdirSync(COMMAND_RESULTS_DIR)) {
+        const filePath = path.join(COMMAND_RESULTS_DIR, file);
+        try {
+            if (fs.statSync(filePath).mtimeMs < cutoff) fs.unlinkSync(filePath);
+        } catch {
+            // Claimed by its sender meanwhile
+        }
+    }
+}
+
+/** Queue a command for the Electron app and wait for its result */
+export async function sendCommand(command: ChannelCommand, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<ChannelResult> {
+    fs.mkdirSync(COMMAND_RESULTS_DIR, { recursive: true });
+    sweepStaleResults();
+
+    const id = genCommandId();
+    const commandFile = path.join(COMMANDS_DIR, `${id}.json`);
+    const resultFile = path.join(COMMAND_RESULTS_DIR, `${id}.json`);
+    const deadline = Date.now() + timeoutMs;
+
+    // Atomic write: the watcher must never see a half-written command
+    const tmpFile = commandFile + '.tmp';
+    fs.writeFileSync(tmpFile, JSON.stringify({ id, ...command, createdAt: new Date().toISOString(), deadline }));
+    fs.renameSync(tmpFile, commandFile);
+
+    while (Date.now() < deadline) {
+        if (fs.existsSync(resultFile)) {
+            try {
+                const result = JSON.parse(fs.readFileSync(resultFile, 'utf-8')) as ChannelResult;
+                fs.unlinkSync(resultFile);
+                return result;
+            } catch {
+                // Result still being renamed into place — retry on next tick
+            }
+        }
+        await new Promise(r => setTimeout(r, POLL_INTERVAL_MS));
+    }
+
+    // Nobody picked the command up: withdraw it so it doesn't fire later
+    try {
+        fs.unlinkSync(commandFile);
+        return { ok: false, error: 'KaizenTerm app did not respond (is it running?)' };
+    } catch {
+        return { ok: false, error: 'Timed out waiting for KaizenTerm to execute the command' };
+    }
+}
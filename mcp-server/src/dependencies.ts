@@ -0,0 +1,41 @@
+// ═══════════════════════════════════════════════════════════════
+// Task Dependencies — blockedBy graph helpers
+// ═══════════════════════════════════════════════════════════════
+
+interface DependencyNode {
+    id: string;
+    status: string;
+    blockedBy?: string[];
+}
+
+/** True if making `taskId` blocked by `blockerId` would close a cycle */
+export function wouldCreateCycle(tasks: DependencyNode[], taskId: string, blockerId: string): boolean {
+    if (taskId === blockerId) return true;
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    // Walk everything the blocker (transitively) waits on; reaching taskId means a loop
+    const stack = [blockerId];
+    const seen = new Set<string>();
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (id === taskId) return true;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        stack.push(...(byId.get(id)?.blockedBy || []));
+    }
+    return false;
+}
+
+/** Blockers of a task that are not done yet (unknown IDs count as resolved) */
+export function openBlockers<T extends DependencyNode>(tasks: T[], task: DependencyNode): T[] {
+    const ids = new Set(task.blockedBy || []);
+    return tasks.filter(t => ids.has(t.id) && t.status !== 'done');
+}
+
+/** Drop references to a deleted task from every blockedBy list */
+export function removeDependencyReferences(tasks: DependencyNode[], deletedId: string) {
+    for (const t of tasks) {
+        if (t.blockedBy?.includes(deletedId)) {
+            t.blockedBy = t.blockedBy.filter(id => id !== deletedId);
+        }
+    }
+}
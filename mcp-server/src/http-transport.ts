@@ -0,0 +1,170 @@
+// ═══════════════════════════════════════════════════════════════
+// HTTP Transport — Streamable HTTP (POST + SSE) endpoint next to stdio
+// ═══════════════════════════════════════════════════════════════
+//
+// Enabled with `--http[=port]` or KAIZEN_MCP_HTTP_PORT. Listens on 127.0.0.1
+// (KAIZEN_MCP_HTTP_HOST overrides it, e.g. 0.0.0.0 inside a container) and
+// every request needs `Authorization: Bearer <token>`. The token is
+// KAIZEN_MCP_TOKEN, or a random one per run.
+//
+// The URL and token are written to ~/.kaizen-term/mcp-endpoint.json, which
+// Electron reads to advertise KAIZEN_MCP_SOCKET / KAIZEN_MCP_TOKEN to the
+// shells it spawns, so several agents can share this one server process.
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { KAIZEN_DIR } from './paths.js';
+
+export const ENDPOINT_FILE = path.join(KAIZEN_DIR, 'mcp-endpoint.json');
+export const DEFAULT_HTTP_PORT = 7420;
+
+const MCP_PATH = '/mcp';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpTransportOptions {
+    port: number;
+    host: string;
+    token: string;
+}
+
+/** HTTP settings from argv / env, or null when only stdio was asked for */
+export function httpOptionsFromEnv(argv: string[] = process.argv.slice(2)): HttpTransportOptions | null {
+    const flag = argv.find(a => a === '--http' || a.startsWith('--http='));
+    const envPort = process.env.KAIZEN_MCP_HTTP_PORT;
+    if (!flag && !envPort) return null;
+
+    const raw = flag?.split('=')[1] || envPort || String(DEFAULT_HTTP_PORT);
+    const port = Number(raw);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid MCP HTTP port: ${raw}`);
+    }
+    return {
+        port,
+        host: process.env.KAIZEN_MCP_HTTP_HOST || '127.0.0.1',
+        token: process.env.KAIZEN_MCP_TOKEN || randomBytes(24).toString('hex'),
+    };
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+    const header = req.headers.authorization || '';
+    const given = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+    const expected = Buffer.from(token);
+    return header.toLowerCase().startsWith('bearer ') && given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new Error('Request body too large'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+            } catch {
+                reject(new Error('Invalid JSON body'));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+function writeEndpointFile(url: string, token: string) {
+    fs.mkdirSync(KAIZEN_DIR, { recursive: true });
+    fs.writeFileSync(ENDPOINT_FILE, JSON.stringify({
+        url,
+        token,
+        pid: process.pid,
+        startedAt: new Date().toISOString(),
+    }, null, 2), { mode: 0o600 });
+}
+
+function removeEndpointFile() {
+    try {
+        const current = JSON.parse(fs.readFileSync(ENDPOINT_FILE, 'utf-8'));
+        // Another server may have taken over the file since we wrote it
+        if (current.pid === process.pid) fs.unlinkSync(ENDPOINT_FILE);
+    } catch { }
+}
+
+/**
+ * Serve MCP over Streamable HTTP. `connect` attaches a fresh Server to each
+ * new session's transport. Resolves with the endpoint URL once listening.
+ */
+export function startHttpTransport(
+    { port, host, token }: HttpTransportOptions,
+    connect: (transport: StreamableHTTPServerTransport) => Promise<void>,
+): Promise<{ url: string; close: () => void }> {
+    const transports = new Map<string, StreamableHTTPServerTransport>();
+
+    async function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const { pathname } = new URL(req.url || '/', 'http://localhost');
+        if (pathname !== MCP_PATH) return sendJsonRpcError(res, 404, -32000, `Not found — the MCP endpoint is ${MCP_PATH}`);
+        if (!isAuthorized(req, token)) return sendJsonRpcError(res, 401, -32001, 'Missing or invalid bearer token');
+
+        const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+        let transport = sessionId ? transports.get(sessionId) : undefined;
+        if (sessionId && !transport) return sendJsonRpcError(res, 404, -32001, `Unknown session ${sessionId}`);
+
+        if (!transport) {
+            if (!isInitializeRequest(body)) {
+                return sendJsonRpcError(res, 400, -32000, 'No session — send an initialize request first');
+            }
+            const created = new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => randomUUID(),
+                onsessioninitialized: (id) => { transports.set(id, created); },
+            });
+            created.onclose = () => {
+                if (created.sessionId) transports.delete(created.sessionId);
+            };
+            await connect(created);
+            transport = created;
+        }
+
+        await transport.handleRequest(req, res, body);
+    }
+
+    const server = http.createServer((req, res) => {
+        handle(req, res).catch((err) => {
+            if (!res.headersSent) sendJsonRpcError(res, 400, -32700, err.message);
+            else res.end();
+        });
+    });
+
+    function close() {
+        for (const t of transports.values()) t.close().catch(() => { });
+        transports.clear();
+        server.close();
+        removeEndpointFile();
+    }
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+            const address = server.address();
+            const boundPort = typeof address === 'object' && address ? address.port : port;
+            const url = `http://${host.includes(':') ? `[${host}]` : host}:${boundPort}${MCP_PATH}`;
+            writeEndpointFile(url, token);
+            process.once('exit', removeEndpointFile);
+            resolve({ url, close });
+        });
+    });
+}
@@ -7,12 +7,41 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
     CallToolRequestSchema,
+    ErrorCode,
+    GetPromptRequestSchema,
+    ListPromptsRequestSchema,
     ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
     ListToolsRequestSchema,
     ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
+    McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 import * as fs from 'fs';
 import * as path from 'path';
+import { sendCommand } from './command-channel.js';
+import { BUFFERS_DIR, KAIZEN_DIR, REPORTS_DIR } from './paths.js';
+import { listTerminalIds, watchResources, TASK_URI_PREFIX, TERMINAL_URI_PREFIX } from './resource-watch.js';
+import { loadPromptTemplates, renderPrompt } from './prompts.js';
+import { httpOptionsFromEnv, startHttpTransport } from './http-transport.js';
+import { waitForTerminal, type WaitCondition } from './terminal-wait.js';
+import { parseTimeBound, readTerminalNames, searchTerminalOutput, type SearchResult } from './terminal-search.js';
+import { formatBytes, readAgentResources, STALE_AFTER_MS } from './agent-resources.js';
+import { formatBranch, formatStatusLines, resolveGitTarget } from './agent-git.js';
+import { formatTestResults } from './agent-tests.js';
+import { formatDuration, readCommandBlocks, recentCommandBlocks } from './command-blocks.js';
+import { openBlockers, removeDependencyReferences, wouldCreateCycle } from './dependencies.js';
+import { TaskStoreError, type StatusChange } from '../../shared/task-store.cjs';
+import { openTaskRepository } from '../../shared/task-repository.cjs';
+import { createJiraSync, jiraMappings } from '../../shared/jira-sync.cjs';
+import { externalRefOf, isLinkedTo, type ExternalRef } from '../../shared/task-utils.cjs';
+import { openTracker, TRACKER_PROVIDERS } from '../../shared/trackers/index.cjs';
+import { formatForFile, generateReport, type ReportFormat, type ReportPeriod } from '../../shared/report.cjs';
+import { createTelemetry, EVENT_TYPES, formatEvent, isEventType } from '../../shared/telemetry.cjs';
+import { createHistoryStore } from '../../shared/history-store.cjs';
+import { gitChanges, gitDiff, gitDiffStat, gitLog } from '../../shared/git-info.cjs';
+import { collectTestResults, formatTestCounts, type TestResults } from '../../shared/test-results.cjs';
 
 // ─── Task Storage ────────────────────────────────────────────────────────────
 
@@ -30,498 +59,1573 @@ interface Task {
     priority: 'low' | 'medium' | 'high' | 'critical';
     agentId?: string;
     labels: string[];
+    /** Link to a GitHub / Linear / Jira issue */
+    externalRef?: ExternalRef;
+    /** @deprecated pre-externalRef Jira link — read through externalRefOf() */
     jiraKey?: string;
+    blockedBy?: string[];
+    subtasks?: { text: string; done: boolean }[];
+    dueDate?: number;
+    activity?: { text: string; timestamp: number; recording?: string }[];
+    statusHistory?: StatusChange[];
+    /** Where the task's latest agent started (set by the app when it spawns one) */
+    reviewBase?: { agentId: string; cwd: string; commit: string | null; spawnedAt: number };
+    /** Latest test run of the task's agent */
+    testResults?: TestResults & { agentId?: string };
     createdAt: string;
     updatedAt: string;
 }
 
-function ensureDir() {
-    const dir = path.dirname(TASKS_FILE);
-    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-}
+// Shared with electron/main.cjs — SQLite when available, locked tasks.json otherwise
+const store = openTaskRepository<Task>({ dir: KAIZEN_DIR, writer: 'mcp' });
+const telemetry = createTelemetry({ dir: KAIZEN_DIR });
+const history = createHistoryStore({ dir: BUFFERS_DIR });
+const MAX_TERMINAL_READ_LINES = 2000;
+// kaizen://terminal/<id> serves the recent tail, not the whole retained history
+const TERMINAL_RESOURCE_LINES = 1000;
+const DEFAULT_GIT_DIFF_BYTES = 100_000;
+const MAX_GIT_DIFF_BYTES = 1_000_000;
+// Terminal lines get_test_results looks through for a printed run
+const TEST_OUTPUT_LINES = 5000;
+// spawn_agent waits for the new pane's shell, not just for Electron to see the command
+const SPAWN_TIMEOUT_MS = 12_000;
 
 function loadTasks(): Task[] {
-    ensureDir();
-    if (!fs.existsSync(TASKS_FILE)) return [];
-    try {
-        return JSON.parse(fs.readFileSync(TASKS_FILE, 'utf-8'));
-    } catch {
-        return [];
-    }
-}
-
-function saveTasks(tasks: Task[]) {
-    ensureDir();
-    fs.writeFileSync(TASKS_FILE, JSON.stringify(tasks, null, 2));
+    return store.load();
 }
 
 function genId(): string {
     return `KZ-${Date.now().toString(36).toUpperCase()}`;
 }
 
-// ─── MCP Server ──────────────────────────────────────────────────────────────
+/** Append to a task's activity log (shown in the app's task drawer) */
+function addActivity(task: Task, text: string) {
+    task.activity = [...(task.activity || []), { text, timestamp: Date.now() }];
+    task.updatedAt = new Date().toISOString();
+}
 
-const server = new Server(
-    {
-        name: 'kaizen-term',
-        version: '1.0.0',
-    },
-    {
-        capabilities: {
-            tools: {},
-            resources: {},
-        },
+function formatTaskDetail(task: Task): string {
+    const ref = externalRefOf(task);
+    const lines = [
+        `📋 **${task.id}**: ${task.title}`,
+        ``,
+        `Status: ${task.status} · Priority: ${task.priority}${task.agentId ? ` · Agent: ${task.agentId}` : ''}`,
+    ];
+    if (task.labels?.length) lines.push(`Labels: ${task.labels.join(', ')}`);
+    if (ref) lines.push(`Tracker: ${ref.provider} ${ref.key}${ref.url ? ` (${ref.url})` : ''}`);
+    if (task.blockedBy?.length) lines.push(`Blocked by: ${task.blockedBy.join(', ')}`);
+    if (task.dueDate) lines.push(`Due: ${new Date(task.dueDate).toISOString().split('T')[0]}`);
+    if (task.testResults) lines.push(`Tests: ${formatTestCounts(task.testResults)} (${task.testResults.collectedAt})`);
+    lines.push(`Updated: ${task.updatedAt}`);
+
+    lines.push('', '**Description**', task.description || '_(none)_');
+
+    const subtasks = task.subtasks || [];
+    const doneCount = subtasks.filter(s => s.done).length;
+    lines.push('', `**Subtasks** (${doneCount}/${subtasks.length})`);
+    subtasks.forEach((s, i) => lines.push(`${i + 1}. [${s.done ? 'x' : ' '}] ${s.text}`));
+
+    const activity = task.activity || [];
+    if (activity.length > 0) {
+        lines.push('', `**Activity** (last ${Math.min(activity.length, 20)} of ${activity.length})`);
+        for (const a of activity.slice(-20)) {
+            lines.push(`- ${new Date(a.timestamp).toISOString()} ${a.text}${a.recording ? ` (recording: ${a.recording})` : ''}`);
+        }
     }
-);
+    return lines.join('\n');
+}
+
+const PRIORITY_RANK: Record<Task['priority'], number> = {
+    critical: 0, high: 1, medium: 2, low: 3,
+};
+
+// ─── MCP Server ──────────────────────────────────────────────────────────────
+
+/** One Server per connection — stdio, plus one per HTTP session */
+interface KaizenSession {
+    server: Server;
+    /** URIs the client asked to be notified about (notifications/resources/updated) */
+    subscriptions: Set<string>;
+}
 
-// ─── Tools ───────────────────────────────────────────────────────────────────
+const sessions = new Set<KaizenSession>();
 
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: [
+function createSession(): KaizenSession {
+    const server = new Server(
         {
-            name: 'list_tasks',
-            description: 'List all Kaizen tasks, optionally filtered by status or priority',
-            inputSchema: {
-                type: 'object' as const,
-                properties: {
-                    status: {
-                        type: 'string',
-                        description: 'Filter by status: backlog, doing, review, done',
-                        enum: ['backlog', 'doing', 'review', 'done'],
+            name: 'kaizen-term',
+            version: '1.0.0',
+        },
+        {
+            capabilities: {
+                tools: {},
+                resources: { subscribe: true, listChanged: true },
+                prompts: {},
+            },
+        }
+    );
+
+    // ─── Tools ───────────────────────────────────────────────────────────────
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+        tools: [
+            {
+                name: 'list_tasks',
+                description: 'List all Kaizen tasks, optionally filtered by status or priority',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        status: {
+                            type: 'string',
+                            description: 'Filter by status: backlog, doing, review, done',
+                            enum: ['backlog', 'doing', 'review', 'done'],
+                        },
+                        priority: {
+                            type: 'string',
+                            description: 'Filter by priority: low, medium, high, critical',
+                            enum: ['low', 'medium', 'high', 'critical'],
+                        },
                     },
-                    priority: {
-                        type: 'string',
-                        description: 'Filter by priority: low, medium, high, critical',
-                        enum: ['low', 'medium', 'high', 'critical'],
+                },
+            },
+            {
+                name: 'create_task',
+                description: 'Create a new Kaizen task',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        title: { type: 'string', description: 'Task title' },
+                        description: { type: 'string', description: 'Task description' },
+                        priority: {
+                            type: 'string',
+                            description: 'Priority level',
+                            enum: ['low', 'medium', 'high', 'critical'],
+                        },
+                        status: {
+                            type: 'string',
+                            description: 'Initial status (default: backlog)',
+                            enum: ['backlog', 'doing', 'review', 'done'],
+                        },
+                        labels: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Labels/tags for the task',
+                        },
+                        jiraKey: {
+                            type: 'string',
+                            description: 'Optional linked Jira issue key (e.g., PROJ-123)',
+                        },
                     },
+                    required: ['title'],
                 },
             },
-        },
-        {
-            name: 'create_task',
-            description: 'Create a new Kaizen task',
-            inputSchema: {
-                type: 'object' as const,
-                properties: {
-                    title: { type: 'string', description: 'Task title' },
-                    description: { type: 'string', description: 'Task description' },
-                    priority: {
-                        type: 'string',
-                        description: 'Priority level',
-                        enum: ['low', 'medium', 'high', 'critical'],
+            {
+                name: 'update_task',
+                description: 'Update an existing task status, priority, or details. Moving a task to doing is refused while it has open blockers',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        id: { type: 'string', description: 'Task ID' },
+                        status: {
+                            type: 'string',
+                            enum: ['backlog', 'doing', 'review', 'done'],
+                        },
+                        priority: {
+                            type: 'string',
+                            enum: ['low', 'medium', 'high', 'critical'],
+                        },
+                        title: { type: 'string' },
+                        description: { type: 'string' },
+                        agentId: { type: 'string', description: 'Assign to agent' },
+                        jiraKey: { type: 'string' },
+                        expectedUpdatedAt: {
+                            type: 'string',
+                            description: 'updatedAt value you last read; the update is refused if the task changed since',
+                        },
                     },
-                    status: {
-                        type: 'string',
-                        description: 'Initial status (default: backlog)',
-                        enum: ['backlog', 'doing', 'review', 'done'],
+                    required: ['id'],
+                },
+            },
+            {
+                name: 'delete_task',
+                description: 'Delete a task by ID',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        id: { type: 'string', description: 'Task ID to delete' },
                     },
-                    labels: {
-                        type: 'array',
-                        items: { type: 'string' },
-                        description: 'Labels/tags for the task',
+                    required: ['id'],
+                },
+            },
+            {
+                name: 'get_board_summary',
+                description: 'Get a summary of the Kaizen board: counts per status, priorities, and recent activity',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {},
+                },
+            },
+            {
+                name: 'generate_report',
+                description: 'Generate a daily or weekly report from the session log and board history: tasks moved per column, time spent in doing, agent runs and exit codes, focus cycles and auto-completed tasks. Returns the report and optionally writes it to a file.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        period: { type: 'string', enum: ['daily', 'weekly'], description: 'daily = one day, weekly = the 7 days ending on date (default: daily)' },
+                        format: { type: 'string', enum: ['markdown', 'html'], description: 'Output format (default: markdown, or taken from the outputFile extension)' },
+                        date: { type: 'string', description: 'Day to report on, YYYY-MM-DD (default: today)' },
+                        outputFile: { type: 'string', description: 'Also write the report here; relative paths go under ~/.kaizen-term/reports' },
                     },
-                    jiraKey: {
-                        type: 'string',
-                        description: 'Optional linked Jira issue key (e.g., PROJ-123)',
+                },
+            },
+            {
+                name: 'query_session_events',
+                description: 'Query the structured session telemetry: agent spawns/exits/kills, task transitions, MCP server starts/stops, AI requests and focus-timer cycles. Filter by event type, agent, task and time range.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        types: { type: 'array', items: { type: 'string', enum: EVENT_TYPES }, description: 'Only these event types (default: all)' },
+                        agentId: { type: 'string', description: 'Only events for this agent/terminal' },
+                        taskId: { type: 'string', description: 'Only events for this task' },
+                        since: { type: 'string', description: 'Only events after this time: ISO date or a duration ago like 15m, 2h, 1d' },
+                        until: { type: 'string', description: 'Only events before this time (same formats as since)' },
+                        limit: { type: 'number', description: 'Most recent events to return (default: 50, max: 500)' },
+                        format: { type: 'string', enum: ['text', 'json'], description: 'text = one log line per event, json = raw events (default: text)' },
                     },
                 },
-                required: ['title'],
             },
-        },
-        {
-            name: 'update_task',
-            description: 'Update an existing task status, priority, or details',
-            inputSchema: {
-                type: 'object' as const,
-                properties: {
-                    id: { type: 'string', description: 'Task ID' },
-                    status: {
-                        type: 'string',
-                        enum: ['backlog', 'doing', 'review', 'done'],
+            {
+                name: 'import_from_jira',
+                description: 'Import tasks from Jira by providing issue keys or JQL results. Creates Kaizen tasks linked to Jira issues.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        issues: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    key: { type: 'string' },
+                                    summary: { type: 'string' },
+                                    description: { type: 'string' },
+                                    status: { type: 'string' },
+                                    priority: { type: 'string' },
+                                },
+                                required: ['key', 'summary'],
+                            },
+                            description: 'Array of Jira issues to import',
+                        },
                     },
-                    priority: {
-                        type: 'string',
-                        enum: ['low', 'medium', 'high', 'critical'],
+                    required: ['issues'],
+                },
+            },
+            {
+                name: 'import_from_tracker',
+                description: 'Import issues from GitHub Issues, Linear or Jira as Kaizen tasks (linked via externalRef). Pass issue keys, or a query for a provider-native search; with neither, imports open issues.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        provider: { type: 'string', enum: ['github', 'linear', 'jira'], description: 'Tracker to import from' },
+                        keys: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description: 'Issue keys (owner/repo#12, ENG-123, PROJ-123)',
+                        },
+                        query: { type: 'string', description: 'Search query (GitHub search syntax, Linear search term or JQL)' },
+                        limit: { type: 'number', description: 'Maximum issues to import when listing (default: 30)' },
                     },
-                    title: { type: 'string' },
-                    description: { type: 'string' },
-                    agentId: { type: 'string', description: 'Assign to agent' },
-                    jiraKey: { type: 'string' },
+                    required: ['provider'],
                 },
-                required: ['id'],
             },
-        },
-        {
-            name: 'delete_task',
-            description: 'Delete a task by ID',
-            inputSchema: {
-                type: 'object' as const,
-                properties: {
-                    id: { type: 'string', description: 'Task ID to delete' },
+            {
+                name: 'link_task',
+                description: 'Link an existing task to a GitHub, Linear or Jira issue, optionally posting a comment on the issue',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        taskId: { type: 'string', description: 'Task ID' },
+                        provider: { type: 'string', enum: ['github', 'linear', 'jira'] },
+                        key: { type: 'string', description: 'Issue key (owner/repo#12, ENG-123, PROJ-123)' },
+                        comment: { type: 'string', description: 'Optional comment to post on the issue' },
+                    },
+                    required: ['taskId', 'provider', 'key'],
                 },
-                required: ['id'],
             },
-        },
-        {
-            name: 'get_board_summary',
-            description: 'Get a summary of the Kaizen board: counts per status, priorities, and recent activity',
-            inputSchema: {
-                type: 'object' as const,
-                properties: {},
+            {
+                name: 'sync_jira',
+                description: 'Two-way sync with the Jira endpoint configured in ~/.kaizen-term/jira.json: pull issues matching the JQL into tasks and push Kaizen status changes back as Jira transitions. Reports conflicts when both sides changed.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        jql: { type: 'string', description: 'Override the configured JQL for this run' },
+                    },
+                },
             },
-        },
-        {
-            name: 'import_from_jira',
-            description: 'Import tasks from Jira by providing issue keys or JQL results. Creates Kaizen tasks linked to Jira issues.',
-            inputSchema: {
-                type: 'object' as const,
-                properties: {
-                    issues: {
-                        type: 'array',
-                        items: {
-                            type: 'object',
-                            properties: {
-                                key: { type: 'string' },
-                                summary: { type: 'string' },
-                                description: { type: 'string' },
-                                status: { type: 'string' },
-                                priority: { type: 'string' },
-                            },
-                            required: ['key', 'summary'],
+            {
+                name: 'resolve_jira_conflict',
+                description: 'Resolve a Jira sync conflict on a task by keeping either the Kaizen status (transitions the issue) or the Jira status (updates the task)',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        taskId: { type: 'string', description: 'Task ID with a Jira conflict' },
+                        keep: { type: 'string', enum: ['kaizen', 'jira'], description: 'Which side wins' },
+                    },
+                    required: ['taskId', 'keep'],
+                },
+            },
+            {
+                name: 'add_dependency',
+                description: 'Mark a task as blocked by another task. Rejects dependencies that would create a cycle.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        taskId: { type: 'string', description: 'Task that is blocked' },
+                        blockedBy: { type: 'string', description: 'Task that must be done first' },
+                    },
+                    required: ['taskId', 'blockedBy'],
+                },
+            },
+            {
+                name: 'remove_dependency',
+                description: 'Remove a blocking dependency between two tasks',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        taskId: { type: 'string', description: 'Task that is blocked' },
+                        blockedBy: { type: 'string', description: 'Blocking task to remove' },
+                    },
+                    required: ['taskId', 'blockedBy'],
+                },
+            },
+            {
+                name: 'get_task',
+                description: 'Get the full detail of a task: description, subtasks checklist, dependencies, tracker link and activity log',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        taskId: { type: 'string', description: 'Task ID' },
+                    },
+                    required: ['taskId'],
+                },
+            },
+            {
+                name: 'add_subtask',
+                description: 'Add a checklist item to a task',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        taskId: { type: 'string', description: 'Task ID' },
+                        text: { type: 'string', description: 'Subtask text' },
+                    },
+                    required: ['taskId', 'text'],
+                },
+            },
+            {
+                name: 'toggle_subtask',
+                description: 'Tick off (or re-open) a checklist item, picked by its number from get_task or by its text',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        taskId: { type: 'string', description: 'Task ID' },
+                        index: { type: 'number', description: 'Subtask number as listed by get_task (1-based)' },
+                        text: { type: 'string', description: 'Subtask text (case-insensitive, partial match) — alternative to index' },
+                        done: { type: 'boolean', description: 'Set explicitly instead of toggling' },
+                    },
+                    required: ['taskId'],
+                },
+            },
+            {
+                name: 'add_comment',
+                description: 'Leave a progress note on a task. It shows up in the task activity log in the app.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        taskId: { type: 'string', description: 'Task ID' },
+                        text: { type: 'string', description: 'Comment text' },
+                        author: { type: 'string', description: 'Who is commenting (default: agent)' },
+                    },
+                    required: ['taskId', 'text'],
+                },
+            },
+            {
+                name: 'get_next_task',
+                description: 'Claim the highest-priority backlog task whose blockers are all done: moves it to doing and assigns it to the calling agent.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        agentId: { type: 'string', description: 'ID of the agent claiming the task' },
+                        label: { type: 'string', description: 'Only consider tasks with this label' },
+                    },
+                    required: ['agentId'],
+                },
+            },
+            {
+                name: 'read_terminal_output',
+                description: 'Read the last N lines of a KaizenTerm terminal output, or a range of its history by line number. Useful to see build results, test output, or compiler errors from an agent terminal.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        terminalId: { type: 'string', description: 'Terminal/agent ID to read output from' },
+                        lines: { type: 'number', description: 'Number of lines to return (default: 50, max: 2000)' },
+                        fromLine: { type: 'number', description: 'Read from this absolute line number onward instead of the tail (line numbers as reported by this tool and search_terminal_output)' },
+                        toLine: { type: 'number', description: 'Last line number to read (inclusive)' },
+                    },
+                    required: ['terminalId'],
+                },
+            },
+            {
+                name: 'search_terminal_output',
+                description: 'Search the captured output of all agent terminals (or the given ones) for a substring or regex. Returns matches with surrounding lines, terminal name and timestamp.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        query: { type: 'string', description: 'Text to look for (substring unless regex is true)' },
+                        regex: { type: 'boolean', description: 'Treat query as a regular expression (default: false)' },
+                        caseSensitive: { type: 'boolean', description: 'Match case (default: false)' },
+                        terminalIds: { type: 'array', items: { type: 'string' }, description: 'Only search these terminals (default: all)' },
+                        since: { type: 'string', description: 'Only lines printed after this time: ISO date or a duration ago like 15m, 2h, 1d' },
+                        until: { type: 'string', description: 'Only lines printed before this time (same formats as since)' },
+                        context: { type: 'number', description: 'Lines of context around each match (default: 2, max: 10)' },
+                        maxResults: { type: 'number', description: 'Maximum matches to return (default: 50, max: 200)' },
+                    },
+                    required: ['query'],
+                },
+            },
+            {
+                name: 'get_command_blocks',
+                description: 'List recent commands run in agent terminals with exit status, duration and error flag, or fetch the full output of one command block.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        terminalId: { type: 'string', description: 'Only this terminal (required with blockId)' },
+                        blockId: { type: 'number', description: 'Block number from the list — returns that command\'s full output' },
+                        command: { type: 'string', description: 'Only commands containing this text (e.g. "test")' },
+                        errorsOnly: { type: 'boolean', description: 'Only commands that failed or printed errors' },
+                        limit: { type: 'number', description: 'Number of blocks to list (default: 20, max: 100)' },
+                    },
+                },
+            },
+            {
+                name: 'get_agent_resources',
+                description: 'CPU, resident memory and child processes of each agent terminal\'s process tree, sampled by KaizenTerm every few seconds, plus any active resource alerts (memory limit, sustained high CPU).',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        agentId: { type: 'string', description: 'Only this terminal/agent (default: all)' },
+                        format: { type: 'string', enum: ['text', 'json'], description: 'Response format (default: text)' },
+                    },
+                },
+            },
+            {
+                name: 'git_status',
+                description: 'Git status of an agent\'s working directory (or any directory): branch, ahead/behind, every changed file with its staged/unstaged state and line counts, plus recent commits. Use it to see what another agent has changed.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        agentId: { type: 'string', description: 'Terminal/agent ID — uses the directory its shell was started in' },
+                        cwd: { type: 'string', description: 'Directory to inspect instead of an agent\'s' },
+                        commits: { type: 'number', description: 'Recent commits to list (default: 5, max: 50)' },
+                        format: { type: 'string', enum: ['text', 'json'], description: 'Response format (default: text)' },
+                    },
+                },
+            },
+            {
+                name: 'git_diff',
+                description: 'Unified diff of an agent\'s changes: unstaged working-tree changes (including new untracked files) by default, the staged changes, or everything since a base ref such as a commit or branch. Use stat for just per-file line counts.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        agentId: { type: 'string', description: 'Terminal/agent ID — uses the directory its shell was started in' },
+                        cwd: { type: 'string', description: 'Directory to inspect instead of an agent\'s' },
+                        staged: { type: 'boolean', description: 'Diff the index against HEAD instead of the working tree' },
+                        base: { type: 'string', description: 'Compare the working tree against this ref (commit, branch, HEAD~3)' },
+                        paths: { type: 'array', items: { type: 'string' }, description: 'Only these files/directories (relative to the directory)' },
+                        stat: { type: 'boolean', description: 'Only per-file added/deleted line counts, no patch' },
+                        context: { type: 'number', description: 'Context lines around each change (default: 3)' },
+                        maxBytes: { type: 'number', description: `Truncate the patch past this size (default: ${DEFAULT_GIT_DIFF_BYTES}, max: ${MAX_GIT_DIFF_BYTES})` },
+                    },
+                },
+            },
+            {
+                name: 'get_test_results',
+                description: 'Test results of an agent run: pass/fail/skip counts and the failing test names, from JUnit XML, TAP or Jest/Vitest JSON reports in the agent\'s directory, or the test output printed to its terminal. With only taskId, returns the results recorded on the task; with agentId or cwd, scans now (and records them on taskId when given).',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        taskId: { type: 'string', description: 'Task whose recorded results to return, or to record the scan on' },
+                        agentId: { type: 'string', description: 'Terminal/agent ID — scans its directory and terminal output' },
+                        cwd: { type: 'string', description: 'Directory to scan for reports instead of an agent\'s' },
+                        since: { type: 'string', description: 'Ignore reports and output older than this: ISO date or a duration ago like 15m, 2h, 1d (default: when the task\'s agent was spawned)' },
+                        format: { type: 'string', enum: ['text', 'json'], description: 'Response format (default: text)' },
+                    },
+                },
+            },
+            {
+                name: 'wait_for_terminal',
+                description: 'Block until a terminal shows its shell prompt again, prints output matching a regex, or its process exits. Returns the output produced since the call and the exit code if the process ended.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        terminalId: { type: 'string', description: 'Terminal/agent ID to watch' },
+                        condition: {
+                            type: 'string',
+                            description: 'What to wait for (default: prompt)',
+                            enum: ['prompt', 'regex', 'exit'],
                         },
-                        description: 'Array of Jira issues to import',
+                        pattern: { type: 'string', description: 'Regular expression to match against new output (condition: regex)' },
+                        timeoutSeconds: { type: 'number', description: 'Give up after this many seconds (default: 60, max: 600)' },
                     },
+                    required: ['terminalId'],
                 },
-                required: ['issues'],
             },
-        },
-        {
-            name: 'read_terminal_output',
-            description: 'Read the last N lines of a KaizenTerm terminal output. Useful to see build results, test output, or compiler errors from an agent terminal.',
-            inputSchema: {
-                type: 'object' as const,
-                properties: {
-                    terminalId: { type: 'string', description: 'Terminal/agent ID to read output from' },
-                    lines: { type: 'number', description: 'Number of lines to return (default: 50, max: 200)' },
+            {
+                name: 'spawn_agent',
+                description: 'Spawn a new KaizenTerm agent pane, optionally running a startup command and linked to a task. Returns the new terminal ID.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        name: { type: 'string', description: 'Agent pane name' },
+                        cwd: { type: 'string', description: 'Working directory for the shell' },
+                        command: { type: 'string', description: 'Command to run once the shell is ready' },
+                        taskId: { type: 'string', description: 'Kaizen task ID to link the agent to' },
+                    },
                 },
-                required: ['terminalId'],
             },
-        },
-    ],
-}));
+            {
+                name: 'send_to_terminal',
+                description: 'Write input to an existing KaizenTerm terminal, e.g. to run a command in another agent pane.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        terminalId: { type: 'string', description: 'Terminal/agent ID to write to' },
+                        input: { type: 'string', description: 'Text to send' },
+                        enter: { type: 'boolean', description: 'Press Enter after the input (default: true)' },
+                    },
+                    required: ['terminalId', 'input'],
+                },
+            },
+        ],
+    }));
+
+    // ─── Tool Execution ──────────────────────────────────────────────────────
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+        const { name, arguments: args } = request.params;
 
-// ─── Tool Execution ──────────────────────────────────────────────────────────
+        switch (name) {
+            case 'list_tasks': {
+                let tasks = loadTasks();
+                if (args?.status) tasks = tasks.filter(t => t.status === args.status);
+                if (args?.priority) tasks = tasks.filter(t => t.priority === args.priority);
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+                if (tasks.length === 0) {
+                    return { content: [{ type: 'text', text: '📋 No tasks found.' }] };
+                }
+
+                const statusEmoji: Record<string, string> = {
+                    backlog: '📥', doing: '🔧', review: '🔍', done: '✅'
+                };
+                const priorityEmoji: Record<string, string> = {
+                    low: '🔵', medium: '🟡', high: '🟠', critical: '🔴'
+                };
 
-    switch (name) {
-        case 'list_tasks': {
-            let tasks = loadTasks();
-            if (args?.status) tasks = tasks.filter(t => t.status === args.status);
-            if (args?.priority) tasks = tasks.filter(t => t.priority === args.priority);
+                const allTasks = loadTasks();
+                const lines = tasks.map(t => {
+                    const blockers = openBlockers(allTasks, t);
+                    const ref = externalRefOf(t);
+                    return `${statusEmoji[t.status] || '📌'} ${priorityEmoji[t.priority] || ''} **${t.id}** — ${t.title}${ref ? ` [${ref.key}]` : ''}${t.agentId ? ` (Agent: ${t.agentId})` : ''}${blockers.length > 0 ? ` 🔒 blocked by ${blockers.map(b => b.id).join(', ')}` : ''}`;
+                });
 
-            if (tasks.length === 0) {
-                return { content: [{ type: 'text', text: '📋 No tasks found.' }] };
+                return {
+                    content: [{ type: 'text', text: `📋 **Tasks** (${tasks.length})\n\n${lines.join('\n')}` }],
+                };
             }
 
-            const statusEmoji: Record<string, string> = {
-                backlog: '📥', doing: '🔧', review: '🔍', done: '✅'
-            };
-            const priorityEmoji: Record<string, string> = {
-                low: '🔵', medium: '🟡', high: '🟠', critical: '🔴'
-            };
+            case 'create_task': {
+                const task: Task = {
+                    id: genId(),
+                    title: (args?.title as string) || 'Untitled',
+                    description: (args?.description as string) || '',
+                    status: (args?.status as Task['status']) || 'backlog',
+                    priority: (args?.priority as Task['priority']) || 'medium',
+                    labels: (args?.labels as string[]) || [],
+                    externalRef: args?.jiraKey ? { provider: 'jira', key: args.jiraKey as string } : undefined,
+                    createdAt: new Date().toISOString(),
+                    updatedAt: new Date().toISOString(),
+                };
+                store.add(task);
 
-            const lines = tasks.map(t =>
-                `${statusEmoji[t.status] || '📌'} ${priorityEmoji[t.priority] || ''} **${t.id}** — ${t.title}${t.jiraKey ? ` [${t.jiraKey}]` : ''}${t.agentId ? ` (Agent: ${t.agentId})` : ''}`
-            );
+                return {
+                    content: [{ type: 'text', text: `✅ Created task **${task.id}** — "${task.title}" [${task.status}] ${task.externalRef ? `linked to ${task.externalRef.key}` : ''}` }],
+                };
+            }
 
-            return {
-                content: [{ type: 'text', text: `📋 **Tasks** (${tasks.length})\n\n${lines.join('\n')}` }],
-            };
-        }
+            case 'update_task': {
+                const changes: Partial<Task> = {};
+                if (args?.status) changes.status = args.status as Task['status'];
+                if (args?.priority) changes.priority = args.priority as Task['priority'];
+                if (args?.title) changes.title = args.title as string;
+                if (args?.description) changes.description = args.description as string;
+                if (args?.agentId) changes.agentId = args.agentId as string;
+                if (args?.jiraKey) {
+                    changes.externalRef = { provider: 'jira', key: args.jiraKey as string };
+                    changes.jiraKey = undefined;
+                }
 
-        case 'create_task': {
-            const tasks = loadTasks();
-            const task: Task = {
-                id: genId(),
-                title: (args?.title as string) || 'Untitled',
-                description: (args?.description as string) || '',
-                status: (args?.status as Task['status']) || 'backlog',
-                priority: (args?.priority as Task['priority']) || 'medium',
-                labels: (args?.labels as string[]) || [],
-                jiraKey: args?.jiraKey as string,
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-            };
-            tasks.push(task);
-            saveTasks(tasks);
+                try {
+                    const from = loadTasks().find(t => t.id === args?.id)?.status;
+                    const { result: task } = store.update(args?.id as string, changes, {
+                        expectedUpdatedAt: args?.expectedUpdatedAt as string | undefined,
+                    });
+                    if (task.status !== from) telemetry.record('task.transitioned', { taskId: task.id, from, to: task.status, by: 'mcp' });
+                    return {
+                        content: [{ type: 'text', text: `✏️ Updated task **${task.id}** — "${task.title}" → [${task.status}] (updatedAt ${task.updatedAt})` }],
+                    };
+                } catch (err) {
+                    if (err instanceof TaskStoreError && err.code === 'not-found') {
+                        return { content: [{ type: 'text', text: `❌ Task ${args?.id} not found` }] };
+                    }
+                    if (err instanceof TaskStoreError && err.code === 'update-conflict') {
+                        return { content: [{ type: 'text', text: `⚠️ Task ${args?.id} was changed by someone else at ${err.current?.updatedAt} — re-read it and retry` }] };
+                    }
+                    if (err instanceof TaskStoreError && err.code === 'blocked') {
+                        return { content: [{ type: 'text', text: `🔒 ${err.message} — finish those first, or pick a ready task with get_next_task` }] };
+                    }
+                    throw err;
+                }
+            }
 
-            return {
-                content: [{ type: 'text', text: `✅ Created task **${task.id}** — "${task.title}" [${task.status}] ${task.jiraKey ? `linked to ${task.jiraKey}` : ''}` }],
-            };
-        }
+            case 'delete_task': {
+                const { result: deleted } = store.transact(tasks => {
+                    const idx = tasks.findIndex(t => t.id === args?.id);
+                    if (idx === -1) return false;
+                    tasks.splice(idx, 1);
+                    removeDependencyReferences(tasks, args?.id as string);
+                    return true;
+                });
 
-        case 'update_task': {
-            const tasks = loadTasks();
-            const task = tasks.find(t => t.id === args?.id);
-            if (!task) {
-                return { content: [{ type: 'text', text: `❌ Task ${args?.id} not found` }] };
+                return {
+                    content: [{
+                        type: 'text',
+                        text: deleted
+                            ? `🗑️ Deleted task ${args?.id}`
+                            : `❌ Task ${args?.id} not found`,
+                    }],
+                };
             }
 
-            if (args?.status) task.status = args.status as Task['status'];
-            if (args?.priority) task.priority = args.priority as Task['priority'];
-            if (args?.title) task.title = args.title as string;
-            if (args?.description) task.description = args.description as string;
-            if (args?.agentId) task.agentId = args.agentId as string;
-            if (args?.jiraKey) task.jiraKey = args.jiraKey as string;
-            task.updatedAt = new Date().toISOString();
+            case 'get_board_summary': {
+                const tasks = loadTasks();
+                const byStatus = { backlog: 0, doing: 0, review: 0, done: 0 };
+                const byPriority = { low: 0, medium: 0, high: 0, critical: 0 };
 
-            saveTasks(tasks);
-            return {
-                content: [{ type: 'text', text: `✏️ Updated task **${task.id}** — "${task.title}" → [${task.status}]` }],
-            };
-        }
+                for (const t of tasks) {
+                    byStatus[t.status] = (byStatus[t.status] || 0) + 1;
+                    byPriority[t.priority] = (byPriority[t.priority] || 0) + 1;
+                }
 
-        case 'delete_task': {
-            let tasks = loadTasks();
-            const before = tasks.length;
-            tasks = tasks.filter(t => t.id !== args?.id);
-            saveTasks(tasks);
+                const summary = [
+                    `📊 **Kaizen Board Summary**`,
+                    ``,
+                    `📥 Backlog: ${byStatus.backlog}  |  🔧 In Progress: ${byStatus.doing}  |  🔍 Review: ${byStatus.review}  |  ✅ Done: ${byStatus.done}`,
+                    ``,
+                    `🔵 Low: ${byPriority.low}  |  🟡 Medium: ${byPriority.medium}  |  🟠 High: ${byPriority.high}  |  🔴 Critical: ${byPriority.critical}`,
+                    ``,
+                    `Total: ${tasks.length} tasks`,
+                ];
 
-            return {
-                content: [{
-                    type: 'text',
-                    text: before > tasks.length
-                        ? `🗑️ Deleted task ${args?.id}`
-                        : `❌ Task ${args?.id} not found`,
-                }],
-            };
-        }
+                const linked: Record<string, number> = {};
+                for (const t of tasks) {
+                    const ref = externalRefOf(t);
+                    if (ref) linked[ref.provider] = (linked[ref.provider] || 0) + 1;
+                }
+                const linkedTotal = Object.values(linked).reduce((a, b) => a + b, 0);
+                if (linkedTotal > 0) {
+                    summary.push(`\n🔗 ${linkedTotal} tasks linked to trackers (${Object.entries(linked).map(([p, n]) => `${p}: ${n}`).join(', ')})`);
+                }
 
-        case 'get_board_summary': {
-            const tasks = loadTasks();
-            const byStatus = { backlog: 0, doing: 0, review: 0, done: 0 };
-            const byPriority = { low: 0, medium: 0, high: 0, critical: 0 };
+                return { content: [{ type: 'text', text: summary.join('\n') }] };
+            }
+
+            case 'generate_report': {
+                const period = ((args?.period as string) || 'daily') as ReportPeriod;
+                if (period !== 'daily' && period !== 'weekly') {
+                    return { content: [{ type: 'text', text: `❌ Invalid period "${period}" — use daily or weekly` }] };
+                }
+                let date = new Date();
+                if (args?.date) {
+                    // A bare YYYY-MM-DD is parsed as UTC midnight; use local midnight instead
+                    date = /^\d{4}-\d{2}-\d{2}$/.test(args.date as string) ? new Date(`${args.date}T00:00:00`) : new Date(args.date as string);
+                    if (Number.isNaN(date.getTime())) {
+                        return { content: [{ type: 'text', text: `❌ Invalid date "${args.date}" — use YYYY-MM-DD` }] };
+                    }
+                }
 
-            for (const t of tasks) {
-                byStatus[t.status] = (byStatus[t.status] || 0) + 1;
-                byPriority[t.priority] = (byPriority[t.priority] || 0) + 1;
+                let outputFile = args?.outputFile as string | undefined;
+                if (outputFile) {
+                    outputFile = outputFile.replace(/^~(?=$|\/)/, process.env.HOME || '~');
+                    outputFile = path.resolve(REPORTS_DIR, outputFile);
+                }
+                const format = ((args?.format as string) || (outputFile ? formatForFile(outputFile) : 'markdown')) as ReportFormat;
+                if (format !== 'markdown' && format !== 'html') {
+                    return { content: [{ type: 'text', text: `❌ Invalid format "${format}" — use markdown or html` }] };
+                }
+
+                const report = generateReport({ dir: KAIZEN_DIR, tasks: loadTasks(), period, format, date });
+                if (!outputFile) {
+                    return { content: [{ type: 'text', text: report.content }] };
+                }
+                try {
+                    fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+                    fs.writeFileSync(outputFile, report.content);
+                } catch (err: any) {
+                    return { content: [{ type: 'text', text: `❌ Could not write ${outputFile}: ${err.message}` }] };
+                }
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `📝 ${report.title} written to ${outputFile}${format === 'markdown' ? `\n\n${report.content}` : ''}`,
+                    }],
+                };
             }
 
-            const summary = [
-                `📊 **Kaizen Board Summary**`,
-                ``,
-                `📥 Backlog: ${byStatus.backlog}  |  🔧 In Progress: ${byStatus.doing}  |  🔍 Review: ${byStatus.review}  |  ✅ Done: ${byStatus.done}`,
-                ``,
-                `🔵 Low: ${byPriority.low}  |  🟡 Medium: ${byPriority.medium}  |  🟠 High: ${byPriority.high}  |  🔴 Critical: ${byPriority.critical}`,
-                ``,
-                `Total: ${tasks.length} tasks`,
-            ];
+            case 'query_session_events': {
+                const types = (args?.types as string[] | undefined) || [];
+                const unknown = types.filter(t => !isEventType(t));
+                if (unknown.length > 0) {
+                    return { content: [{ type: 'text', text: `❌ Unknown event type${unknown.length !== 1 ? 's' : ''}: ${unknown.join(', ')} — valid: ${EVENT_TYPES.join(', ')}` }] };
+                }
+                let since: number | undefined;
+                let until: number | undefined;
+                try {
+                    if (args?.since) since = parseTimeBound(args.since as string);
+                    if (args?.until) until = parseTimeBound(args.until as string);
+                } catch (err: any) {
+                    return { content: [{ type: 'text', text: `❌ ${err.message}` }] };
+                }
 
-            if (tasks.filter(t => t.jiraKey).length > 0) {
-                summary.push(`\n🔗 ${tasks.filter(t => t.jiraKey).length} tasks linked to Jira`);
+                const events = telemetry.query({
+                    types: types.filter(isEventType),
+                    agentId: args?.agentId as string | undefined,
+                    taskId: args?.taskId as string | undefined,
+                    since,
+                    until,
+                    limit: Math.min(Math.max((args?.limit as number) || 50, 1), 500),
+                });
+                if (events.length === 0) {
+                    return { content: [{ type: 'text', text: '📜 No matching session events' }] };
+                }
+                const body = args?.format === 'json'
+                    ? JSON.stringify(events, null, 2)
+                    : events.map(formatEvent).join('\n');
+                return { content: [{ type: 'text', text: `📜 **${events.length} session event${events.length !== 1 ? 's' : ''}**\n\n${body}` }] };
             }
 
-            return { content: [{ type: 'text', text: summary.join('\n') }] };
-        }
+            case 'import_from_jira': {
+                const issues = args?.issues as any[];
+                if (!issues || issues.length === 0) {
+                    return { content: [{ type: 'text', text: '❌ No issues to import' }] };
+                }
 
-        case 'import_from_jira': {
-            const issues = args?.issues as any[];
-            if (!issues || issues.length === 0) {
-                return { content: [{ type: 'text', text: '❌ No issues to import' }] };
+                const imported: string[] = [];
+                // User-configurable in ~/.kaizen-term/jira.json (statusMap / priorityMap)
+                const { statusMap, priorityMap } = jiraMappings(KAIZEN_DIR);
+
+                store.transact(tasks => {
+                    for (const issue of issues) {
+                        // Skip if already imported
+                        if (tasks.some(t => isLinkedTo(t, 'jira', issue.key))) {
+                            imported.push(`⏭️ ${issue.key} already exists`);
+                            continue;
+                        }
+
+                        const task: Task = {
+                            id: genId(),
+                            title: issue.summary,
+                            description: issue.description || '',
+                            status: (statusMap[issue.status?.toLowerCase()] as Task['status']) || 'backlog',
+                            priority: (priorityMap[issue.priority?.toLowerCase()] as Task['priority']) || 'medium',
+                            labels: ['jira-import'],
+                            externalRef: { provider: 'jira', key: issue.key },
+                            createdAt: new Date().toISOString(),
+                            updatedAt: new Date().toISOString(),
+                        };
+                        tasks.push(task);
+                        imported.push(`✅ ${issue.key} → ${task.id} "${task.title}"`);
+                    }
+                });
+
+                return {
+                    content: [{ type: 'text', text: `📥 **Imported from Jira**\n\n${imported.join('\n')}` }],
+                };
             }
 
-            const tasks = loadTasks();
-            const imported: string[] = [];
-
-            const jiraStatusMap: Record<string, Task['status']> = {
-                'to do': 'backlog',
-                'open': 'backlog',
-                'in progress': 'doing',
-                'in review': 'review',
-                'review': 'review',
-                'done': 'done',
-                'closed': 'done',
-                'resolved': 'done',
-            };
+            case 'import_from_tracker': {
+                const provider = args?.provider as string;
+                if (!TRACKER_PROVIDERS.includes(provider as any)) {
+                    return { content: [{ type: 'text', text: `❌ Unknown provider "${provider}" (expected ${TRACKER_PROVIDERS.join(', ')})` }] };
+                }
+                try {
+                    const tracker = openTracker(provider, { dir: KAIZEN_DIR });
+                    const { imported, skipped } = await tracker.import(store, {
+                        keys: args?.keys as string[] | undefined,
+                        query: args?.query as string | undefined,
+                        limit: Math.min(Math.max((args?.limit as number) || 30, 1), 100),
+                    });
+                    const lines = [
+                        ...imported.map(i => `✅ ${i.key} → ${i.taskId} "${i.title}"`),
+                        ...skipped.map(s => `⏭️ ${s.key} already linked to ${s.taskId}`),
+                    ];
+                    return {
+                        content: [{ type: 'text', text: `📥 **Imported from ${provider}** (${imported.length} new)\n\n${lines.join('\n') || 'No issues found.'}` }],
+                    };
+                } catch (err: any) {
+                    return { content: [{ type: 'text', text: `❌ ${provider} import failed: ${err.message}` }] };
+                }
+            }
 
-            const jiraPriorityMap: Record<string, Task['priority']> = {
-                'lowest': 'low',
-                'low': 'low',
-                'medium': 'medium',
-                'high': 'high',
-                'highest': 'critical',
-                'critical': 'critical',
-                'blocker': 'critical',
-            };
+            case 'link_task': {
+                const provider = args?.provider as string;
+                if (!TRACKER_PROVIDERS.includes(provider as any)) {
+                    return { content: [{ type: 'text', text: `❌ Unknown provider "${provider}" (expected ${TRACKER_PROVIDERS.join(', ')})` }] };
+                }
+                try {
+                    const tracker = openTracker(provider, { dir: KAIZEN_DIR });
+                    const { task, issue } = await tracker.link(store, args?.taskId as string, args?.key as string, {
+                        comment: args?.comment as string | undefined,
+                    });
+                    return {
+                        content: [{ type: 'text', text: `🔗 Linked **${task.id}** "${task.title}" to ${provider} ${issue.key}${issue.url ? ` (${issue.url})` : ''}` }],
+                    };
+                } catch (err: any) {
+                    return { content: [{ type: 'text', text: `❌ ${err.message}` }] };
+                }
+            }
 
-            for (const issue of issues) {
-                // Skip if already imported
-                if (tasks.some(t => t.jiraKey === issue.key)) {
-                    imported.push(`⏭️ ${issue.key} already exists`);
-                    continue;
+            case 'sync_jira': {
+                try {
+                    const summary = await createJiraSync({ store, dir: KAIZEN_DIR }).sync({ jql: args?.jql as string | undefined });
+                    const lines = [
+                        `🔄 **Jira sync** — ${summary.created.length} created, ${summary.pulled.length} pulled, ${summary.pushed.length} pushed, ${summary.conflicts.length} conflict${summary.conflicts.length !== 1 ? 's' : ''}`,
+                    ];
+                    if (summary.created.length > 0) lines.push(`📥 Created: ${summary.created.join(', ')}`);
+                    if (summary.pulled.length > 0) lines.push(`⬇️ Pulled: ${summary.pulled.join(', ')}`);
+                    if (summary.pushed.length > 0) lines.push(`⬆️ Pushed: ${summary.pushed.join(', ')}`);
+                    if (summary.conflicts.length > 0) lines.push(`⚠️ Conflicts (resolve with resolve_jira_conflict): ${summary.conflicts.join(', ')}`);
+                    if (summary.errors.length > 0) lines.push(`❌ Errors:\n${summary.errors.map(e => `- ${e}`).join('\n')}`);
+                    return { content: [{ type: 'text', text: lines.join('\n') }] };
+                } catch (err: any) {
+                    return { content: [{ type: 'text', text: `❌ Jira sync failed: ${err.message}` }] };
                 }
+            }
 
-                const task: Task = {
-                    id: genId(),
-                    title: issue.summary,
-                    description: issue.description || '',
-                    status: jiraStatusMap[issue.status?.toLowerCase()] || 'backlog',
-                    priority: jiraPriorityMap[issue.priority?.toLowerCase()] || 'medium',
-                    labels: ['jira-import'],
-                    jiraKey: issue.key,
-                    createdAt: new Date().toISOString(),
-                    updatedAt: new Date().toISOString(),
+            case 'resolve_jira_conflict': {
+                const keep = args?.keep as 'kaizen' | 'jira';
+                if (keep !== 'kaizen' && keep !== 'jira') {
+                    return { content: [{ type: 'text', text: '❌ keep must be "kaizen" or "jira"' }] };
+                }
+                try {
+                    const task = await createJiraSync({ store, dir: KAIZEN_DIR }).resolveConflict(args?.taskId as string, keep);
+                    return {
+                        content: [{ type: 'text', text: `✅ Resolved ${externalRefOf(task)?.key} — kept ${keep === 'kaizen' ? 'Kaizen' : 'Jira'} status, task **${task.id}** is [${task.status}]` }],
+                    };
+                } catch (err: any) {
+                    return { content: [{ type: 'text', text: `❌ ${err.message}` }] };
+                }
+            }
+
+            case 'add_dependency': {
+                const { result: text } = store.transact(tasks => {
+                    const task = tasks.find(t => t.id === args?.taskId);
+                    const blocker = tasks.find(t => t.id === args?.blockedBy);
+                    if (!task || !blocker) {
+                        return `❌ Task ${!task ? args?.taskId : args?.blockedBy} not found`;
+                    }
+                    if (task.blockedBy?.includes(blocker.id)) {
+                        return `⏭️ ${task.id} is already blocked by ${blocker.id}`;
+                    }
+                    if (wouldCreateCycle(tasks, task.id, blocker.id)) {
+                        return `❌ Cannot block ${task.id} by ${blocker.id}: that would create a dependency cycle`;
+                    }
+
+                    task.blockedBy = [...(task.blockedBy || []), blocker.id];
+                    task.updatedAt = new Date().toISOString();
+                    return `🔒 **${task.id}** "${task.title}" is now blocked by **${blocker.id}** "${blocker.title}"`;
+                });
+                return { content: [{ type: 'text', text }] };
+            }
+
+            case 'remove_dependency': {
+                const { result: text } = store.transact(tasks => {
+                    const task = tasks.find(t => t.id === args?.taskId);
+                    if (!task) {
+                        return `❌ Task ${args?.taskId} not found`;
+                    }
+                    if (!task.blockedBy?.includes(args?.blockedBy as string)) {
+                        return `⏭️ ${task.id} is not blocked by ${args?.blockedBy}`;
+                    }
+
+                    task.blockedBy = task.blockedBy.filter(id => id !== args?.blockedBy);
+                    task.updatedAt = new Date().toISOString();
+                    return `🔓 Removed dependency: ${task.id} no longer blocked by ${args?.blockedBy}`;
+                });
+                return { content: [{ type: 'text', text }] };
+            }
+
+            case 'get_task': {
+                const task = loadTasks().find(t => t.id === args?.taskId);
+                if (!task) {
+                    return { content: [{ type: 'text', text: `❌ Task ${args?.taskId} not found` }] };
+                }
+                return { content: [{ type: 'text', text: formatTaskDetail(task) }] };
+            }
+
+            case 'add_subtask': {
+                const text = (args?.text as string || '').trim();
+                if (!text) {
+                    return { content: [{ type: 'text', text: '❌ Subtask text is required' }] };
+                }
+                const { result: reply } = store.transact(tasks => {
+                    const task = tasks.find(t => t.id === args?.taskId);
+                    if (!task) return `❌ Task ${args?.taskId} not found`;
+
+                    task.subtasks = [...(task.subtasks || []), { text, done: false }];
+                    addActivity(task, `➕ Subtask added: ${text}`);
+                    return `➕ Added subtask ${task.subtasks.length} to **${task.id}**: ${text}`;
+                });
+                return { content: [{ type: 'text', text: reply }] };
+            }
+
+            case 'toggle_subtask': {
+                const { result: reply } = store.transact(tasks => {
+                    const task = tasks.find(t => t.id === args?.taskId);
+                    if (!task) return `❌ Task ${args?.taskId} not found`;
+
+                    const subtasks = task.subtasks || [];
+                    const query = (args?.text as string | undefined)?.toLowerCase();
+                    const idx = args?.index != null
+                        ? Number(args.index) - 1
+                        : query ? subtasks.findIndex(s => s.text.toLowerCase().includes(query)) : -1;
+                    if (!subtasks[idx]) {
+                        return `❌ No matching subtask on ${task.id} (it has ${subtasks.length})`;
+                    }
+
+                    const done = typeof args?.done === 'boolean' ? args.done : !subtasks[idx].done;
+                    task.subtasks = subtasks.map((s, i) => i === idx ? { ...s, done } : s);
+                    addActivity(task, `${done ? '☑️ Subtask done' : '🔲 Subtask reopened'}: ${subtasks[idx].text}`);
+                    const doneCount = task.subtasks.filter(s => s.done).length;
+                    return `${done ? '☑️' : '🔲'} **${task.id}** subtask ${idx + 1} ${done ? 'done' : 'reopened'}: ${subtasks[idx].text} (${doneCount}/${task.subtasks.length})`;
+                });
+                return { content: [{ type: 'text', text: reply }] };
+            }
+
+            case 'add_comment': {
+                const text = (args?.text as string || '').trim();
+                if (!text) {
+                    return { content: [{ type: 'text', text: '❌ Comment text is required' }] };
+                }
+                const author = (args?.author as string) || 'agent';
+                const { result: reply } = store.transact(tasks => {
+                    const task = tasks.find(t => t.id === args?.taskId);
+                    if (!task) return `❌ Task ${args?.taskId} not found`;
+
+                    addActivity(task, `💬 ${author}: ${text}`);
+                    return `💬 Comment added to **${task.id}** "${task.title}"`;
+                });
+                return { content: [{ type: 'text', text: reply }] };
+            }
+
+            case 'get_next_task': {
+                const agentId = args?.agentId as string;
+                const label = args?.label as string | undefined;
+
+                // Pick and claim under the store lock so two agents never get the same task
+                const { result: { text, claimed } } = store.transact(tasks => {
+                    const candidates = tasks
+                        .filter(t => t.status === 'backlog' && !t.agentId)
+                        .filter(t => !label || (t.labels || []).includes(label))
+                        .filter(t => openBlockers(tasks, t).length === 0)
+                        .sort((a, b) =>
+                            (PRIORITY_RANK[a.priority] ?? 2) - (PRIORITY_RANK[b.priority] ?? 2) ||
+                            a.createdAt.localeCompare(b.createdAt)
+                        );
+
+                    const next = candidates[0];
+                    if (!next) {
+                        const blocked = tasks.filter(t => t.status === 'backlog' && openBlockers(tasks, t).length > 0).length;
+                        return { text: `📭 No ready tasks${blocked > 0 ? ` (${blocked} backlog task${blocked !== 1 ? 's' : ''} still blocked)` : ''}`, claimed: null };
+                    }
+
+                    next.status = 'doing';
+                    next.agentId = agentId;
+                    next.updatedAt = new Date().toISOString();
+                    return {
+                        text: `🎯 Claimed **${next.id}** — "${next.title}" [${next.priority}] for agent ${agentId}${next.description ? `\n\n${next.description}` : ''}`,
+                        claimed: next,
+                    };
+                });
+                if (claimed) telemetry.record('task.transitioned', { taskId: claimed.id, from: 'backlog', to: 'doing', by: 'mcp' });
+                return { content: [{ type: 'text', text }] };
+            }
+
+            case 'read_terminal_output': {
+                const terminalId = args?.terminalId as string;
+                const lineCount = Math.min(Math.max((args?.lines as number) || 50, 1), MAX_TERMINAL_READ_LINES);
+                const fromLine = args?.fromLine as number | undefined;
+                const toLine = args?.toLine as number | undefined;
+
+                const stats = history.stats(terminalId);
+                if (stats.lastLine === 0) {
+                    return { content: [{ type: 'text', text: `❌ No output found for terminal "${terminalId}". The terminal may not have produced output yet, or the ID is incorrect.` }] };
+                }
+
+                try {
+                    const ranged = fromLine != null || toLine != null;
+                    const entries = ranged
+                        ? history.range(terminalId, { fromLine, toLine, limit: lineCount })
+                        : history.tail(terminalId, lineCount);
+                    const span = entries.length > 0 ? `lines ${entries[0].line}–${entries[entries.length - 1].line}` : 'no lines in range';
+                    return {
+                        content: [{ type: 'text', text: `📺 **Terminal Output** (${terminalId}, ${span} of ${stats.firstLine}–${stats.lastLine})\n\n\`\`\`\n${entries.map(e => e.text).join('\n')}\n\`\`\`` }],
+                    };
+                } catch (err: any) {
+                    return { content: [{ type: 'text', text: `❌ Failed to read terminal output: ${err.message}` }] };
+                }
+            }
+
+            case 'search_terminal_output': {
+                const query = args?.query as string;
+                if (!query) {
+                    return { content: [{ type: 'text', text: '❌ query is required' }] };
+                }
+
+                let result: SearchResult;
+                try {
+                    result = searchTerminalOutput({
+                        query,
+                        regex: args?.regex === true,
+                        caseSensitive: args?.caseSensitive === true,
+                        terminalIds: args?.terminalIds as string[] | undefined,
+                        since: args?.since ? parseTimeBound(args.since as string) : undefined,
+                        until: args?.until ? parseTimeBound(args.until as string) : undefined,
+                        context: Math.min(Math.max((args?.context as number) ?? 2, 0), 10),
+                        maxMatches: Math.min(Math.max((args?.maxResults as number) || 50, 1), 200),
+                    });
+                } catch (err: any) {
+                    return { content: [{ type: 'text', text: `❌ ${err.message}` }] };
+                }
+
+                if (result.matches.length === 0) {
+                    return { content: [{ type: 'text', text: `🔎 No matches for \`${query}\` in ${result.terminalsSearched} terminal(s)` }] };
+                }
+
+                const blocks = result.matches.map(m => {
+                    const time = m.timestamp ? new Date(m.timestamp).toISOString() : 'unknown time';
+                    const body = [...m.before.map(l => `  ${l}`), `> ${m.line}`, ...m.after.map(l => `  ${l}`)].join('\n');
+                    return `**${m.terminalName}** (${m.terminalId}) · line ${m.lineNumber} · ${time}\n\`\`\`\n${body}\n\`\`\``;
+                });
+                const terminals = new Set(result.matches.map(m => m.terminalId)).size;
+                const header = `🔎 **${result.matches.length}${result.truncated ? '+' : ''} match${result.matches.length !== 1 ? 'es' : ''}** for \`${query}\` in ${terminals} of ${result.terminalsSearched} terminal(s)`;
+                return {
+                    content: [{ type: 'text', text: `${header}\n\n${blocks.join('\n\n')}${result.truncated ? '\n\n_More matches not shown — narrow the query or raise maxResults._' : ''}` }],
                 };
-                tasks.push(task);
-                imported.push(`✅ ${issue.key} → ${task.id} "${task.title}"`);
             }
 
-            saveTasks(tasks);
-            return {
-                content: [{ type: 'text', text: `📥 **Imported from Jira**\n\n${imported.join('\n')}` }],
-            };
-        }
+            case 'get_agent_resources': {
+                const agentId = args?.agentId as string | undefined;
+                const snapshot = readAgentResources();
+                if (!snapshot) {
+                    return { content: [{ type: 'text', text: '📊 No resource samples — KaizenTerm is not running or has no open terminals' }] };
+                }
+                const agents = agentId ? { [agentId]: snapshot.agents[agentId] } : snapshot.agents;
+                if (agentId && !snapshot.agents[agentId]) {
+                    return { content: [{ type: 'text', text: `❌ No running shell for agent "${agentId}"` }] };
+                }
+                if (args?.format === 'json') {
+                    return { content: [{ type: 'text', text: JSON.stringify({ sampledAt: snapshot.sampledAt, agents }, null, 2) }] };
+                }
+
+                const age = Date.now() - snapshot.sampledAt;
+                const names = readTerminalNames();
+                const sections = Object.entries(agents).map(([id, usage]) => {
+                    const header = `**${names[id]?.name || id}** (${id}) · ${Math.round(usage.cpu)}% CPU · ${formatBytes(usage.rss)}`;
+                    const alerts = usage.alerts.map(a => `⚠️ ${a.message}`);
+                    const processes = usage.processes.map(p => `  ${p.pid}  ${Math.round(p.cpu)}%  ${formatBytes(p.rss)}  ${p.args || p.command}`);
+                    return [header, ...alerts, '```', ...processes, '```'].join('\n');
+                });
+                const stale = age > STALE_AFTER_MS ? ` — ⚠️ ${Math.round(age / 1000)}s old, KaizenTerm may have stopped sampling` : '';
+                return {
+                    content: [{
+                        type: 'text',
+                        text: `📊 **Agent Resources** (sampled ${new Date(snapshot.sampledAt).toISOString()}${stale})\n\n${sections.join('\n\n') || 'No running agent shells'}`,
+                    }],
+                };
+            }
+
+            case 'git_status': {
+                const target = resolveGitTarget(args?.agentId as string | undefined, args?.cwd as string | undefined);
+                if ('error' in target) return { content: [{ type: 'text', text: `❌ ${target.error}` }] };
+                const commits = Math.min(Math.max((args?.commits as number) ?? 5, 0), 50);
+
+                let changes, log;
+                try {
+                    [changes, log] = await Promise.all([
+                        gitChanges(target.cwd),
+                        commits > 0 ? gitLog(target.cwd, { limit: commits }) : Promise.resolve([]),
+                    ]);
+                } catch (err: any) {
+                    return { content: [{ type: 'text', text: `❌ ${err.message}` }] };
+                }
+                if (args?.format === 'json') {
+                    return { content: [{ type: 'text', text: JSON.stringify({ ...changes, commits: log }, null, 2) }] };
+                }
+
+                const { status } = changes;
+                const { changed, staged, unstaged, untracked, conflicted } = status.counts;
+                const summary = changed === 0
+                    ? 'clean'
+                    : `${changed} changed (${staged} staged, ${unstaged} unstaged, ${untracked} untracked${conflicted ? `, ${conflicted} conflicted` : ''})`;
+                const lines = [`🌿 ${target.label}`, `${formatBranch(status)} · ${summary}`];
+                if (changed > 0) {
+                    lines.push('', '```', ...formatStatusLines(status, [...changes.staged, ...changes.unstaged]), '```');
+                }
+                if (log.length > 0) {
+                    lines.push('', '**Recent commits**', ...log.map(c => `- \`${c.shortHash}\` ${c.subject} — ${c.author}, ${c.date}`));
+                }
+                return { content: [{ type: 'text', text: lines.join('\n') }] };
+            }
+
+            case 'git_diff': {
+                const target = resolveGitTarget(args?.agentId as string | undefined, args?.cwd as string | undefined);
+                if ('error' in target) return { content: [{ type: 'text', text: `❌ ${target.error}` }] };
+                const options = {
+                    staged: args?.staged === true,
+                    base: args?.base as string | undefined,
+                    paths: args?.paths as string[] | undefined,
+                };
+                const what = options.base ? `since \`${options.base}\`` : options.staged ? 'staged' : 'unstaged';
+
+                try {
+                    if (args?.stat === true) {
+                        const stats = await gitDiffStat(target.cwd, { ...options, untracked: !options.staged });
+                        if (stats.length === 0) return { content: [{ type: 'text', text: `🌿 ${target.label}\nNo ${what} changes` }] };
+                        const added = stats.reduce((n, f) => n + f.added, 0);
+                        const deleted = stats.reduce((n, f) => n + f.deleted, 0);
+                        const rows = stats.map(f => `${f.binary ? 'binary' : `+${f.added} −${f.deleted}`}\t${f.origPath ? `${f.origPath} → ` : ''}${f.path}${f.untracked ? ' (new)' : ''}`);
+                        return {
+                            content: [{
+                                type: 'text',
+                                text: `🌿 ${target.label}\n${stats.length} file(s) ${what}, +${added} −${deleted}\n\n\`\`\`\n${rows.join('\n')}\n\`\`\``,
+                            }],
+                        };
+                    }
+
+                    const result = await gitDiff(target.cwd, {
+                        ...options,
+                        untracked: !options.staged,
+                        context: args?.context as number | undefined,
+                        maxBytes: Math.min(Math.max((args?.maxBytes as number) || DEFAULT_GIT_DIFF_BYTES, 1000), MAX_GIT_DIFF_BYTES),
+                    });
+                    if (!result.diff.trim()) return { content: [{ type: 'text', text: `🌿 ${target.label}\nNo ${what} changes` }] };
+                    const note = result.truncated ? '\n\n_Diff truncated — pass paths to narrow it, raise maxBytes, or use stat._' : '';
+                    return {
+                        content: [{ type: 'text', text: `🌿 ${target.label} · ${what} diff\n\n\`\`\`diff\n${result.diff}\`\`\`${note}` }],
+                    };
+                } catch (err: any) {
+                    return { content: [{ type: 'text', text: `❌ ${err.message}` }] };
+                }
+            }
 
-        case 'read_terminal_output': {
-            const terminalId = args?.terminalId as string;
-            const lineCount = Math.min(Math.max((args?.lines as number) || 50, 1), 200);
+            case 'get_test_results': {
+                const taskId = args?.taskId as string | undefined;
+                const agentId = args?.agentId as string | undefined;
+                const task = taskId ? loadTasks().find(t => t.id === taskId) : undefined;
+                if (taskId && !task) return { content: [{ type: 'text', text: `❌ Task ${taskId} not found` }] };
 
-            const bufferFile = path.join(
-                process.env.HOME || '/tmp',
-                '.kaizen-term',
-                'terminal-buffers',
-                `${terminalId}.log`
-            );
+                let results: (TestResults & { agentId?: string }) | null | undefined;
+                let label: string;
+                if (!agentId && !args?.cwd) {
+                    if (!task) return { content: [{ type: 'text', text: '❌ Pass taskId, agentId or cwd' }] };
+                    results = task.testResults;
+                    label = `**${task.id}** — "${task.title}"`;
+                    if (!results) {
+                        return { content: [{ type: 'text', text: `🧪 ${label}\nNo test results recorded — pass agentId or cwd to scan` }] };
+                    }
+                } else {
+                    const target = resolveGitTarget(agentId, args?.cwd as string | undefined);
+                    if ('error' in target) return { content: [{ type: 'text', text: `❌ ${target.error}` }] };
+                    label = target.label;
+                    let since = task?.reviewBase && task.reviewBase.agentId === agentId ? task.reviewBase.spawnedAt : 0;
+                    try {
+                        if (args?.since) since = parseTimeBound(args.since as string);
+                        const lines = agentId ? history.tail(agentId, TEST_OUTPUT_LINES).filter(e => e.t >= since).map(e => e.text) : [];
+                        results = await collectTestResults({ cwd: target.cwd, lines, since });
+                    } catch (err: any) {
+                        return { content: [{ type: 'text', text: `❌ ${err.message}` }] };
+                    }
+                    if (!results) {
+                        return { content: [{ type: 'text', text: `🧪 ${label}\nNo test results found — no JUnit / TAP / Jest report${agentId ? ' and no test summary in the terminal output' : ''}` }] };
+                    }
+                    if (task) {
+                        const recorded = { ...results, ...(agentId ? { agentId } : {}) };
+                        store.transact(tasks => {
+                            const t = tasks.find(x => x.id === task.id);
+                            if (!t) return;
+                            t.testResults = recorded;
+                            t.updatedAt = new Date().toISOString();
+                        });
+                    }
+                }
 
-            if (!fs.existsSync(bufferFile)) {
-                return { content: [{ type: 'text', text: `❌ No output found for terminal "${terminalId}". The terminal may not have produced output yet, or the ID is incorrect.` }] };
+                if (args?.format === 'json') {
+                    return { content: [{ type: 'text', text: JSON.stringify(results, null, 2) }] };
+                }
+                const saved = task && (agentId || args?.cwd) ? `\n\n_Recorded on task ${task.id}._` : '';
+                return { content: [{ type: 'text', text: `🧪 ${label}\n${formatTestResults(results).join('\n')}${saved}` }] };
             }
 
-            try {
-                const content = fs.readFileSync(bufferFile, 'utf-8');
-                const allLines = content.split('\n');
-                const lines = allLines.slice(-lineCount);
+            case 'get_command_blocks': {
+                const terminalId = args?.terminalId as string | undefined;
+
+                if (args?.blockId != null) {
+                    if (!terminalId) {
+                        return { content: [{ type: 'text', text: '❌ terminalId is required with blockId' }] };
+                    }
+                    const block = readCommandBlocks(terminalId).find(b => b.seq === Number(args.blockId));
+                    if (!block) {
+                        return { content: [{ type: 'text', text: `❌ No block #${args.blockId} in terminal "${terminalId}"` }] };
+                    }
+                    const status = block.exitCode != null ? `exit ${block.exitCode}` : 'exit unknown';
+                    const omitted = block.outputLines - block.output.length;
+                    return {
+                        content: [{
+                            type: 'text',
+                            text: [
+                                `🧱 **${terminalId} #${block.seq}** \`${block.command || '(no command)'}\``,
+                                `${new Date(block.startedAt).toISOString()} · ${formatDuration(block.durationMs)} · ${status}${block.hasError ? ' · ⚠️ errors in output' : ''}`,
+                                ``,
+                                '```',
+                                ...(omitted > 0 ? [`… ${omitted} earlier lines not kept …`] : []),
+                                ...block.output,
+                                '```',
+                            ].join('\n'),
+                        }],
+                    };
+                }
+
+                const blocks = recentCommandBlocks({
+                    terminalIds: terminalId ? [terminalId] : undefined,
+                    errorsOnly: args?.errorsOnly === true,
+                    command: args?.command as string | undefined,
+                    limit: Math.min(Math.max((args?.limit as number) || 20, 1), 100),
+                });
+                if (blocks.length === 0) {
+                    return { content: [{ type: 'text', text: `🧱 No command blocks recorded${terminalId ? ` for "${terminalId}"` : ''} yet` }] };
+                }
+
+                const lines = blocks.map(b => {
+                    const icon = b.exitCode != null ? (b.exitCode === 0 ? '✅' : '❌') : (b.hasError ? '⚠️' : '▫️');
+                    const status = b.exitCode != null ? `exit ${b.exitCode}` : 'exit ?';
+                    return `${icon} **${b.terminalId} #${b.seq}** \`${b.command || '(no command)'}\` — ${formatDuration(b.durationMs)}, ${status}${b.hasError ? ', errors' : ''}, ${b.outputLines} lines · ${new Date(b.startedAt).toISOString()}`;
+                });
                 return {
-                    content: [{ type: 'text', text: `📺 **Terminal Output** (${terminalId}, last ${lines.length} lines)\n\n\`\`\`\n${lines.join('\n')}\n\`\`\`` }],
+                    content: [{ type: 'text', text: `🧱 **Recent commands** (${blocks.length})\n\n${lines.join('\n')}\n\nUse blockId + terminalId to read a block's full output.` }],
                 };
-            } catch (err: any) {
-                return { content: [{ type: 'text', text: `❌ Failed to read terminal output: ${err.message}` }] };
             }
-        }
 
-        default:
-            return { content: [{ type: 'text', text: `❌ Unknown tool: ${name}` }] };
-    }
-});
+            case 'wait_for_terminal': {
+                const terminalId = args?.terminalId as string;
+                const condition = ((args?.condition as string) || 'prompt') as WaitCondition;
+                const pattern = args?.pattern as string | undefined;
+                const timeoutSeconds = Math.min(Math.max((args?.timeoutSeconds as number) || 60, 1), 600);
 
-// ─── Resources ───────────────────────────────────────────────────────────────
+                if (condition === 'regex') {
+                    if (!pattern) {
+                        return { content: [{ type: 'text', text: '❌ condition "regex" requires a pattern' }] };
+                    }
+                    try {
+                        new RegExp(pattern);
+                    } catch (err: any) {
+                        return { content: [{ type: 'text', text: `❌ Invalid pattern: ${err.message}` }] };
+                    }
+                }
 
-server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-    resources: [
-        {
-            uri: 'kaizen://board',
-            name: 'Kaizen Board',
-            description: 'Current state of the Kaizen task board',
-            mimeType: 'application/json',
-        },
-        {
-            uri: 'kaizen://tasks/active',
-            name: 'Active Tasks',
-            description: 'Tasks currently in progress',
-            mimeType: 'application/json',
-        },
-        {
-            uri: 'kaizen://session-log',
-            name: 'Session Log',
-            description: 'Recent agent lifecycle events (spawns, exits, task updates)',
-            mimeType: 'text/plain',
-        },
-    ],
-}));
+                const result = await waitForTerminal(terminalId, { condition, pattern, timeoutMs: timeoutSeconds * 1000 });
 
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-    const { uri } = request.params;
+                const headline: Record<string, string> = {
+                    prompt: '✅ Prompt returned',
+                    regex: `✅ Matched \`${result.match}\``,
+                    exit: `🏁 Process exited with code ${result.exitCode}`,
+                    killed: '🛑 Terminal was killed',
+                    timeout: `⏱️ Timed out after ${timeoutSeconds}s waiting for ${condition}`,
+                };
+                const body = result.output.length > 0
+                    ? `\n\n\`\`\`\n${result.output.slice(-200).join('\n')}\n\`\`\``
+                    : '\n\n(no new output)';
 
-    if (uri === 'kaizen://board') {
-        const tasks = loadTasks();
-        return {
-            contents: [{
-                uri,
+                return {
+                    content: [{ type: 'text', text: `${headline[result.reason]} — **${terminalId}**${body}` }],
+                };
+            }
+
+            case 'spawn_agent': {
+                const taskId = args?.taskId as string | undefined;
+                if (taskId && !loadTasks().some(t => t.id === taskId)) {
+                    return { content: [{ type: 'text', text: `❌ Task ${taskId} not found` }] };
+                }
+
+                // Answered once the pane's shell is running, which can take a few seconds
+                const result = await sendCommand({
+                    type: 'spawn',
+                    name: args?.name as string | undefined,
+                    cwd: args?.cwd as string | undefined,
+                    command: args?.command as string | undefined,
+                    taskId,
+                }, SPAWN_TIMEOUT_MS);
+                if (!result.ok) {
+                    return { content: [{ type: 'text', text: `❌ Failed to spawn agent: ${result.error}` }] };
+                }
+
+                return {
+                    content: [{ type: 'text', text: `⚡ Spawned agent **${result.terminalId}**${taskId ? ` for task ${taskId}` : ''}${args?.command ? ` running \`${args.command}\`` : ''}` }],
+                };
+            }
+
+            case 'send_to_terminal': {
+                const terminalId = args?.terminalId as string;
+                const input = (args?.input as string) ?? '';
+                const enter = args?.enter !== false;
+
+                const result = await sendCommand({
+                    type: 'write',
+                    terminalId,
+                    data: enter ? `${input}\r` : input,
+                });
+                if (!result.ok) {
+                    return { content: [{ type: 'text', text: `❌ Failed to write to terminal "${terminalId}": ${result.error}` }] };
+                }
+
+                return {
+                    content: [{ type: 'text', text: `⌨️ Sent to **${terminalId}**: \`${input}\`${enter ? ' ⏎' : ''}` }],
+                };
+            }
+
+            default:
+                return { content: [{ type: 'text', text: `❌ Unknown tool: ${name}` }] };
+        }
+    });
+
+    // ─── Resources ───────────────────────────────────────────────────────────
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+        resources: [
+            {
+                uri: 'kaizen://board',
+                name: 'Kaizen Board',
+                description: 'Current state of the Kaizen task board',
                 mimeType: 'application/json',
-                text: JSON.stringify({
-                    backlog: tasks.filter(t => t.status === 'backlog'),
-                    doing: tasks.filter(t => t.status === 'doing'),
-                    review: tasks.filter(t => t.status === 'review'),
-                    done: tasks.filter(t => t.status === 'done'),
-                    total: tasks.length,
-                }, null, 2),
-            }],
-        };
-    }
+            },
+            {
+                uri: 'kaizen://tasks/active',
+                name: 'Active Tasks',
+                description: 'Tasks currently in progress',
+                mimeType: 'application/json',
+            },
+            {
+                uri: 'kaizen://session-log',
+                name: 'Session Log',
+                description: 'Recent agent lifecycle events (spawns, exits, task updates)',
+                mimeType: 'text/plain',
+            },
+            ...loadTasks().map(t => ({
+                uri: TASK_URI_PREFIX + t.id,
+                name: `${t.id}: ${t.title}`,
+                description: `Full detail of task ${t.id} (${t.status}) — subtasks, activity, links`,
+                mimeType: 'application/json',
+            })),
+            ...listTerminalIds().map(id => ({
+                uri: TERMINAL_URI_PREFIX + id,
+                name: `Terminal ${id}`,
+                description: `Recent output captured from terminal ${id}`,
+                mimeType: 'text/plain',
+            })),
+        ],
+    }));
 
-    if (uri === 'kaizen://tasks/active') {
-        const tasks = loadTasks().filter(t => t.status === 'doing');
-        return {
-            contents: [{
-                uri,
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+        resourceTemplates: [
+            {
+                uriTemplate: `${TASK_URI_PREFIX}{id}`,
+                name: 'Task',
+                description: 'Full detail of one task — subtasks, activity, dependencies, tracker link',
                 mimeType: 'application/json',
-                text: JSON.stringify(tasks, null, 2),
-            }],
-        };
-    }
+            },
+            {
+                uriTemplate: `${TERMINAL_URI_PREFIX}{id}`,
+                name: 'Terminal Output',
+                description: 'Recent output captured from one terminal',
+                mimeType: 'text/plain',
+            },
+        ],
+    }));
+
+    const subscriptions = new Set<string>();
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        subscriptions.add(request.params.uri);
+        return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.delete(request.params.uri);
+        return {};
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        const { uri } = request.params;
+
+        if (uri === 'kaizen://board') {
+            const tasks = loadTasks();
+            return {
+                contents: [{
+                    uri,
+                    mimeType: 'application/json',
+                    text: JSON.stringify({
+                        backlog: tasks.filter(t => t.status === 'backlog'),
+                        doing: tasks.filter(t => t.status === 'doing'),
+                        review: tasks.filter(t => t.status === 'review'),
+                        done: tasks.filter(t => t.status === 'done'),
+                        total: tasks.length,
+                    }, null, 2),
+                }],
+            };
+        }
 
-    if (uri === 'kaizen://session-log') {
-        const logFile = path.join(process.env.HOME || '/tmp', '.kaizen-term', 'session.log');
-        let logContent = 'No session log yet.';
-        if (fs.existsSync(logFile)) {
-            const lines = fs.readFileSync(logFile, 'utf-8').split('\n');
-            // Return last 50 events
-            logContent = lines.slice(-50).join('\n');
+        if (uri === 'kaizen://tasks/active') {
+            const tasks = loadTasks().filter(t => t.status === 'doing');
+            return {
+                contents: [{
+                    uri,
+                    mimeType: 'application/json',
+                    text: JSON.stringify(tasks, null, 2),
+                }],
+            };
+        }
+
+        if (uri === 'kaizen://session-log') {
+            // Last 50 events, in the old session.log line format
+            const events = telemetry.query({ limit: 50 });
+            const logContent = events.length > 0 ? events.map(formatEvent).join('\n') : 'No session log yet.';
+            return {
+                contents: [{
+                    uri,
+                    mimeType: 'text/plain',
+                    text: logContent,
+                }],
+            };
+        }
+
+        // Dynamic task resources: kaizen://task/<id>
+        if (uri.startsWith(TASK_URI_PREFIX)) {
+            const task = loadTasks().find(t => t.id === uri.slice(TASK_URI_PREFIX.length));
+            if (!task) {
+                throw new McpError(ErrorCode.InvalidParams, `Unknown task resource: ${uri}`);
+            }
+            return {
+                contents: [{
+                    uri,
+                    mimeType: 'application/json',
+                    text: JSON.stringify(task, null, 2),
+                }],
+            };
         }
-        return {
-            contents: [{
-                uri,
-                mimeType: 'text/plain',
-                text: logContent,
-            }],
-        };
-    }
 
-    // Dynamic terminal resources: kaizen://terminal/<id>
-    if (uri.startsWith('kaizen://terminal/')) {
-        const termId = uri.replace('kaizen://terminal/', '');
-        const bufferFile = path.join(process.env.HOME || '/tmp', '.kaizen-term', 'terminal-buffers', `${termId}.log`);
+        // Dynamic terminal resources: kaizen://terminal/<id>
+        if (uri.startsWith(TERMINAL_URI_PREFIX)) {
+            const termId = uri.slice(TERMINAL_URI_PREFIX.length);
+            const lines = history.tail(termId, TERMINAL_RESOURCE_LINES);
 
-        if (!fs.existsSync(bufferFile)) {
             return {
                 contents: [{
                     uri,
                     mimeType: 'text/plain',
-                    text: `No output captured for terminal "${termId}"`,
+                    text: lines.length > 0
+                        ? lines.map(e => e.text).join('\n')
+                        : `No output captured for terminal "${termId}"`,
                 }],
             };
         }
 
+        return { contents: [] };
+    });
+
+    // ─── Prompts ─────────────────────────────────────────────────────────────
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+        prompts: loadPromptTemplates().map(t => ({
+            name: t.name,
+            description: t.description,
+            arguments: t.arguments,
+        })),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+        const { name, arguments: args = {} } = request.params;
+        const template = loadPromptTemplates().find(t => t.name === name);
+        if (!template) {
+            throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+        }
+
+        let text: string;
+        try {
+            text = renderPrompt(template, args, loadTasks());
+        } catch (err: any) {
+            throw new McpError(ErrorCode.InvalidParams, err.message);
+        }
         return {
-            contents: [{
-                uri,
-                mimeType: 'text/plain',
-                text: fs.readFileSync(bufferFile, 'utf-8'),
-            }],
+            description: template.description,
+            messages: [{ role: 'user', content: { type: 'text', text } }],
         };
-    }
+    });
 
-    return { contents: [] };
-});
+    const session = { server, subscriptions };
+    sessions.add(session);
+    server.onclose = () => sessions.delete(session);
+    return session;
+}
 
 // ─── Start ───────────────────────────────────────────────────────────────────
 
 async function main() {
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+    const httpOptions = httpOptionsFromEnv();
+
+    await createSession().server.connect(new StdioServerTransport());
+    watchResources({
+        onUpdated: (uri) => {
+            for (const { server, subscriptions } of sessions) {
+                if (subscriptions.has(uri)) server.sendResourceUpdated({ uri }).catch(() => { });
+            }
+        },
+        onListChanged: () => {
+            for (const { server } of sessions) server.sendResourceListChanged().catch(() => { });
+        },
+    });
     console.error('🔲 KaizenTerm MCP Server running on stdio');
+
+    if (httpOptions) {
+        try {
+            const { url, close } = await startHttpTransport(httpOptions, (transport) => createSession().server.connect(transport));
+            for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+                process.once(signal, () => {
+                    close();
+                    process.exit(0);
+                });
+            }
+            console.error(`🌐 KaizenTerm MCP Server listening on ${url}`);
+        } catch (err: any) {
+            console.error(`❌ MCP HTTP transport failed to start: ${err.message}`);
+        }
+    }
 }
 
 main().catch(console.error);
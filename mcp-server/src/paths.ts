@@ -0,0 +1,13 @@
+// ═══════════════════════════════════════════════════════════════
+// Shared ~/.kaizen-term locations (mirrors the constants in electron/main.cjs)
+// ═══════════════════════════════════════════════════════════════
+
+import * as path from 'path';
+
+export const KAIZEN_DIR = path.join(process.env.HOME || '/tmp', '.kaizen-term');
+export const COMMANDS_DIR = path.join(KAIZEN_DIR, 'commands');
+export const COMMAND_RESULTS_DIR = path.join(COMMANDS_DIR, 'results');
+export const BUFFERS_DIR = path.join(KAIZEN_DIR, 'terminal-buffers');
+export const SESSION_LOG = path.join(KAIZEN_DIR, 'session.jsonl');
+export const REPORTS_DIR = path.join(KAIZEN_DIR, 'reports');
+export const AGENT_RESOURCES_FILE = path.join(KAIZEN_DIR, 'agent-resources.json');
@@ -0,0 +1,285 @@
+// ═══════════════════════════════════════════════════════════════
+// Prompt Templates — MCP prompts filled from the board and terminals
+// ═══════════════════════════════════════════════════════════════
+//
+// Templates are markdown with a front-matter header:
+//
+//   ---
+//   name: implement-task
+//   description: Implement a task from the board
+//   arguments:
+//     - name: taskId
+//       description: Task to implement
+//       required: true
+//   ---
+//   Implement **{{task.title}}** ({{task.id}}) ...
+//
+// Built-ins live below; files in ~/.kaizen-term/prompts/*.md are added on
+// top and replace a built-in with the same name. `{{argName}}` expands to an
+// argument value, and these context placeholders are filled in as well:
+//
+//   task.*          id, title, description, status, priority, labels,
+//                   subtasks, tracker, events   (needs a `taskId` argument)
+//   terminal.*      id, output — the `terminalId` argument, else the task's agent
+//   session.events  session telemetry from the last 24 hours
+//   board.*         backlog, doing, review, done — one line per task
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BUFFERS_DIR, KAIZEN_DIR } from './paths.js';
+import { createTelemetry, formatEvent } from '../../shared/telemetry.cjs';
+import { createHistoryStore } from '../../shared/history-store.cjs';
+
+export const PROMPTS_DIR = path.join(KAIZEN_DIR, 'prompts');
+
+const TERMINAL_TAIL_LINES = 80;
+const TASK_EVENT_LINES = 30;
+const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+const SESSION_MAX_LINES = 200;
+
+export interface PromptArgument {
+    name: string;
+    description?: string;
+    required?: boolean;
+}
+
+export interface PromptTemplate {
+    name: string;
+    description?: string;
+    arguments: PromptArgument[];
+    body: string;
+}
+
+export interface PromptTask {
+    id: string;
+    title: string;
+    description: string;
+    status: string;
+    priority: string;
+    labels: string[];
+    agentId?: string;
+    subtasks?: { text: string; done: boolean }[];
+    externalRef?: { provider: string; key: string; url?: string };
+}
+
+// ─── Built-in Templates ──────────────────────────────────────────────────────
+
+const BUILTIN_TEMPLATES = [
+    `---
+name: implement-task
+description: Implement a task from the Kaizen board
+arguments:
+  - name: taskId
+    description: Task ID (e.g. KZ-ABC123)
+    required: true
+---
+Implement the following task.
+
+## {{task.title}} ({{task.id}})
+
+Priority: {{task.priority}} · Status: {{task.status}} · Labels: {{task.labels}}
+Tracker: {{task.tracker}}
+
+### Description
+{{task.description}}
+
+### Subtasks
+{{task.subtasks}}
+
+Work through the subtasks in order. When you are done, move the task to
+review with update_task and summarize what changed.
+`,
+    `---
+name: review-task
+description: Review the work done on a task
+arguments:
+  - name: taskId
+    description: Task ID (e.g. KZ-ABC123)
+    required: true
+---
+Review the work done for **{{task.title}}** ({{task.id}}).
+
+### What was asked
+{{task.description}}
+
+### Subtasks
+{{task.subtasks}}
+
+### Agent terminal ({{terminal.id}}) — last lines
+\`\`\`
+{{terminal.output}}
+\`\`\`
+
+### Task events
+\`\`\`
+{{task.events}}
+\`\`\`
+
+Check that every subtask is actually covered, look for regressions and
+missing tests, and list concrete follow-ups. Recommend either moving the
+task to done or back to doing.
+`,
+    `---
+name: diagnose-terminal
+description: Diagnose what went wrong in a terminal
+arguments:
+  - name: terminalId
+    description: Terminal ID (e.g. term-1)
+    required: true
+---
+Diagnose the output of terminal **{{terminal.id}}**.
+
+\`\`\`
+{{terminal.output}}
+\`\`\`
+
+Identify the failing command, the root cause of the error and the smallest
+fix. If the output is inconclusive, say which command to run next.
+`,
+    `---
+name: standup
+description: Write a standup update from the session log and the board
+---
+Write a short standup update (yesterday / today / blockers) from this
+activity.
+
+### Session events (last 24h)
+\`\`\`
+{{session.events}}
+\`\`\`
+
+### Done
+{{board.done}}
+
+### In progress
+{{board.doing}}
+
+### In review
+{{board.review}}
+
+Keep it under 10 bullet points and mention task IDs.
+`,
+];
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+function unquote(value: string): string {
+    const v = value.trim();
+    return /^(["']).*\1$/.test(v) ? v.slice(1, -1) : v;
+}
+
+/** Front matter supports flat `key: value` pairs plus the `arguments:` list */
+export function parseTemplate(content: string, fallbackName: string): PromptTemplate {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+    const template: PromptTemplate = { name: fallbackName, arguments: [], body: match ? match[2] : content };
+    if (!match) return template;
+
+    let inArguments = false;
+    let current: PromptArgument | null = null;
+    for (const line of match[1].split(/\r?\n/)) {
+        if (!line.trim() || line.trim().startsWith('#')) continue;
+
+        const item = line.match(/^\s+-\s+(\w+):\s*(.*)$/);
+        const nested = line.match(/^\s+(\w+):\s*(.*)$/);
+        const top = line.match(/^(\w+):\s*(.*)$/);
+
+        if (inArguments && item) {
+            current = { name: '' };
+            template.arguments.push(current);
+            (current as any)[item[1]] = unquote(item[2]);
+        } else if (inArguments && nested && current) {
+            (current as any)[nested[1]] = nested[1] === 'required' ? unquote(nested[2]) === 'true' : unquote(nested[2]);
+        } else if (top) {
+            inArguments = top[1] === 'arguments';
+            current = null;
+            if (top[1] === 'name' && top[2]) template.name = unquote(top[2]);
+            if (top[1] === 'description') template.description = unquote(top[2]);
+        }
+    }
+    template.arguments = template.arguments.filter(a => a.name);
+    return template;
+}
+
+/** Built-ins followed by ~/.kaizen-term/prompts/*.md (same name overrides) */
+export function loadPromptTemplates(): PromptTemplate[] {
+    const byName = new Map<string, PromptTemplate>();
+    for (const content of BUILTIN_TEMPLATES) {
+        const t = parseTemplate(content, '');
+        byName.set(t.name, t);
+    }
+    try {
+        for (const file of fs.readdirSync(PROMPTS_DIR).filter(f => f.endsWith('.md')).sort()) {
+            const filePath = path.join(PROMPTS_DIR, file);
+            try {
+                const t = parseTemplate(fs.readFileSync(filePath, 'utf-8'), file.slice(0, -'.md'.length));
+                byName.set(t.name, t);
+            } catch (err: any) {
+                console.error(`⚠️ Skipping prompt template ${file}: ${err.message}`);
+            }
+        }
+    } catch { /* no prompts directory */ }
+    return [...byName.values()];
+}
+
+// ─── Context ─────────────────────────────────────────────────────────────────
+
+const telemetry = createTelemetry({ dir: KAIZEN_DIR });
+const history = createHistoryStore({ dir: BUFFERS_DIR });
+
+function taskLine(t: PromptTask): string {
+    return `- ${t.id} [${t.priority}] ${t.title}`;
+}
+
+function buildContext(args: Record<string, string>, tasks: PromptTask[]): Record<string, string> {
+    const ctx: Record<string, string> = { ...args };
+
+    let task: PromptTask | undefined;
+    if (args.taskId) {
+        task = tasks.find(t => t.id === args.taskId);
+        if (!task) throw new Error(`Task ${args.taskId} not found`);
+        ctx['task.id'] = task.id;
+        ctx['task.title'] = task.title;
+        ctx['task.description'] = task.description || '(no description)';
+        ctx['task.status'] = task.status;
+        ctx['task.priority'] = task.priority;
+        ctx['task.labels'] = task.labels?.length ? task.labels.join(', ') : 'none';
+        ctx['task.subtasks'] = task.subtasks?.length
+            ? task.subtasks.map(s => `- [${s.done ? 'x' : ' '}] ${s.text}`).join('\n')
+            : '(no subtasks)';
+        ctx['task.tracker'] = task.externalRef
+            ? `${task.externalRef.provider} ${task.externalRef.key}${task.externalRef.url ? ` — ${task.externalRef.url}` : ''}`
+            : 'none';
+        const agentId = task.agentId;
+        ctx['task.events'] = telemetry.query()
+            .filter(e => ('taskId' in e && e.taskId === task!.id) || (agentId && 'agentId' in e && e.agentId === agentId))
+            .slice(-TASK_EVENT_LINES)
+            .map(formatEvent)
+            .join('\n') || '(no events)';
+    }
+
+    const terminalId = args.terminalId || task?.agentId;
+    ctx['terminal.id'] = terminalId || 'none';
+    ctx['terminal.output'] = terminalId
+        ? history.tail(terminalId, TERMINAL_TAIL_LINES).map(e => e.text).join('\n') || '(no output captured)'
+        : '(no terminal linked)';
+
+    ctx['session.events'] = telemetry.query({ since: Date.now() - SESSION_WINDOW_MS, limit: SESSION_MAX_LINES })
+        .map(formatEvent)
+        .join('\n') || '(no events in the last 24 hours)';
+    for (const status of ['backlog', 'doing', 'review', 'done']) {
+        ctx[`board.${status}`] = tasks.filter(t => t.status === status).map(taskLine).join('\n') || '(none)';
+    }
+    return ctx;
+}
+
+// ─── Rendering ───────────────────────────────────────────────────────────────
+
+/** Fill a template; throws on a missing required argument or unknown task */
+export function renderPrompt(template: PromptTemplate, args: Record<string, string>, tasks: PromptTask[]): string {
+    const missing = template.arguments.filter(a => a.required && !args[a.name]).map(a => a.name);
+    if (missing.length > 0) {
+        throw new Error(`Prompt "${template.name}" requires: ${missing.join(', ')}`);
+    }
+    const ctx = buildContext(args, tasks);
+    return template.body.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_m, key: string) => ctx[key] ?? '').trim();
+}
@@ -0,0 +1,120 @@
+// ═══════════════════════════════════════════════════════════════
+// Resource change detection — file watchers behind resources/subscribe
+// ═══════════════════════════════════════════════════════════════
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { KAIZEN_DIR, BUFFERS_DIR } from './paths.js';
+import { createHistoryStore, INDEX_SUFFIX } from '../../shared/history-store.cjs';
+
+export const TERMINAL_URI_PREFIX = 'kaizen://terminal/';
+export const TASK_URI_PREFIX = 'kaizen://task/';
+
+const TASKS_FILE = path.join(KAIZEN_DIR, 'tasks.json');
+
+/** Writers touch a file several times per save (tmp + rename, journal, export) */
+const DEBOUNCE_MS = 250;
+
+/** URIs whose content derives from each file in ~/.kaizen-term */
+const FILE_RESOURCES: Record<string, string[]> = {
+    'tasks.json': ['kaizen://board', 'kaizen://tasks/active'],
+    'session.jsonl': ['kaizen://session-log'],
+};
+
+const history = createHistoryStore({ dir: BUFFERS_DIR });
+
+/** Terminal ids with captured output history, sorted */
+export function listTerminalIds(): string[] {
+    return history.list();
+}
+
+/** Serialized task per id from the tasks.json snapshot, to tell which ones changed */
+function readTaskSnapshots(): Map<string, string> {
+    try {
+        const tasks: { id: string }[] = JSON.parse(fs.readFileSync(TASKS_FILE, 'utf-8'));
+        return new Map(tasks.map(t => [t.id, JSON.stringify(t)]));
+    } catch {
+        return new Map();
+    }
+}
+
+export interface ResourceWatchHandlers {
+    onUpdated(uri: string): void;
+    onListChanged(): void;
+}
+
+/**
+ * Watch the board, tasks, session log and terminal buffers, reporting each changed
+ * resource URI at most once per debounce window. Returns a function that
+ * stops all watchers.
+ */
+export function watchResources({ onUpdated, onListChanged }: ResourceWatchHandlers): () => void {
+    const timers = new Map<string, NodeJS.Timeout>();
+    const watchers: fs.FSWatcher[] = [];
+    let terminals = listTerminalIds().join('\n');
+    let taskSnapshots = readTaskSnapshots();
+
+    function schedule(key: string, fire: () => void) {
+        clearTimeout(timers.get(key));
+        const timer = setTimeout(() => {
+            timers.delete(key);
+            fire();
+        }, DEBOUNCE_MS);
+        timer.unref();
+        timers.set(key, timer);
+    }
+
+    function watchDir(dir: string, onChange: (file: string) => void) {
+        try {
+            fs.mkdirSync(dir, { recursive: true });
+            const watcher = fs.watch(dir, (_event, file) => {
+                if (file) onChange(file.toString());
+            });
+            watcher.on('error', (err) => console.error(`⚠️ Watcher error on ${dir}: ${err.message}`));
+            // Watching alone must not keep the server alive once its transports close
+            watcher.unref();
+            watchers.push(watcher);
+        } catch (err: any) {
+            console.error(`⚠️ Cannot watch ${dir}: ${err.message}`);
+        }
+    }
+
+    /** kaizen://task/<id> for every task added, changed or removed since the last look */
+    function diffTasks() {
+        const next = readTaskSnapshots();
+        let listChanged = next.size !== taskSnapshots.size;
+        for (const [id, json] of next) {
+            if (!taskSnapshots.has(id)) listChanged = true;
+            if (taskSnapshots.get(id) !== json) onUpdated(TASK_URI_PREFIX + id);
+        }
+        for (const id of taskSnapshots.keys()) {
+            if (!next.has(id)) onUpdated(TASK_URI_PREFIX + id);
+        }
+        taskSnapshots = next;
+        if (listChanged) onListChanged();
+    }
+
+    watchDir(KAIZEN_DIR, (file) => {
+        for (const uri of FILE_RESOURCES[file] || []) schedule(uri, () => onUpdated(uri));
+        if (file === 'tasks.json') schedule('task-list', diffTasks);
+    });
+
+    watchDir(BUFFERS_DIR, (file) => {
+        // Each flush rewrites <id>.index.json
+        if (!file.endsWith(INDEX_SUFFIX)) return;
+        const uri = TERMINAL_URI_PREFIX + file.slice(0, -INDEX_SUFFIX.length);
+        schedule(uri, () => onUpdated(uri));
+        schedule('terminal-list', () => {
+            const next = listTerminalIds().join('\n');
+            if (next === terminals) return;
+            terminals = next;
+            onListChanged();
+        });
+    });
+
+    return () => {
+        for (const w of watchers) w.close();
+        for (const t of timers.values()) clearTimeout(t);
+        timers.clear();
+    };
+}
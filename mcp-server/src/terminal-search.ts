@@ -0,0 +1,99 @@
+// ═══════════════════════════════════════════════════════════════
+// Terminal Search — grep across the persisted agent output buffers
+// ═══════════════════════════════════════════════════════════════
+//
+// Reads what Electron flushes into terminal-buffers/:
+//   segmented output history (shared/history-store.cjs), { t, text } per line
+//   terminals.json  id → { name, cwd }
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BUFFERS_DIR } from './paths.js';
+import { createHistoryStore } from '../../shared/history-store.cjs';
+
+export interface SearchOptions {
+    query: string;
+    /** Treat `query` as a regular expression instead of a substring */
+    regex?: boolean;
+    caseSensitive?: boolean;
+    terminalIds?: string[];
+    /** Epoch ms bounds; lines without a timestamp never match a window */
+    since?: number;
+    until?: number;
+    context: number;
+    maxMatches: number;
+}
+
+export interface SearchMatch {
+    terminalId: string;
+    terminalName: string;
+    /** Absolute, 1-based line number in the terminal's history */
+    lineNumber: number;
+    timestamp?: number;
+    line: string;
+    before: string[];
+    after: string[];
+}
+
+export interface SearchResult {
+    matches: SearchMatch[];
+    terminalsSearched: number;
+    truncated: boolean;
+}
+
+const history = createHistoryStore({ dir: BUFFERS_DIR });
+
+/** "15m", "2h", "1d", "30s" relative to now, or anything Date.parse understands */
+export function parseTimeBound(value: string, now = Date.now()): number {
+    const relative = value.trim().match(/^(\d+)\s*(s|m|h|d)$/i);
+    if (relative) {
+        const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2].toLowerCase() as 's' | 'm' | 'h' | 'd'];
+        return now - Number(relative[1]) * unit;
+    }
+    const parsed = Date.parse(value);
+    if (Number.isNaN(parsed)) throw new Error(`Invalid time "${value}" — use an ISO date or a duration like 15m / 2h / 1d`);
+    return parsed;
+}
+
+export function readTerminalNames(): Record<string, { name?: string; cwd?: string }> {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(BUFFERS_DIR, 'terminals.json'), 'utf-8'));
+    } catch {
+        return {};
+    }
+}
+
+/** Throws when `query` is not a valid regular expression */
+export function searchTerminalOutput(opts: SearchOptions): SearchResult {
+    const source = opts.regex ? opts.query : opts.query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(source, opts.caseSensitive ? '' : 'i');
+    const names = readTerminalNames();
+    const ids = opts.terminalIds?.length ? opts.terminalIds : history.list();
+
+    const matches: SearchMatch[] = [];
+    let truncated = false;
+    for (const terminalId of ids) {
+        // Segments outside the time window are never read
+        const lines = history.range(terminalId, { since: opts.since, until: opts.until });
+        for (let i = 0; i < lines.length; i++) {
+            const { line, t, text } = lines[i];
+            if (!pattern.test(text)) continue;
+
+            if (matches.length >= opts.maxMatches) {
+                truncated = true;
+                break;
+            }
+            matches.push({
+                terminalId,
+                terminalName: names[terminalId]?.name || terminalId,
+                lineNumber: line,
+                timestamp: t,
+                line: text,
+                before: lines.slice(Math.max(0, i - opts.context), i).map(l => l.text),
+                after: lines.slice(i + 1, i + 1 + opts.context).map(l => l.text),
+            });
+        }
+        if (truncated) break;
+    }
+    return { matches, terminalsSearched: ids.length, truncated };
+}
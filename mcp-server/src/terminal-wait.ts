@@ -0,0 +1,102 @@
+// ═══════════════════════════════════════════════════════════════
+// Terminal Wait — block until a prompt, a regex match or an exit
+// ═══════════════════════════════════════════════════════════════
+//
+// Built on the files Electron already maintains:
+//   terminal-buffers/          — ANSI-stripped output history, flushed every 2s
+//   session.jsonl              — agent.exited / agent.killed telemetry events
+
+import * as fs from 'fs';
+import { BUFFERS_DIR, SESSION_LOG } from './paths.js';
+import { createHistoryStore } from '../../shared/history-store.cjs';
+
+export type WaitCondition = 'prompt' | 'regex' | 'exit';
+
+export interface WaitOptions {
+    condition: WaitCondition;
+    pattern?: string;
+    timeoutMs: number;
+}
+
+export interface WaitResult {
+    matched: boolean;
+    reason: 'prompt' | 'regex' | 'exit' | 'killed' | 'timeout';
+    output: string[];
+    exitCode?: number;
+    match?: string;
+}
+
+// Same prompt heuristic as TerminalManager.SHELL_PROMPT_RE in the renderer
+const SHELL_PROMPT_RE = /[$❯%➜#]\s*$/;
+const POLL_INTERVAL_MS = 500;
+
+const history = createHistoryStore({ dir: BUFFERS_DIR });
+
+function sessionLogSize(): number {
+    try { return fs.statSync(SESSION_LOG).size; } catch { return 0; }
+}
+
+function readSessionLogFrom(offset: number): string {
+    try {
+        const size = fs.statSync(SESSION_LOG).size;
+        // Log was rotated underneath us — rescan from the start
+        const start = size < offset ? 0 : offset;
+        if (size === start) return '';
+        const fd = fs.openSync(SESSION_LOG, 'r');
+        try {
+            const buf = Buffer.alloc(size - start);
+            fs.readSync(fd, buf, 0, buf.length, start);
+            return buf.toString('utf-8');
+        } finally {
+            fs.closeSync(fd);
+        }
+    } catch {
+        return '';
+    }
+}
+
+/** The first exit / kill event for `terminalId` in a chunk of session.jsonl */
+function lifecycleEvent(chunk: string, terminalId: string): { type: string; exitCode?: number } | null {
+    for (const line of chunk.split('\n')) {
+        if (!line.includes(terminalId)) continue;
+        try {
+            const e = JSON.parse(line);
+            if (e.agentId === terminalId && (e.type === 'agent.exited' || e.type === 'agent.killed')) return e;
+        } catch { /* torn line */ }
+    }
+    return null;
+}
+
+export async function waitForTerminal(terminalId: string, opts: WaitOptions): Promise<WaitResult> {
+    const regex = opts.condition === 'regex' && opts.pattern ? new RegExp(opts.pattern, 'm') : null;
+    // Line numbers are absolute, so everything past the baseline is new output
+    const baseline = history.lastLine(terminalId);
+    const logOffset = sessionLogSize();
+    const deadline = Date.now() + opts.timeoutMs;
+
+    while (true) {
+        const output = history.range(terminalId, { fromLine: baseline + 1 }).map(e => e.text);
+
+        // Lifecycle events end the wait regardless of condition
+        const ended = lifecycleEvent(readSessionLogFrom(logOffset), terminalId);
+        if (ended?.type === 'agent.exited') {
+            return { matched: opts.condition === 'exit', reason: 'exit', output, exitCode: ended.exitCode };
+        }
+        if (ended?.type === 'agent.killed') {
+            return { matched: opts.condition === 'exit', reason: 'killed', output };
+        }
+
+        if (regex) {
+            const m = output.join('\n').match(regex);
+            if (m) return { matched: true, reason: 'regex', output, match: m[0] };
+        }
+
+        if (opts.condition === 'prompt' && output.length > 0) {
+            const last = output[output.length - 1].trim();
+            if (SHELL_PROMPT_RE.test(last)) return { matched: true, reason: 'prompt', output };
+        }
+
+        if (Date.now() >= deadline) return { matched: false, reason: 'timeout', output };
+        await new Promise(r => setTimeout(r, POLL_INTERVAL_MS));
+    }
+}
@@ -0,0 +1,63 @@
+// ═══════════════════════════════════════════════════════════════
+// Fixture Server — replays recorded HTTP responses over node:http
+// ═══════════════════════════════════════════════════════════════
+//
+// Each entry is one recorded exchange:
+//
+//   { "method": "GET", "path": "/repos/acme/app/issues/12", "status": 200, "body": { ... } }
+//
+// A request takes the first unused entry with the same method and pathname
+// whose query parameters it carries (extra parameters are allowed).
+// GraphQL entries add "query": a fragment the request's query must contain.
+// Unmatched requests get a 501, and `server.unused()` lists entries nothing
+// asked for, so a test can assert the adapter made exactly the recorded calls.
+
+const http = require('http');
+
+function matches(entry, req, url, body) {
+    if (entry.method !== req.method) return false;
+    const recorded = new URL(entry.path, 'http://localhost');
+    if (recorded.pathname !== url.pathname) return false;
+    for (const [name, value] of recorded.searchParams) {
+        if (url.searchParams.get(name) !== value) return false;
+    }
+    return !entry.query || (typeof body?.query === 'string' && body.query.includes(entry.query));
+}
+
+function startFixtureServer(entries) {
+    const used = new Set();
+    const server = { requests: [] };
+
+    const httpServer = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+            const url = new URL(req.url, 'http://localhost');
+            const body = raw ? JSON.parse(raw) : null;
+            server.requests.push({ method: req.method, path: url.pathname, query: Object.fromEntries(url.searchParams), headers: req.headers, body });
+
+            const index = entries.findIndex((e, i) => !used.has(i) && matches(e, req, url, body));
+            if (index === -1) {
+                res.writeHead(501, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ message: `No fixture for ${req.method} ${req.url}` }));
+                return;
+            }
+            used.add(index);
+            const { status = 200, body: payload } = entries[index];
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(payload === undefined ? '' : JSON.stringify(payload));
+        });
+    });
+
+    server.unused = () => entries.filter((_, i) => !used.has(i)).map(e => `${e.method} ${e.path}${e.query ? ` (${e.query})` : ''}`);
+
+    return new Promise(resolve => {
+        httpServer.listen(0, '127.0.0.1', () => {
+            server.url = `http://127.0.0.1:${httpServer.address().port}`;
+            server.close = () => new Promise(done => httpServer.close(done));
+            resolve(server);
+        });
+    });
+}
+
+module.exports = { startFixtureServer };
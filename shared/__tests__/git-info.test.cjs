@@ -0,0 +1,52 @@
+// Git inspection: refs from callers are resolved to commits, never read as options
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { execFileSync } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { resolveCommit, gitDiff, gitDiffStat, gitLog } = require('../git-info.cjs');
+
+function repo(t) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kaizen-git-'));
+    t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+    const run = (...args) => execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@kaizen.test', ...args], { cwd: dir, encoding: 'utf8' });
+    run('init', '-q');
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'one\n');
+    run('add', 'a.txt');
+    run('commit', '-q', '-m', 'first');
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'two\n');
+    run('commit', '-q', '-am', 'second');
+    return { dir, run };
+}
+
+test('option-shaped refs are refused and write nothing', async t => {
+    const { dir } = repo(t);
+    const out = path.join(dir, 'pwned.txt');
+
+    await assert.rejects(gitDiff(dir, { base: `--output=${out}` }), /Invalid ref/);
+    await assert.rejects(gitDiffStat(dir, { base: `--output=${out}` }), /Invalid ref/);
+    await assert.rejects(gitLog(dir, { range: `--output=${out}..HEAD` }), /Invalid ref/);
+    await assert.rejects(gitLog(dir, { range: 'HEAD..--output=x' }), /Invalid ref/);
+    await assert.rejects(gitLog(dir, { range: `--output=${out}` }), /Invalid ref/);
+    assert.equal(fs.existsSync(out), false);
+});
+
+test('unknown refs are reported, known ones resolve to the commit', async t => {
+    const { dir, run } = repo(t);
+
+    await assert.rejects(resolveCommit(dir, 'no-such-branch'), /Unknown revision: no-such-branch/);
+    assert.equal(await resolveCommit(dir, 'HEAD~1'), run('rev-parse', 'HEAD~1').trim());
+});
+
+test('base and range still work once resolved', async t => {
+    const { dir } = repo(t);
+
+    const { diff } = await gitDiff(dir, { base: 'HEAD~1' });
+    assert.match(diff, /^-one$/m);
+    assert.match(diff, /^\+two$/m);
+    assert.deepEqual((await gitLog(dir, { range: 'HEAD~1..HEAD' })).map(c => c.subject), ['second']);
+    assert.deepEqual((await gitLog(dir, { range: 'HEAD~1..' })).map(c => c.subject), ['second']);
+    assert.deepEqual((await gitLog(dir, { range: 'HEAD~1' })).map(c => c.subject), ['first']);
+});
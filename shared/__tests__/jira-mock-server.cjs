@@ -0,0 +1,123 @@
+// ═══════════════════════════════════════════════════════════════
+// Mock Jira — node:http stand-in for the REST endpoints jira-sync uses
+// ═══════════════════════════════════════════════════════════════
+//
+//   GET  /rest/api/3/search/jql            nextPageToken paging
+//   GET  /rest/api/2/search                startAt paging (Server / DC)
+//   GET  /rest/api/2/issue/:key
+//   GET  /rest/api/2/issue/:key/transitions
+//   POST /rest/api/2/issue/:key/transitions
+//   POST /rest/api/2/issue/:key/comment
+//
+// Issues live in `mock.issues` (key → { summary, status, priority,
+// updated }); tests edit them directly to simulate changes made in Jira.
+// Every request is kept in `mock.requests`.
+//
+// `node shared/__tests__/jira-mock-server.cjs` serves a few sample issues,
+// for pointing jira.json's baseUrl at by hand.
+
+const http = require('http');
+
+const STATUSES = ['To Do', 'In Progress', 'In Review', 'Done'];
+
+function startJiraMock({ issues = {}, pageSize = 2 } = {}) {
+    const mock = { issues, requests: [], comments: [] };
+    let clock = Date.parse('2026-01-01T00:00:00.000Z');
+
+    /** Jira-style `updated` stamp, strictly increasing */
+    mock.touch = key => {
+        clock += 1000;
+        mock.issues[key].updated = new Date(clock).toISOString().replace('Z', '+0000');
+    };
+    for (const key of Object.keys(issues)) if (!issues[key].updated) mock.touch(key);
+
+    function toJson(key) {
+        const i = mock.issues[key];
+        return {
+            key,
+            fields: {
+                summary: i.summary,
+                description: i.description ?? null,
+                status: { name: i.status },
+                priority: { name: i.priority || 'Medium' },
+                updated: i.updated,
+            },
+        };
+    }
+
+    function send(res, status, body) {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(body === undefined ? '' : JSON.stringify(body));
+    }
+
+    function route(req, url, body) {
+        const keys = Object.keys(mock.issues).sort();
+        const max = Math.min(Number(url.searchParams.get('maxResults') || 50), pageSize);
+
+        if (req.method === 'GET' && url.pathname === '/rest/api/3/search/jql') {
+            const start = Number(url.searchParams.get('nextPageToken') || 0);
+            const page = keys.slice(start, start + max);
+            const isLast = start + max >= keys.length;
+            return [200, { issues: page.map(toJson), isLast, ...(!isLast && { nextPageToken: String(start + max) }) }];
+        }
+        if (req.method === 'GET' && url.pathname === '/rest/api/2/search') {
+            const start = Number(url.searchParams.get('startAt') || 0);
+            return [200, { startAt: start, maxResults: max, total: keys.length, issues: keys.slice(start, start + max).map(toJson) }];
+        }
+
+        const match = url.pathname.match(/^\/rest\/api\/2\/issue\/([^/]+)(?:\/(transitions|comment))?$/);
+        const key = match && decodeURIComponent(match[1]);
+        if (!key || !mock.issues[key]) return [404, { errorMessages: ['Issue does not exist'] }];
+
+        if (req.method === 'GET' && !match[2]) return [200, toJson(key)];
+        if (req.method === 'GET' && match[2] === 'transitions') {
+            const transitions = STATUSES
+                .filter(s => s !== mock.issues[key].status)
+                .map(s => ({ id: String(STATUSES.indexOf(s) + 11), name: `Move to ${s}`, to: { name: s } }));
+            return [200, { transitions }];
+        }
+        if (req.method === 'POST' && match[2] === 'transitions') {
+            const target = STATUSES[Number(body?.transition?.id) - 11];
+            if (!target) return [400, { errorMessages: ['Invalid transition'] }];
+            mock.issues[key].status = target;
+            mock.touch(key);
+            return [204];
+        }
+        if (req.method === 'POST' && match[2] === 'comment') {
+            mock.comments.push({ key, body: body?.body });
+            return [201, { id: String(mock.comments.length), body: body?.body }];
+        }
+        return [405, { errorMessages: ['Method not allowed'] }];
+    }
+
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+            const url = new URL(req.url, 'http://localhost');
+            const body = raw ? JSON.parse(raw) : null;
+            mock.requests.push({ method: req.method, path: url.pathname, query: Object.fromEntries(url.searchParams), body });
+            const [status, payload] = route(req, url, body);
+            send(res, status, payload);
+        });
+    });
+
+    return new Promise(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            mock.url = `http://127.0.0.1:${server.address().port}`;
+            mock.close = () => new Promise(done => server.close(done));
+            resolve(mock);
+        });
+    });
+}
+
+if (require.main === module) {
+    startJiraMock({
+        issues: {
+            'KAI-1': { summary: 'Fix login', status: 'To Do', priority: 'High' },
+            'KAI-2': { summary: 'Add search', status: 'In Progress' },
+        },
+    }).then(mock => console.log(`Mock Jira on ${mock.url}`));
+}
+
+module.exports = { startJiraMock };
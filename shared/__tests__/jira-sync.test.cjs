@@ -0,0 +1,142 @@
+// Jira sync against the mock server: pull, push transition, conflict, resolve
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createTaskStore } = require('../task-store.cjs');
+const { createJiraSync, loadJiraConfig } = require('../jira-sync.cjs');
+const { startJiraMock } = require('./jira-mock-server.cjs');
+
+async function setup(t, jiraConfig = {}) {
+    const mock = await startJiraMock({
+        issues: {
+            'KAI-1': { summary: 'Fix login', status: 'To Do', priority: 'High' },
+            'KAI-2': { summary: 'Add search', status: 'In Progress' },
+            'KAI-3': { summary: 'Write docs', status: 'Done', priority: 'Lowest' },
+        },
+    });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kaizen-jira-'));
+    fs.writeFileSync(path.join(dir, 'jira.json'), JSON.stringify({ baseUrl: mock.url, jql: 'project = KAI', ...jiraConfig }));
+    t.after(async () => {
+        await mock.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+    const store = createTaskStore({ file: path.join(dir, 'tasks.json'), writer: 'test' });
+    const jira = createJiraSync({ store, dir });
+    const taskFor = key => store.load().find(x => x.externalRef?.key === key);
+    return { mock, store, jira, taskFor };
+}
+
+test('pull creates tasks for every page of the search', async t => {
+    const { mock, jira, taskFor } = await setup(t);
+    const summary = await jira.sync();
+
+    assert.deepEqual(summary.created, ['KAI-1', 'KAI-2', 'KAI-3']);
+    assert.equal(taskFor('KAI-1').status, 'backlog');
+    assert.equal(taskFor('KAI-1').priority, 'high');
+    assert.equal(taskFor('KAI-2').status, 'doing');
+    assert.equal(taskFor('KAI-3').priority, 'low');
+
+    const searches = mock.requests.filter(r => r.path === '/rest/api/3/search/jql');
+    assert.equal(searches.length, 2);
+    assert.equal(searches[0].query.jql, 'project = KAI');
+    assert.equal(searches[1].query.nextPageToken, '2');
+});
+
+test('startAt paging when searchPath points at the v2 search', async t => {
+    const { mock, jira } = await setup(t, { searchPath: '/rest/api/2/search' });
+    const summary = await jira.sync();
+
+    assert.equal(summary.created.length, 3);
+    assert.deepEqual(mock.requests.filter(r => r.path === '/rest/api/2/search').map(r => r.query.startAt), ['0', '2']);
+});
+
+test('pull applies a status changed in Jira', async t => {
+    const { mock, jira, taskFor } = await setup(t);
+    await jira.sync();
+    mock.issues['KAI-1'].status = 'In Review';
+    mock.touch('KAI-1');
+
+    const summary = await jira.sync();
+    assert.deepEqual(summary.pulled, ['KAI-1']);
+    assert.equal(taskFor('KAI-1').status, 'review');
+});
+
+test('push transitions the issue when only Kaizen changed', async t => {
+    const { mock, store, jira, taskFor } = await setup(t);
+    await jira.sync();
+    store.update(taskFor('KAI-1').id, { status: 'doing' });
+
+    const summary = await jira.sync();
+    assert.deepEqual(summary.pushed, ['KAI-1']);
+    assert.deepEqual(summary.errors, []);
+    assert.equal(mock.issues['KAI-1'].status, 'In Progress');
+    const post = mock.requests.find(r => r.method === 'POST' && r.path === '/rest/api/2/issue/KAI-1/transitions');
+    assert.equal(post.body.transition.id, '12');
+
+    // The push is recorded as synced: nothing to do next time
+    const again = await jira.sync();
+    assert.deepEqual([again.pushed, again.pulled, again.conflicts], [[], [], []]);
+});
+
+test('a status changed on both sides becomes a conflict', async t => {
+    const { mock, store, jira, taskFor } = await setup(t);
+    await jira.sync();
+    store.update(taskFor('KAI-1').id, { status: 'doing' });
+    mock.issues['KAI-1'].status = 'Done';
+    mock.touch('KAI-1');
+
+    const summary = await jira.sync();
+    assert.deepEqual(summary.conflicts, ['KAI-1']);
+    const task = taskFor('KAI-1');
+    assert.equal(task.status, 'doing');
+    assert.equal(task.jiraConflict.jiraStatus, 'Done');
+    assert.equal(task.jiraConflict.kaizenStatus, 'doing');
+    assert.equal(mock.issues['KAI-1'].status, 'Done');
+});
+
+test('resolveConflict keeping Kaizen pushes the transition', async t => {
+    const { mock, store, jira, taskFor } = await setup(t);
+    await jira.sync();
+    store.update(taskFor('KAI-1').id, { status: 'doing' });
+    mock.issues['KAI-1'].status = 'Done';
+    mock.touch('KAI-1');
+    await jira.sync();
+
+    const resolved = await jira.resolveConflict(taskFor('KAI-1').id, 'kaizen');
+    assert.equal(resolved.jiraConflict, undefined);
+    assert.equal(resolved.status, 'doing');
+    assert.equal(mock.issues['KAI-1'].status, 'In Progress');
+
+    const again = await jira.sync();
+    assert.deepEqual([again.pushed, again.pulled, again.conflicts], [[], [], []]);
+});
+
+test('resolveConflict keeping Jira pulls its status', async t => {
+    const { mock, store, jira, taskFor } = await setup(t);
+    await jira.sync();
+    store.update(taskFor('KAI-1').id, { status: 'doing' });
+    mock.issues['KAI-1'].status = 'Done';
+    mock.touch('KAI-1');
+    await jira.sync();
+
+    const resolved = await jira.resolveConflict(taskFor('KAI-1').id, 'jira');
+    assert.equal(resolved.jiraConflict, undefined);
+    assert.equal(taskFor('KAI-1').status, 'done');
+    assert.equal(mock.requests.filter(r => r.method === 'POST').length, 0);
+
+    const again = await jira.sync();
+    assert.deepEqual([again.pushed, again.pulled, again.conflicts], [[], [], []]);
+});
+
+test('config defaults to the v3 enhanced search', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kaizen-jira-'));
+    try {
+        fs.writeFileSync(path.join(dir, 'jira.json'), JSON.stringify({ baseUrl: 'https://example.atlassian.net' }));
+        assert.equal(loadJiraConfig(dir).searchPath, '/rest/api/3/search/jql');
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
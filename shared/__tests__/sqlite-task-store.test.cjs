@@ -0,0 +1,46 @@
+// SQLite store: activity entries keep their recording link (needs node:sqlite)
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+let hasSqlite = true;
+try { require('node:sqlite'); } catch { hasSqlite = false; }
+const skip = hasSqlite ? false : 'node:sqlite is not available on this runtime';
+
+function files(t) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kaizen-sqlite-'));
+    t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+    return { dbFile: path.join(dir, 'kaizen.db'), exportFile: path.join(dir, 'tasks.json') };
+}
+
+const activity = [{ text: 'Session recording saved', timestamp: 1, recording: '/rec/a.cast' }, { text: 'plain', timestamp: 2 }];
+
+test('activity recordings survive the database and the tasks.json view', { skip }, t => {
+    const { createSqliteTaskStore } = require('../sqlite-task-store.cjs');
+    const { dbFile, exportFile } = files(t);
+    const store = createSqliteTaskStore({ dbFile, exportFile });
+    t.after(() => store.close());
+
+    store.transact(tasks => { tasks.push({ id: 't1', title: 'Record', status: 'doing', labels: [], activity }); });
+
+    assert.deepEqual(store.load()[0].activity, activity);
+    assert.deepEqual(JSON.parse(fs.readFileSync(exportFile, 'utf-8'))[0].activity, activity);
+});
+
+test('databases without the recording column are migrated', { skip }, t => {
+    const { DatabaseSync } = require('node:sqlite');
+    const { createSqliteTaskStore } = require('../sqlite-task-store.cjs');
+    const { dbFile, exportFile } = files(t);
+    const old = new DatabaseSync(dbFile);
+    old.exec('CREATE TABLE activity (id INTEGER PRIMARY KEY AUTOINCREMENT, task_id TEXT NOT NULL, text TEXT NOT NULL, timestamp INTEGER NOT NULL)');
+    old.close();
+
+    const store = createSqliteTaskStore({ dbFile, exportFile });
+    t.after(() => store.close());
+    store.transact(tasks => { tasks.push({ id: 't1', title: 'Record', status: 'doing', labels: [], activity }); });
+
+    assert.deepEqual(store.load()[0].activity, activity);
+});
@@ -0,0 +1,73 @@
+// Test result collection: one report per run, summed across directories
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { collectTestResults } = require('../test-results.cjs');
+
+function workspace(t) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kaizen-tests-'));
+    t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+    return dir;
+}
+
+/** Write `text` to cwd/name with an mtime `age` seconds in the past */
+function report(cwd, name, text, age = 0) {
+    const file = path.join(cwd, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, text);
+    const at = new Date(Date.now() - age * 1000);
+    fs.utimesSync(file, at, at);
+}
+
+function junit(suite, passed, failed) {
+    const cases = [
+        ...Array.from({ length: passed }, (_, i) => `<testcase classname="${suite}" name="passes ${i}"/>`),
+        ...Array.from({ length: failed }, (_, i) => `<testcase classname="${suite}" name="fails ${i}"><failure message="boom"/></testcase>`),
+    ];
+    return `<testsuites><testsuite name="${suite}">${cases.join('')}</testsuite></testsuites>`;
+}
+
+function jestJson(passed, failed) {
+    return JSON.stringify({ numTotalTests: passed + failed, numPassedTests: passed, numFailedTests: failed, numPendingTests: 0, testResults: [] });
+}
+
+test('junit.xml and Jest JSON from the same run are counted once', async t => {
+    const cwd = workspace(t);
+    report(cwd, 'junit.xml', junit('math', 3, 1), 2);
+    report(cwd, 'test-results.json', jestJson(3, 1));
+
+    const results = await collectTestResults({ cwd });
+    assert.deepEqual([results.passed, results.failed, results.total], [3, 1, 4]);
+    assert.deepEqual(results.runs.map(r => [r.format, r.source]), [['jest', 'test-results.json']]);
+});
+
+test('per-class XML files in one directory are summed', async t => {
+    const cwd = workspace(t);
+    report(cwd, 'build/test-results/TEST-Math.xml', junit('Math', 2, 0), 1);
+    report(cwd, 'build/test-results/TEST-Io.xml', junit('Io', 1, 1));
+
+    const results = await collectTestResults({ cwd });
+    assert.deepEqual([results.passed, results.failed], [3, 1]);
+    assert.equal(results.runs.length, 2);
+    assert.deepEqual(results.failures.map(f => f.name), ['Io › fails 0']);
+});
+
+test('reports in separate packages are summed', async t => {
+    const cwd = workspace(t);
+    report(cwd, 'packages/api/junit.xml', junit('api', 4, 0));
+    report(cwd, 'packages/web/test-results.json', jestJson(2, 1));
+
+    const results = await collectTestResults({ cwd });
+    assert.deepEqual([results.passed, results.failed, results.total], [6, 1, 7]);
+});
+
+test('printed output is used when no report was written', async t => {
+    const cwd = workspace(t);
+    const results = await collectTestResults({ cwd, lines: ['Tests:       1 failed, 12 passed, 13 total'] });
+
+    assert.deepEqual([results.passed, results.failed], [12, 1]);
+    assert.equal(results.runs[0].source, 'terminal');
+});
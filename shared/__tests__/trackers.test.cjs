@@ -0,0 +1,181 @@
+// Tracker adapters against recorded responses (fixtures/<provider>.json)
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { openTracker } = require('../trackers/index.cjs');
+const { loadJiraConfig } = require('../jira-sync.cjs');
+const { startFixtureServer } = require('./fixture-server.cjs');
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+function fixtures(provider, scenario) {
+    return JSON.parse(fs.readFileSync(path.join(FIXTURES, `${provider}.json`), 'utf-8'))[scenario];
+}
+
+/** Start a stub replaying one scenario; fails the test if a recorded call was never made */
+async function stub(t, provider, scenario) {
+    const server = await startFixtureServer(fixtures(provider, scenario));
+    t.after(async () => {
+        await server.close();
+        assert.deepEqual(server.unused(), [], `${provider}/${scenario}: recorded calls not made`);
+    });
+    return server;
+}
+
+function jiraConfig(t, baseUrl) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kaizen-trackers-'));
+    t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+    fs.writeFileSync(path.join(dir, 'jira.json'), JSON.stringify({ baseUrl, email: 'dev@acme.test', apiToken: 'tok', jql: 'project = KAI' }));
+    return loadJiraConfig(dir);
+}
+
+// ─── GitHub ──────────────────────────────────────────────────────────────────
+
+function github(server) {
+    return openTracker('github', { config: { repo: 'acme/app', token: 'ghp_test', apiUrl: server.url } });
+}
+
+test('github list skips pull requests and maps status labels', async t => {
+    const server = await stub(t, 'github', 'list');
+    const issues = await github(server).list();
+
+    assert.deepEqual(issues.map(i => [i.key, i.status]), [['acme/app#12', 'doing'], ['acme/app#14', 'backlog']]);
+    assert.equal(issues[0].url, 'https://github.com/acme/app/issues/12');
+    assert.deepEqual(issues[0].labels, ['bug', 'In Progress']);
+    assert.equal(server.requests[0].headers.authorization, 'Bearer ghp_test');
+});
+
+test('github list with a query uses issue search', async t => {
+    const server = await stub(t, 'github', 'search');
+    const issues = await github(server).list({ query: 'crash', limit: 5 });
+
+    assert.deepEqual(issues.map(i => [i.key, i.status]), [['acme/app#12', 'review']]);
+});
+
+test('github get maps a closed issue to done', async t => {
+    const server = await stub(t, 'github', 'get');
+    const issue = await github(server).get('#12');
+
+    assert.equal(issue.key, 'acme/app#12');
+    assert.equal(issue.status, 'done');
+    assert.equal(issue.description, 'Stack trace attached');
+});
+
+test('github pushStatus swaps the status label and keeps the others', async t => {
+    const server = await stub(t, 'github', 'pushStatus');
+    const issue = await github(server).pushStatus('acme/app#12', 'review');
+
+    const patch = server.requests.find(r => r.method === 'PATCH');
+    assert.deepEqual(patch.body, { state: 'open', labels: ['bug', 'in review'] });
+    assert.equal(issue.status, 'review');
+});
+
+test('github comment posts the body', async t => {
+    const server = await stub(t, 'github', 'comment');
+    await github(server).comment('acme/app#12', 'Fixed in abc123');
+
+    assert.deepEqual(server.requests[0].body, { body: 'Fixed in abc123' });
+});
+
+// ─── Linear ──────────────────────────────────────────────────────────────────
+
+function linear(server) {
+    return openTracker('linear', { config: { apiKey: 'lin_test', teamId: 'team-1', apiUrl: `${server.url}/graphql` } });
+}
+
+test('linear list filters open issues of the team', async t => {
+    const server = await stub(t, 'linear', 'list');
+    const issues = await linear(server).list({ limit: 10 });
+
+    assert.deepEqual(issues.map(i => [i.key, i.status, i.priority]), [['ENG-101', 'doing', 'critical'], ['ENG-102', 'backlog', 'medium']]);
+    assert.deepEqual(issues[0].labels, ['ci']);
+    assert.deepEqual(server.requests[0].body.variables, {
+        filter: { state: { type: { nin: ['completed', 'canceled'] } }, team: { id: { eq: 'team-1' } } },
+        first: 10,
+    });
+    assert.equal(server.requests[0].headers.authorization, 'lin_test');
+});
+
+test('linear list with a query falls back to the state type', async t => {
+    const server = await stub(t, 'linear', 'search');
+    const issues = await linear(server).list({ query: 'upload' });
+
+    assert.deepEqual(issues.map(i => [i.key, i.status, i.priority]), [['ENG-101', 'doing', 'high']]);
+    assert.equal(server.requests[0].body.variables.term, 'upload');
+});
+
+test('linear get', async t => {
+    const server = await stub(t, 'linear', 'get');
+    const issue = await linear(server).get('ENG-101');
+
+    assert.deepEqual([issue.key, issue.status, issue.priority], ['ENG-101', 'done', 'low']);
+});
+
+test('linear get of a missing issue throws', async t => {
+    const server = await stub(t, 'linear', 'getMissing');
+    await assert.rejects(linear(server).get('ENG-999'), /ENG-999 not found/);
+});
+
+test('linear pushStatus moves to the state named for the status', async t => {
+    const server = await stub(t, 'linear', 'pushStatus');
+    const issue = await linear(server).pushStatus('ENG-101', 'review');
+
+    const update = server.requests.find(r => r.body.query.includes('issueUpdate('));
+    assert.deepEqual(update.body.variables, { id: 'a1f0c7e2-0000-4000-8000-000000000001', stateId: 'st-review' });
+    assert.equal(issue.status, 'review');
+});
+
+test('linear comment resolves the issue id first', async t => {
+    const server = await stub(t, 'linear', 'comment');
+    await linear(server).comment('ENG-101', 'Fixed in abc123');
+
+    const create = server.requests.find(r => r.body.query.includes('commentCreate('));
+    assert.deepEqual(create.body.variables, { issueId: 'a1f0c7e2-0000-4000-8000-000000000001', body: 'Fixed in abc123' });
+});
+
+// ─── Jira ────────────────────────────────────────────────────────────────────
+
+function jira(t, server) {
+    return openTracker('jira', { config: jiraConfig(t, server.url) });
+}
+
+test('jira list stops paging once the limit is reached', async t => {
+    const server = await stub(t, 'jira', 'list');
+    const issues = await jira(t, server).list({ limit: 3 });
+
+    assert.deepEqual(issues.map(i => [i.key, i.status, i.priority]), [
+        ['KAI-1', 'backlog', 'high'],
+        ['KAI-2', 'doing', 'medium'],
+        ['KAI-3', 'done', 'low'],
+    ]);
+    // The third page (page-3) is never requested
+    assert.equal(server.requests.length, 2);
+    assert.equal(issues[0].url, `${server.url}/browse/KAI-1`);
+    assert.equal(server.requests[0].headers.authorization, `Basic ${Buffer.from('dev@acme.test:tok').toString('base64')}`);
+});
+
+test('jira get', async t => {
+    const server = await stub(t, 'jira', 'get');
+    const issue = await jira(t, server).get('KAI-1');
+
+    assert.deepEqual([issue.key, issue.status, issue.priority, issue.description], ['KAI-1', 'review', 'critical', 'SSO loop']);
+});
+
+test('jira pushStatus picks the transition to the mapped status', async t => {
+    const server = await stub(t, 'jira', 'pushStatus');
+    const issue = await jira(t, server).pushStatus('KAI-1', 'done');
+
+    const post = server.requests.find(r => r.method === 'POST');
+    assert.deepEqual(post.body, { transition: { id: '31' } });
+    assert.equal(issue.status, 'done');
+});
+
+test('jira comment posts the body', async t => {
+    const server = await stub(t, 'jira', 'comment');
+    await jira(t, server).comment('KAI-1', 'Fixed in abc123');
+
+    assert.deepEqual(server.requests[0].body, { body: 'Fixed in abc123' });
+});
@@ -0,0 +1,237 @@
+// ═══════════════════════════════════════════════════════════════
+// KaizenTerm — Git Inspection
+// ═══════════════════════════════════════════════════════════════
+//
+// Read-only git queries for an agent's working directory: porcelain status,
+// per-file diffstats, unified diffs and recent log entries. Shared by the
+// Electron git IPC (pane header badge, diff panel) and the MCP git_status /
+// git_diff tools so both sides report the same thing.
+//
+// Every function rejects with git's own error text (e.g. "not a git
+// repository") so callers can pass it straight to the user.
+
+const { execFile } = require('child_process');
+
+const GIT_TIMEOUT_MS = 15000;
+const MAX_BUFFER = 32 * 1024 * 1024;
+const DEFAULT_MAX_DIFF_BYTES = 512 * 1024;
+// Untracked files are diffed one `git diff --no-index` at a time
+const MAX_UNTRACKED_DIFFS = 50;
+
+/** Run git in cwd; resolves stdout. `okCodes` are exit codes that aren't failures */
+function git(args, cwd, { okCodes = [0], timeout = GIT_TIMEOUT_MS } = {}) {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, { cwd, encoding: 'utf8', timeout, maxBuffer: MAX_BUFFER }, (err, stdout, stderr) => {
+            const code = err ? (typeof err.code === 'number' ? err.code : null) : 0;
+            if (code !== null && okCodes.includes(code)) return resolve(stdout);
+            const message = (stderr || '').trim().split('\n').slice(-3).join(' ');
+            reject(new Error(message || err.message));
+        });
+    });
+}
+
+// ─── Status ──────────────────────────────────────────────────────────────────
+
+/** `## main...origin/main [ahead 1, behind 2]` */
+function parseBranchLine(line) {
+    const header = line.slice(3);
+    const info = { branch: null, upstream: null, ahead: 0, behind: 0 };
+    if (header.startsWith('No commits yet on ')) {
+        info.branch = header.slice('No commits yet on '.length);
+        return info;
+    }
+    if (header.startsWith('HEAD (no branch)')) return info;
+    const m = header.match(/^(.+?)(?:\.\.\.(\S+))?(?: \[(.+)\])?$/);
+    if (!m) return info;
+    info.branch = m[1];
+    info.upstream = m[2] || null;
+    for (const part of (m[3] || '').split(', ')) {
+        const [what, n] = part.split(' ');
+        if (what === 'ahead') info.ahead = Number(n) || 0;
+        if (what === 'behind') info.behind = Number(n) || 0;
+    }
+    return info;
+}
+
+const CONFLICT_CODES = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU']);
+
+/**
+ * Porcelain v1 status of the repository containing cwd.
+ * `index` / `worktree` are the X / Y status letters ('.' when unchanged).
+ */
+async function gitStatus(cwd) {
+    const [root, out] = await Promise.all([
+        git(['rev-parse', '--show-toplevel'], cwd),
+        git(['status', '--porcelain=v1', '--branch', '-z'], cwd),
+    ]);
+    const entries = out.split('\0');
+    const status = { root: root.trim(), branch: null, upstream: null, ahead: 0, behind: 0, files: [] };
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        if (!entry) continue;
+        if (entry.startsWith('## ')) {
+            Object.assign(status, parseBranchLine(entry));
+            continue;
+        }
+        const x = entry[0];
+        const y = entry[1];
+        const file = { path: entry.slice(3), index: x === ' ' ? '.' : x, worktree: y === ' ' ? '.' : y };
+        // Renames and copies carry the original path as the next entry
+        if (x === 'R' || x === 'C') file.origPath = entries[++i];
+        const code = x + y;
+        file.untracked = code === '??';
+        file.conflicted = CONFLICT_CODES.has(code);
+        file.staged = !file.untracked && !file.conflicted && x !== ' ' && x !== '!';
+        file.unstaged = !file.untracked && !file.conflicted && y !== ' ' && y !== '!';
+        status.files.push(file);
+    }
+    status.counts = {
+        changed: status.files.length,
+        staged: status.files.filter(f => f.staged).length,
+        unstaged: status.files.filter(f => f.unstaged).length,
+        untracked: status.files.filter(f => f.untracked).length,
+        conflicted: status.files.filter(f => f.conflicted).length,
+    };
+    return status;
+}
+
+// ─── Refs ────────────────────────────────────────────────────────────────────
+
+/**
+ * The commit SHA `ref` names. Refs come from MCP clients and the UI, so an
+ * option-shaped one (`--output=...`) is refused rather than handed to git.
+ */
+async function resolveCommit(cwd, ref) {
+    const name = String(ref);
+    if (!name || name.startsWith('-')) throw new Error(`Invalid ref: ${name}`);
+    const sha = await git(['rev-parse', '--verify', '--quiet', '--end-of-options', `${name}^{commit}`], cwd, { okCodes: [0, 1] });
+    if (!sha.trim()) throw new Error(`Unknown revision: ${name}`);
+    return sha.trim();
+}
+
+/** `a..b` / `a...b` / `a` with every named end resolved to a SHA; an empty end stays HEAD */
+async function resolveRange(cwd, range) {
+    const m = String(range).match(/^(.*?)(\.\.\.?)(.*)$/);
+    if (!m) return resolveCommit(cwd, range);
+    const [from, to] = await Promise.all([m[1], m[3]].map(ref => (ref ? resolveCommit(cwd, ref) : '')));
+    return from + m[2] + to;
+}
+
+// ─── Diffs ───────────────────────────────────────────────────────────────────
+
+/** What a diff compares: staged (index vs HEAD), a base ref vs the working tree, or unstaged */
+async function diffTarget(cwd, { staged = false, base } = {}) {
+    if (base) return ['--end-of-options', await resolveCommit(cwd, base)];
+    return staged ? ['--cached'] : [];
+}
+
+async function untrackedFiles(cwd, paths = []) {
+    const out = await git(['ls-files', '--others', '--exclude-standard', '-z', '--', ...paths], cwd);
+    return out.split('\0').filter(Boolean);
+}
+
+function parseNumstat(out) {
+    const fields = out.split('\0');
+    const files = [];
+    for (let i = 0; i < fields.length; i++) {
+        if (!fields[i]) continue;
+        const [added, deleted, file] = fields[i].split('\t');
+        const stat = { path: file, added: Number(added) || 0, deleted: Number(deleted) || 0, binary: added === '-' };
+        // A rename's path is empty here and followed by the old and new paths
+        if (!file) {
+            stat.origPath = fields[++i];
+            stat.path = fields[++i];
+        }
+        files.push(stat);
+    }
+    return files;
+}
+
+/** Per-file added / deleted line counts; `untracked` adds never-added files like gitDiff does */
+async function gitDiffStat(cwd, options = {}) {
+    const paths = options.paths || [];
+    const files = parseNumstat(await git(['diff', '--numstat', '-z', '--no-ext-diff', ...await diffTarget(cwd, options), '--', ...paths], cwd));
+    if (options.untracked && !options.staged) {
+        for (const file of (await untrackedFiles(cwd, paths)).slice(0, MAX_UNTRACKED_DIFFS)) {
+            const out = await git(['diff', '--numstat', '-z', '--no-index', '--', '/dev/null', file], cwd, { okCodes: [0, 1] }).catch(() => '');
+            // --no-index reports the path as "/dev/null => file"; keep it as the plain path
+            files.push(...parseNumstat(out).map(stat => ({ ...stat, path: file, origPath: undefined, untracked: true })));
+        }
+    }
+    return files;
+}
+
+/**
+ * Unified diff; `paths` are relative to cwd like any git pathspec. With
+ * `untracked`, files that were never added are included as well (a plain
+ * `git diff` leaves them out). Output past `maxBytes` is cut at a line
+ * break and flagged `truncated`.
+ */
+async function gitDiff(cwd, options = {}) {
+    const { paths = [], context = 3, maxBytes = DEFAULT_MAX_DIFF_BYTES, untracked = false } = options;
+    const args = ['diff', '--no-color', '--no-ext-diff', `-U${Math.max(0, Math.floor(context))}`, ...await diffTarget(cwd, options), '--', ...paths];
+    let diff = await git(args, cwd);
+
+    let untrackedCount = 0;
+    if (untracked && !options.staged) {
+        // ls-files and diff --no-index want paths relative to cwd
+        const files = await untrackedFiles(cwd, paths);
+        untrackedCount = files.length;
+        for (const file of files.slice(0, MAX_UNTRACKED_DIFFS)) {
+            if (diff.length > maxBytes) break;
+            // --no-index exits 1 when the files differ, which they always do here
+            diff += await git(['diff', '--no-color', '--no-index', '--', '/dev/null', file], cwd, { okCodes: [0, 1] })
+                .catch(() => `diff --git a/${file} b/${file}\nnew file (unreadable)\n`);
+        }
+    }
+
+    const truncated = diff.length > maxBytes;
+    if (truncated) {
+        const cut = diff.lastIndexOf('\n', maxBytes);
+        diff = diff.slice(0, cut > 0 ? cut + 1 : maxBytes);
+    }
+    return { diff, truncated, untracked: untrackedCount };
+}
+
+/** Status plus staged and unstaged diffstats (and everything since `base`, when given) */
+async function gitChanges(cwd, { base } = {}) {
+    const status = await gitStatus(cwd);
+    const [staged, unstaged, sinceBase] = await Promise.all([
+        gitDiffStat(cwd, { staged: true }),
+        gitDiffStat(cwd),
+        base ? gitDiffStat(cwd, { base }) : Promise.resolve(undefined),
+    ]);
+    return { status, staged, unstaged, ...(sinceBase ? { base, sinceBase } : {}) };
+}
+
+// ─── Log ─────────────────────────────────────────────────────────────────────
+
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+
+/** Recent commits, newest first. `range` is a ref or a `a..b` / `a...b` range (e.g. `abc123..HEAD`) */
+async function gitLog(cwd, { limit = 10, range } = {}) {
+    const format = ['%H', '%h', '%an', '%aI', '%s'].join('%x1f') + '%x1e';
+    const revs = range ? ['--end-of-options', await resolveRange(cwd, range)] : [];
+    const out = await git(['log', `--max-count=${Math.max(1, Math.floor(limit))}`, `--format=${format}`, ...revs, '--'], cwd)
+        .catch((err) => {
+            // A repository without commits has no log, not an error
+            if (/does not have any commits|bad default revision/.test(err.message)) return '';
+            throw err;
+        });
+    return out.split(RECORD).map(r => r.trim()).filter(Boolean).map((record) => {
+        const [hash, shortHash, author, date, subject] = record.split(FIELD);
+        return { hash, shortHash, author, date, subject };
+    });
+}
+
+/** HEAD commit of cwd's repository, or null before the first commit */
+async function gitHead(cwd) {
+    try {
+        return (await git(['rev-parse', 'HEAD'], cwd)).trim();
+    } catch {
+        return null;
+    }
+}
+
+module.exports = { git, resolveCommit, gitStatus, gitDiffStat, gitDiff, gitChanges, gitLog, gitHead };
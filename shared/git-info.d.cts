@@ -0,0 +1,89 @@
+// Type declarations for git-info.cjs
+
+export interface GitFileStatus {
+    /** Relative to the repository root */
+    path: string;
+    /** Source of a rename or copy */
+    origPath?: string;
+    /** Porcelain X (index) and Y (worktree) letters; '.' when unchanged */
+    index: string;
+    worktree: string;
+    staged: boolean;
+    unstaged: boolean;
+    untracked: boolean;
+    conflicted: boolean;
+}
+
+export interface GitStatus {
+    root: string;
+    /** null on a detached HEAD */
+    branch: string | null;
+    upstream: string | null;
+    ahead: number;
+    behind: number;
+    files: GitFileStatus[];
+    counts: { changed: number; staged: number; unstaged: number; untracked: number; conflicted: number };
+}
+
+export interface GitFileDiffStat {
+    path: string;
+    origPath?: string;
+    added: number;
+    deleted: number;
+    binary: boolean;
+    /** Never added to git (only with `untracked: true`) */
+    untracked?: boolean;
+}
+
+export interface GitDiffOptions {
+    /** Index vs HEAD instead of the working tree vs the index */
+    staged?: boolean;
+    /** Compare the working tree against this commit-ish (overrides staged); option-shaped refs are refused */
+    base?: string;
+    paths?: string[];
+}
+
+export interface GitDiff {
+    diff: string;
+    truncated: boolean;
+    /** Untracked files found (only with `untracked: true`) */
+    untracked: number;
+}
+
+export interface GitChanges {
+    status: GitStatus;
+    staged: GitFileDiffStat[];
+    unstaged: GitFileDiffStat[];
+    base?: string;
+    sinceBase?: GitFileDiffStat[];
+}
+
+export interface GitLogEntry {
+    hash: string;
+    shortHash: string;
+    author: string;
+    /** ISO 8601 author date */
+    date: string;
+    subject: string;
+}
+
+/** Run git in cwd and resolve its stdout; rejects with git's error text */
+export declare function git(args: string[], cwd: string, options?: { okCodes?: number[]; timeout?: number }): Promise<string>;
+
+/** SHA of the commit `ref` names; rejects option-shaped refs (leading `-`) and unknown revisions */
+export declare function resolveCommit(cwd: string, ref: string): Promise<string>;
+
+export declare function gitStatus(cwd: string): Promise<GitStatus>;
+
+export declare function gitDiffStat(cwd: string, options?: GitDiffOptions & { untracked?: boolean }): Promise<GitFileDiffStat[]>;
+
+export declare function gitDiff(
+    cwd: string,
+    options?: GitDiffOptions & { context?: number; maxBytes?: number; untracked?: boolean },
+): Promise<GitDiff>;
+
+export declare function gitChanges(cwd: string, options?: { base?: string }): Promise<GitChanges>;
+
+export declare function gitLog(cwd: string, options?: { limit?: number; range?: string }): Promise<GitLogEntry[]>;
+
+export declare function gitHead(cwd: string): Promise<string | null>;
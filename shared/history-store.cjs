@@ -0,0 +1,254 @@
+// ═══════════════════════════════════════════════════════════════
+// KaizenTerm — Terminal History Store
+// ═══════════════════════════════════════════════════════════════
+//
+// Append-only, segmented output history per terminal in terminal-buffers/:
+//
+//   <id>.index.json        { nextLine, segments: [{ seq, startLine, lines, bytes, firstT, lastT }] }
+//   <id>/000001.jsonl      { t: epoch ms, text } per line, oldest segment first
+//
+// Line numbers are absolute (1-based since the terminal's first line) and
+// survive retention, so a reader can ask for "everything after line N".
+// Electron is the only writer: append() queues lines in memory and flush()
+// appends them to the newest segment, rolling to a new one past
+// `segmentBytes`. Retention drops whole segments from the front once a
+// terminal exceeds `maxLines`, `maxBytes` or `maxDays`.
+//
+// Retention and segment size come from ~/.kaizen-term/history.json.
+
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULTS = {
+    maxLines: 100000,
+    maxBytes: 64 * 1024 * 1024,
+    maxDays: 7,
+    segmentBytes: 1024 * 1024,
+};
+const INDEX_SUFFIX = '.index.json';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Retention settings from <kaizenDir>/history.json over the defaults */
+function loadHistoryConfig(kaizenDir) {
+    let config = {};
+    try {
+        config = JSON.parse(fs.readFileSync(path.join(kaizenDir, 'history.json'), 'utf-8'));
+    } catch { }
+    const out = { ...DEFAULTS };
+    for (const key of Object.keys(DEFAULTS)) {
+        const value = Number(config[key]);
+        if (Number.isFinite(value) && value > 0) out[key] = value;
+    }
+    return out;
+}
+
+function segmentName(seq) {
+    return `${String(seq).padStart(6, '0')}.jsonl`;
+}
+
+function parseSegment(content, startLine) {
+    const entries = [];
+    let line = startLine;
+    for (const raw of content.split('\n')) {
+        if (!raw) continue;
+        try {
+            const e = JSON.parse(raw);
+            entries.push({ line: line++, t: e.t, text: e.text });
+        } catch { /* torn line while the writer appends */ }
+    }
+    return entries;
+}
+
+/**
+ * @param {{ dir: string, maxLines?: number, maxBytes?: number, maxDays?: number, segmentBytes?: number }} options
+ */
+function createHistoryStore({ dir, ...options }) {
+    const config = { ...DEFAULTS, ...options };
+    const indexes = new Map(); // id → index, for terminals this process writes
+    const pending = new Map(); // id → { t, text }[] not yet on disk
+
+    const indexFile = id => path.join(dir, id + INDEX_SUFFIX);
+    const segmentFile = (id, seq) => path.join(dir, id, segmentName(seq));
+
+    function readIndex(id) {
+        try {
+            const index = JSON.parse(fs.readFileSync(indexFile(id), 'utf-8'));
+            if (Array.isArray(index.segments)) return index;
+        } catch { }
+        return { nextLine: 1, segments: [] };
+    }
+
+    /** The writer's cached index, or a fresh read for terminals written elsewhere */
+    function getIndex(id) {
+        return indexes.get(id) || readIndex(id);
+    }
+
+    function writeIndex(id, index) {
+        const tmp = indexFile(id) + '.tmp';
+        fs.writeFileSync(tmp, JSON.stringify(index));
+        fs.renameSync(tmp, indexFile(id));
+    }
+
+    function append(id, entries) {
+        if (entries.length === 0) return;
+        if (!indexes.has(id)) indexes.set(id, readIndex(id));
+        if (!pending.has(id)) pending.set(id, []);
+        pending.get(id).push(...entries);
+    }
+
+    function applyRetention(id, index, now) {
+        const cutoff = now - config.maxDays * DAY_MS;
+        const total = () => index.segments.reduce((acc, s) => ({ lines: acc.lines + s.lines, bytes: acc.bytes + s.bytes }), { lines: 0, bytes: 0 });
+        // The newest segment is always kept
+        while (index.segments.length > 1) {
+            const { lines, bytes } = total();
+            const oldest = index.segments[0];
+            if (lines <= config.maxLines && bytes <= config.maxBytes && oldest.lastT >= cutoff) break;
+            index.segments.shift();
+            try { fs.unlinkSync(segmentFile(id, oldest.seq)); } catch { }
+        }
+    }
+
+    /** Write queued lines to disk; returns the ids that got new lines */
+    function flush(now = Date.now()) {
+        const flushed = [];
+        for (const [id, entries] of pending) {
+            if (entries.length === 0) continue;
+            const index = indexes.get(id);
+            try {
+                fs.mkdirSync(path.join(dir, id), { recursive: true });
+                let seg = index.segments[index.segments.length - 1];
+                let chunk = '';
+                const commit = () => {
+                    if (!chunk) return;
+                    fs.appendFileSync(segmentFile(id, seg.seq), chunk);
+                    chunk = '';
+                };
+                for (const e of entries) {
+                    const line = JSON.stringify({ t: e.t, text: e.text }) + '\n';
+                    const size = Buffer.byteLength(line);
+                    if (!seg || (seg.bytes > 0 && seg.bytes + size > config.segmentBytes)) {
+                        commit();
+                        seg = { seq: seg ? seg.seq + 1 : 1, startLine: index.nextLine, lines: 0, bytes: 0, firstT: e.t, lastT: e.t };
+                        index.segments.push(seg);
+                    }
+                    chunk += line;
+                    seg.lines++;
+                    seg.bytes += size;
+                    seg.lastT = e.t;
+                    index.nextLine++;
+                }
+                commit();
+                applyRetention(id, index, now);
+                writeIndex(id, index);
+                pending.set(id, []);
+                flushed.push(id);
+            } catch { /* keep the lines queued and retry on the next flush */ }
+        }
+        return flushed;
+    }
+
+    function pendingEntries(id, index) {
+        const queued = pending.get(id) || [];
+        return queued.map((e, i) => ({ line: index.nextLine + i, t: e.t, text: e.text }));
+    }
+
+    function readSegment(id, seg) {
+        try {
+            return parseSegment(fs.readFileSync(segmentFile(id, seg.seq), 'utf-8'), seg.startLine);
+        } catch {
+            return [];
+        }
+    }
+
+    /** Last `count` lines, reading only as many segments as needed */
+    function tail(id, count) {
+        const index = getIndex(id);
+        let out = pendingEntries(id, index);
+        for (let i = index.segments.length - 1; i >= 0 && out.length < count; i--) {
+            out = readSegment(id, index.segments[i]).concat(out);
+        }
+        return out.slice(-count);
+    }
+
+    /**
+     * Lines by absolute line number (`fromLine` / `toLine`, inclusive) and/or
+     * time (`since` / `until`, epoch ms, inclusive). Segments outside the
+     * window are skipped without reading. `limit` keeps the first matches.
+     */
+    function range(id, { fromLine, toLine, since, until, limit } = {}) {
+        const index = getIndex(id);
+        const out = [];
+        const inWindow = e =>
+            (fromLine == null || e.line >= fromLine) &&
+            (toLine == null || e.line <= toLine) &&
+            (since == null || e.t >= since) &&
+            (until == null || e.t <= until);
+
+        for (const seg of index.segments) {
+            const lastLine = seg.startLine + seg.lines - 1;
+            if (fromLine != null && lastLine < fromLine) continue;
+            if (toLine != null && seg.startLine > toLine) break;
+            if (since != null && seg.lastT < since) continue;
+            if (until != null && seg.firstT > until) break;
+            for (const e of readSegment(id, seg)) {
+                if (!inWindow(e)) continue;
+                out.push(e);
+                if (limit && out.length >= limit) return out;
+            }
+        }
+        for (const e of pendingEntries(id, index)) {
+            if (!inWindow(e)) continue;
+            out.push(e);
+            if (limit && out.length >= limit) break;
+        }
+        return out;
+    }
+
+    /** Absolute number of the last line written (0 when empty) */
+    function lastLine(id) {
+        const index = getIndex(id);
+        return index.nextLine - 1 + (pending.get(id)?.length || 0);
+    }
+
+    function stats(id) {
+        const index = getIndex(id);
+        const first = index.segments[0];
+        return {
+            firstLine: first ? first.startLine : index.nextLine,
+            lastLine: lastLine(id),
+            lines: index.segments.reduce((n, s) => n + s.lines, 0),
+            bytes: index.segments.reduce((n, s) => n + s.bytes, 0),
+            segments: index.segments.length,
+            firstT: first?.firstT,
+            lastT: index.segments[index.segments.length - 1]?.lastT,
+        };
+    }
+
+    /** Terminal ids with stored history, sorted */
+    function list() {
+        const ids = new Set(indexes.keys());
+        try {
+            for (const f of fs.readdirSync(dir)) {
+                if (f.endsWith(INDEX_SUFFIX)) ids.add(f.slice(0, -INDEX_SUFFIX.length));
+            }
+        } catch { }
+        return [...ids].sort();
+    }
+
+    /** Apply retention to every stored terminal, including ones not running any more */
+    function prune(now = Date.now()) {
+        for (const id of list()) {
+            const index = getIndex(id);
+            const before = index.segments.length;
+            applyRetention(id, index, now);
+            if (index.segments.length !== before) {
+                try { writeIndex(id, index); } catch { }
+            }
+        }
+    }
+
+    return { config, append, flush, tail, range, lastLine, stats, list, prune };
+}
+
+module.exports = { createHistoryStore, loadHistoryConfig, INDEX_SUFFIX };
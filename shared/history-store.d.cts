@@ -0,0 +1,54 @@
+// Type declarations for history-store.cjs
+
+export interface HistoryConfig {
+    /** Per terminal; retention drops whole segments, so these are approximate */
+    maxLines: number;
+    maxBytes: number;
+    maxDays: number;
+    /** A new segment file is started past this size */
+    segmentBytes: number;
+}
+
+export interface HistoryEntry {
+    /** Absolute, 1-based line number */
+    line: number;
+    /** Epoch ms the line was captured */
+    t: number;
+    text: string;
+}
+
+export interface HistoryRange {
+    fromLine?: number;
+    toLine?: number;
+    since?: number;
+    until?: number;
+    limit?: number;
+}
+
+export interface HistoryStats {
+    firstLine: number;
+    lastLine: number;
+    lines: number;
+    bytes: number;
+    segments: number;
+    firstT?: number;
+    lastT?: number;
+}
+
+export interface HistoryStore {
+    config: HistoryConfig;
+    append(id: string, entries: { t: number; text: string }[]): void;
+    flush(now?: number): string[];
+    tail(id: string, count: number): HistoryEntry[];
+    range(id: string, range?: HistoryRange): HistoryEntry[];
+    lastLine(id: string): number;
+    stats(id: string): HistoryStats;
+    list(): string[];
+    prune(now?: number): void;
+}
+
+export declare const INDEX_SUFFIX: string;
+
+export declare function createHistoryStore(options: { dir: string } & Partial<HistoryConfig>): HistoryStore;
+
+export declare function loadHistoryConfig(kaizenDir: string): HistoryConfig;
@@ -0,0 +1,362 @@
+// ═══════════════════════════════════════════════════════════════
+// KaizenTerm — Jira Sync
+// ═══════════════════════════════════════════════════════════════
+//
+// Two-way sync between the task store and Jira's REST API:
+//   pull   issues matching the configured JQL → create / update tasks
+//   push   Kaizen status changes → Jira transitions
+//
+// ~/.kaizen-term/jira.json       endpoint, credentials, JQL, mapping tables
+// ~/.kaizen-term/jira-sync.json  last-synced revision per Jira issue key
+//
+// A task whose status changed on both sides since the last sync gets a
+// `jiraConflict` entry instead of being overwritten; resolveConflict()
+// settles it in either direction.
+
+const fs = require('fs');
+const path = require('path');
+const { genTaskId, externalRefOf, isLinkedTo } = require('./task-utils.cjs');
+
+const DEFAULT_STATUS_MAP = {
+    'to do': 'backlog',
+    'open': 'backlog',
+    'in progress': 'doing',
+    'in review': 'review',
+    'review': 'review',
+    'done': 'done',
+    'closed': 'done',
+    'resolved': 'done',
+};
+
+const DEFAULT_PRIORITY_MAP = {
+    'lowest': 'low',
+    'low': 'low',
+    'medium': 'medium',
+    'high': 'high',
+    'highest': 'critical',
+    'critical': 'critical',
+    'blocker': 'critical',
+};
+
+/** Kaizen status → name of the Jira status (or transition) to move the issue to */
+const DEFAULT_TRANSITION_MAP = {
+    backlog: 'To Do',
+    doing: 'In Progress',
+    review: 'In Review',
+    done: 'Done',
+};
+
+const ISSUE_FIELDS = 'summary,description,status,priority,updated';
+
+// Jira Cloud's enhanced search (nextPageToken paging). Server / Data Center
+// lack it: set "searchPath": "/rest/api/2/search" for startAt paging there.
+const DEFAULT_SEARCH_PATH = '/rest/api/3/search/jql';
+const SEARCH_PAGE_SIZE = 50;
+
+function lowerKeys(map) {
+    return Object.fromEntries(Object.entries(map || {}).map(([k, v]) => [k.toLowerCase(), v]));
+}
+
+function sameName(a, b) {
+    return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+// ─── Config ──────────────────────────────────────────────────────────────────
+
+/** Read jira.json merged over the defaults (null when the file is missing) */
+function loadJiraConfig(dir) {
+    let raw = null;
+    try {
+        raw = JSON.parse(fs.readFileSync(path.join(dir, 'jira.json'), 'utf-8'));
+    } catch {
+        return null;
+    }
+    return {
+        baseUrl: raw.baseUrl,
+        email: raw.email,
+        apiToken: raw.apiToken || process.env.KAIZEN_JIRA_TOKEN,
+        jql: raw.jql || 'assignee = currentUser() AND resolution = Unresolved',
+        searchPath: raw.searchPath || DEFAULT_SEARCH_PATH,
+        statusMap: { ...DEFAULT_STATUS_MAP, ...lowerKeys(raw.statusMap) },
+        priorityMap: { ...DEFAULT_PRIORITY_MAP, ...lowerKeys(raw.priorityMap) },
+        transitionMap: { ...DEFAULT_TRANSITION_MAP, ...raw.transitionMap },
+    };
+}
+
+/** Status / priority tables for callers that only map (e.g. import_from_jira) */
+function jiraMappings(dir) {
+    const config = loadJiraConfig(dir);
+    return {
+        statusMap: config?.statusMap || DEFAULT_STATUS_MAP,
+        priorityMap: config?.priorityMap || DEFAULT_PRIORITY_MAP,
+    };
+}
+
+// ─── REST Client ─────────────────────────────────────────────────────────────
+
+function createJiraClient({ baseUrl, email, apiToken, searchPath = DEFAULT_SEARCH_PATH, fetchImpl = fetch }) {
+    const root = baseUrl.replace(/\/+$/, '');
+    const headers = { Accept: 'application/json', 'Content-Type': 'application/json' };
+    if (apiToken) {
+        // Jira Cloud: email + API token; Server / Data Center: personal access token
+        headers.Authorization = email
+            ? `Basic ${Buffer.from(`${email}:${apiToken}`).toString('base64')}`
+            : `Bearer ${apiToken}`;
+    }
+
+    async function request(method, pathname, body) {
+        const res = await fetchImpl(root + pathname, {
+            method,
+            headers,
+            body: body ? JSON.stringify(body) : undefined,
+        });
+        if (!res.ok) {
+            const text = await res.text().catch(() => '');
+            throw new Error(`Jira ${method} ${pathname} failed: ${res.status} ${text.slice(0, 200)}`);
+        }
+        return res.status === 204 ? null : res.json();
+    }
+
+    const tokenPaging = /\/search\/jql$/.test(searchPath);
+
+    /** Every issue matching `jql`, or the first `limit` (no further pages are fetched) */
+    async function search(jql, { limit = Infinity } = {}) {
+        const issues = [];
+        let nextPageToken = null;
+        while (true) {
+            const maxResults = Math.min(SEARCH_PAGE_SIZE, limit - issues.length);
+            const params = new URLSearchParams({ jql, maxResults: String(maxResults), fields: ISSUE_FIELDS });
+            if (!tokenPaging) params.set('startAt', String(issues.length));
+            else if (nextPageToken) params.set('nextPageToken', nextPageToken);
+            const page = await request('GET', `${searchPath}?${params}`);
+            issues.push(...(page.issues || []).slice(0, maxResults));
+            if (!page.issues?.length || issues.length >= limit) return issues;
+            if (tokenPaging) {
+                nextPageToken = page.nextPageToken;
+                if (page.isLast || !nextPageToken) return issues;
+            } else if (issues.length >= (page.total ?? 0)) {
+                return issues;
+            }
+        }
+    }
+
+    function getIssue(key) {
+        return request('GET', `/rest/api/2/issue/${encodeURIComponent(key)}?fields=${ISSUE_FIELDS}`);
+    }
+
+    async function getTransitions(key) {
+        const res = await request('GET', `/rest/api/2/issue/${encodeURIComponent(key)}/transitions`);
+        return res.transitions || [];
+    }
+
+    function transition(key, transitionId) {
+        return request('POST', `/rest/api/2/issue/${encodeURIComponent(key)}/transitions`, { transition: { id: transitionId } });
+    }
+
+    function addComment(key, body) {
+        return request('POST', `/rest/api/2/issue/${encodeURIComponent(key)}/comment`, { body });
+    }
+
+    return { search, getIssue, getTransitions, transition, addComment };
+}
+
+/** Move an issue to the Jira status mapped from a Kaizen status; returns the refreshed issue */
+async function transitionIssue(client, config, key, kaizenStatus) {
+    const target = config.transitionMap[kaizenStatus];
+    if (!target) throw new Error(`No Jira status configured for "${kaizenStatus}"`);
+    const transitions = await client.getTransitions(key);
+    const match = transitions.find(t => sameName(t.to?.name, target)) || transitions.find(t => sameName(t.name, target));
+    if (!match) throw new Error(`${key}: no transition to "${target}" from its current status`);
+    await client.transition(key, match.id);
+    return client.getIssue(key);
+}
+
+// ─── Sync Engine ─────────────────────────────────────────────────────────────
+
+function createJiraSync({ store, dir, config = loadJiraConfig(dir), fetchImpl }) {
+    if (!config?.baseUrl) {
+        throw new Error(`Jira is not configured — add baseUrl, jql and credentials to ${path.join(dir, 'jira.json')}`);
+    }
+    const client = createJiraClient({ ...config, fetchImpl });
+    const stateFile = path.join(dir, 'jira-sync.json');
+
+    function loadState() {
+        try {
+            return JSON.parse(fs.readFileSync(stateFile, 'utf-8'));
+        } catch {
+            return {};
+        }
+    }
+
+    function saveState(state) {
+        fs.writeFileSync(stateFile + '.tmp', JSON.stringify(state, null, 2));
+        fs.renameSync(stateFile + '.tmp', stateFile);
+    }
+
+    function record(issue, task) {
+        return {
+            taskId: task.id,
+            revision: issue.fields.updated,
+            jiraStatus: issue.fields.status?.name,
+            kaizenStatus: task.status,
+            syncedAt: new Date().toISOString(),
+        };
+    }
+
+    function mapStatus(jiraStatus) {
+        return config.statusMap[jiraStatus?.toLowerCase()] || null;
+    }
+
+    function addActivity(task, text) {
+        task.activity = [...(task.activity || []), { text, timestamp: Date.now() }];
+    }
+
+    /** Copy Jira's view of an issue onto its task */
+    function applyIssue(task, issue) {
+        const f = issue.fields;
+        const status = mapStatus(f.status?.name);
+        if (status && status !== task.status) addActivity(task, `Jira: moved to ${f.status.name}`);
+        if (f.summary) task.title = f.summary;
+        if (typeof f.description === 'string') task.description = f.description;
+        if (status) task.status = status;
+        task.priority = config.priorityMap[f.priority?.name?.toLowerCase()] || task.priority;
+        delete task.jiraConflict;
+        task.updatedAt = new Date().toISOString();
+    }
+
+    function pushStatus(key, kaizenStatus) {
+        return transitionIssue(client, config, key, kaizenStatus);
+    }
+
+    function issueRef(issue) {
+        return { provider: 'jira', key: issue.key, url: `${config.baseUrl.replace(/\/+$/, '')}/browse/${issue.key}` };
+    }
+
+    async function sync({ jql } = {}) {
+        const summary = { created: [], pulled: [], pushed: [], conflicts: [], errors: [] };
+        const state = loadState();
+
+        const issues = new Map();
+        for (const issue of await client.search(jql || config.jql)) issues.set(issue.key, issue);
+
+        // Locally changed tasks outside the JQL window still need their push
+        for (const task of store.load()) {
+            const ref = externalRefOf(task);
+            const rec = ref?.provider === 'jira' && state[ref.key];
+            if (rec && task.status !== rec.kaizenStatus && !issues.has(ref.key)) {
+                try {
+                    issues.set(ref.key, await client.getIssue(ref.key));
+                } catch (err) {
+                    summary.errors.push(`${ref.key}: ${err.message}`);
+                }
+            }
+        }
+
+        // Decide every issue in one store transaction; network pushes happen after
+        const pushes = [];
+        store.transact(tasks => {
+            for (const issue of issues.values()) {
+                const rec = state[issue.key];
+                const task = tasks.find(t => isLinkedTo(t, 'jira', issue.key));
+
+                if (!task) {
+                    const now = new Date().toISOString();
+                    const created = {
+                        id: genTaskId(),
+                        title: issue.fields.summary || issue.key,
+                        description: '',
+                        status: 'backlog',
+                        priority: 'medium',
+                        labels: ['jira'],
+                        externalRef: issueRef(issue),
+                        createdAt: now,
+                        updatedAt: now,
+                    };
+                    applyIssue(created, issue);
+                    created.activity = [{ text: `Imported from Jira ${issue.key}`, timestamp: Date.now() }];
+                    tasks.push(created);
+                    state[issue.key] = record(issue, created);
+                    summary.created.push(issue.key);
+                    continue;
+                }
+
+                // First sync of a task linked some other way: Jira is the baseline
+                if (!rec) {
+                    applyIssue(task, issue);
+                    state[issue.key] = record(issue, task);
+                    summary.pulled.push(issue.key);
+                    continue;
+                }
+
+                const jiraChanged = issue.fields.updated !== rec.revision;
+                const kaizenChanged = task.status !== rec.kaizenStatus;
+                const jiraStatus = mapStatus(issue.fields.status?.name);
+
+                if (jiraChanged && kaizenChanged && jiraStatus !== task.status) {
+                    task.jiraConflict = {
+                        jiraStatus: issue.fields.status?.name,
+                        kaizenStatus: task.status,
+                        jiraUpdated: issue.fields.updated,
+                        detectedAt: new Date().toISOString(),
+                    };
+                    task.updatedAt = new Date().toISOString();
+                    summary.conflicts.push(issue.key);
+                } else if (kaizenChanged && !jiraChanged) {
+                    pushes.push({ key: issue.key, status: task.status });
+                } else if (jiraChanged) {
+                    applyIssue(task, issue);
+                    state[issue.key] = record(issue, task);
+                    summary.pulled.push(issue.key);
+                }
+            }
+        });
+
+        for (const { key, status } of pushes) {
+            try {
+                const issue = await pushStatus(key, status);
+                state[key] = record(issue, { id: state[key].taskId, status });
+                summary.pushed.push(key);
+            } catch (err) {
+                summary.errors.push(err.message);
+            }
+        }
+
+        saveState(state);
+        return summary;
+    }
+
+    /** Settle a conflict by keeping the Kaizen status (push) or the Jira one (pull) */
+    async function resolveConflict(taskId, keep) {
+        const task = store.load().find(t => t.id === taskId);
+        const ref = task && externalRefOf(task);
+        if (ref?.provider !== 'jira') throw new Error(`Task ${taskId} is not linked to Jira`);
+
+        const issue = keep === 'kaizen'
+            ? await pushStatus(ref.key, task.status)
+            : await client.getIssue(ref.key);
+
+        let resolved = task;
+        store.transact(tasks => {
+            const t = tasks.find(x => x.id === taskId);
+            if (!t) return;
+            if (keep === 'kaizen') {
+                delete t.jiraConflict;
+                t.updatedAt = new Date().toISOString();
+                addActivity(t, `Jira conflict resolved: kept Kaizen status (${t.status})`);
+            } else {
+                applyIssue(t, issue);
+                addActivity(t, `Jira conflict resolved: took Jira status (${issue.fields.status?.name})`);
+            }
+            resolved = t;
+        });
+
+        const state = loadState();
+        state[ref.key] = record(issue, resolved);
+        saveState(state);
+        return resolved;
+    }
+
+    return { sync, resolveConflict };
+}
+
+module.exports = { createJiraSync, createJiraClient, transitionIssue, loadJiraConfig, jiraMappings };
@@ -0,0 +1,42 @@
+// Type declarations for jira-sync.cjs
+
+import type { StoredTask, TaskStore } from './task-store.cjs';
+
+export interface JiraConfig {
+    baseUrl: string;
+    email?: string;
+    apiToken?: string;
+    jql: string;
+    /** Search endpoint; `/rest/api/3/search/jql` (token paging) unless set, e.g. `/rest/api/2/search` on Server */
+    searchPath: string;
+    /** Jira status name (lower-case) → Kaizen status */
+    statusMap: Record<string, string>;
+    /** Jira priority name (lower-case) → Kaizen priority */
+    priorityMap: Record<string, string>;
+    /** Kaizen status → Jira status or transition name */
+    transitionMap: Record<string, string>;
+}
+
+export interface JiraSyncSummary {
+    created: string[];
+    pulled: string[];
+    pushed: string[];
+    conflicts: string[];
+    errors: string[];
+}
+
+export interface JiraSync<T extends StoredTask> {
+    sync(options?: { jql?: string }): Promise<JiraSyncSummary>;
+    resolveConflict(taskId: string, keep: 'kaizen' | 'jira'): Promise<T>;
+}
+
+export declare function loadJiraConfig(dir: string): JiraConfig | null;
+
+export declare function jiraMappings(dir: string): Pick<JiraConfig, 'statusMap' | 'priorityMap'>;
+
+export declare function createJiraSync<T extends StoredTask>(options: {
+    store: TaskStore<T>;
+    dir: string;
+    config?: JiraConfig | null;
+    fetchImpl?: typeof fetch;
+}): JiraSync<T>;
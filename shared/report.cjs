@@ -0,0 +1,222 @@
+// ═══════════════════════════════════════════════════════════════
+// KaizenTerm — Daily / Weekly Reports
+// ═══════════════════════════════════════════════════════════════
+//
+// Summarizes one period of work from two sources:
+//   tasks[].statusHistory   column moves stamped by the task store
+//   session telemetry       agent.* lifecycle events, timer.cycle and
+//                           task.auto_completed from the renderer
+//
+// The report is built as a list of sections first, then rendered to
+// markdown or a standalone HTML page.
+
+const { createTelemetry } = require('./telemetry.cjs');
+
+const COLUMNS = ['backlog', 'doing', 'review', 'done'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Period ──────────────────────────────────────────────────────────────────
+
+/** Local-time bounds: the day of `date`, or the 7 days ending with it */
+function periodBounds(period, date = new Date()) {
+    const end = new Date(date);
+    end.setHours(24, 0, 0, 0);
+    const from = new Date(end.getTime() - (period === 'weekly' ? 7 : 1) * DAY_MS);
+    return { from: from.getTime(), to: end.getTime() };
+}
+
+function localDate(ms) {
+    const d = new Date(ms);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function formatDuration(ms) {
+    const mins = Math.round(ms / 60000);
+    if (mins === 0 && ms > 0) return '<1m';
+    if (mins < 60) return `${mins}m`;
+    const hrs = Math.floor(mins / 60);
+    return mins % 60 ? `${hrs}h ${mins % 60}m` : `${hrs}h`;
+}
+
+// ─── Sources ─────────────────────────────────────────────────────────────────
+
+/** Milliseconds the task spent in `status` within [from, to) */
+function timeInStatus(task, status, from, to, now) {
+    const history = task.statusHistory || [];
+    let total = 0;
+    for (let i = 0; i < history.length; i++) {
+        if (history[i].status !== status) continue;
+        const start = Date.parse(history[i].at);
+        const end = i + 1 < history.length ? Date.parse(history[i + 1].at) : Math.min(now, to);
+        total += Math.max(0, Math.min(end, to) - Math.max(start, from));
+    }
+    return total;
+}
+
+// ─── Build ───────────────────────────────────────────────────────────────────
+
+/**
+ * Build the report model. Sections hold either `lines` (bullets) or a
+ * `table` ({ head, rows }).
+ */
+function buildReport({ dir, tasks, period = 'daily', date = new Date(), now = Date.now() }) {
+    const { from, to } = periodBounds(period, date);
+    const byId = new Map(tasks.map(t => [t.id, t]));
+    const label = id => byId.get(id) ? `${id} ${byId.get(id).title}` : id;
+    const events = createTelemetry({ dir }).query({ since: from, until: to });
+
+    // Board moves
+    const moves = Object.fromEntries(COLUMNS.map(c => [c, []]));
+    for (const t of tasks) {
+        for (const change of t.statusHistory || []) {
+            const at = Date.parse(change.at);
+            if (at >= from && at < to && moves[change.status]) moves[change.status].push(t);
+        }
+    }
+
+    // Time in doing
+    const doing = tasks
+        .map(t => ({ task: t, ms: timeInStatus(t, 'doing', from, to, now) }))
+        .filter(x => x.ms > 0)
+        .sort((a, b) => b.ms - a.ms);
+
+    // Agent runs
+    const spawns = events.filter(e => e.type === 'agent.spawned');
+    const exits = events.filter(e => e.type === 'agent.exited');
+    const exitCodes = {};
+    for (const e of exits) {
+        const code = String(e.exitCode ?? '?');
+        exitCodes[code] = (exitCodes[code] || 0) + 1;
+    }
+    const mcpSpawns = events.filter(e => e.type === 'agent.requested').length;
+    const kills = events.filter(e => e.type === 'agent.killed').length;
+    const spawnFailures = events.filter(e => e.type === 'agent.spawn_failed').length;
+
+    const focusCycles = events.filter(e => e.type === 'timer.cycle').length;
+    const autoCompleted = events
+        .filter(e => e.type === 'task.auto_completed')
+        .map(e => ({ taskId: e.taskId, agent: e.agentId, to: e.to, at: Date.parse(e.ts) }));
+
+    const doneCount = moves.done.length;
+    const title = period === 'weekly'
+        ? `KaizenTerm weekly report — ${localDate(from)} → ${localDate(to - 1)}`
+        : `KaizenTerm daily report — ${localDate(from)}`;
+
+    const sections = [
+        {
+            title: 'Summary',
+            lines: [
+                `${doneCount} task${doneCount !== 1 ? 's' : ''} moved to done, ${moves.doing.length} started`,
+                `${spawns.length} agent run${spawns.length !== 1 ? 's' : ''} (${mcpSpawns} requested over MCP), ${exits.length} exited, ${kills} killed`,
+                `${formatDuration(doing.reduce((sum, x) => sum + x.ms, 0))} of task time in doing`,
+                `${focusCycles} focus cycle${focusCycles !== 1 ? 's' : ''} completed`,
+                `${autoCompleted.length} task${autoCompleted.length !== 1 ? 's' : ''} moved by completion rules`,
+            ],
+        },
+        {
+            title: 'Tasks moved per column',
+            table: {
+                head: ['Column', 'Moves', 'Tasks'],
+                rows: COLUMNS.map(c => [c, String(moves[c].length), [...new Set(moves[c].map(t => t.id))].map(label).join(', ') || '—']),
+            },
+        },
+        {
+            title: 'Time in doing',
+            ...(doing.length > 0
+                ? { table: { head: ['Task', 'Time', 'Status now'], rows: doing.map(x => [label(x.task.id), formatDuration(x.ms), x.task.status]) } }
+                : { lines: ['No task spent time in doing in this period.'] }),
+        },
+        {
+            title: 'Agent runs',
+            ...(spawns.length + exits.length > 0
+                ? {
+                    table: {
+                        head: ['Exit code', 'Count'],
+                        rows: Object.entries(exitCodes).sort(([a], [b]) => Number(a) - Number(b)).map(([code, n]) => [code, String(n)]),
+                    },
+                    lines: [`${spawns.length} spawned, ${spawnFailures} failed to start, ${kills} killed`],
+                }
+                : { lines: ['No agent runs in this period.'] }),
+        },
+        {
+            title: 'Moved by completion rules',
+            lines: autoCompleted.length > 0
+                ? autoCompleted.map(a => `${label(a.taskId)}${a.to ? ` → ${a.to}` : ''}${a.agent ? ` — agent ${a.agent}` : ''} at ${new Date(a.at).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}`)
+                : ['None.'],
+        },
+    ];
+
+    return {
+        title,
+        period,
+        from: new Date(from).toISOString(),
+        to: new Date(to).toISOString(),
+        sections,
+        stats: {
+            moves: Object.fromEntries(COLUMNS.map(c => [c, moves[c].length])),
+            agentRuns: spawns.length,
+            exitCodes,
+            focusCycles,
+            autoCompleted: autoCompleted.length,
+        },
+    };
+}
+
+// ─── Render ──────────────────────────────────────────────────────────────────
+
+function escapeHtml(text) {
+    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeCell(text) {
+    return String(text).replace(/\|/g, '\\|');
+}
+
+function renderMarkdown(report) {
+    const out = [`# ${report.title}`, ''];
+    for (const s of report.sections) {
+        out.push(`## ${s.title}`, '');
+        if (s.table) {
+            out.push(`| ${s.table.head.join(' | ')} |`, `| ${s.table.head.map(() => '---').join(' | ')} |`);
+            for (const row of s.table.rows) out.push(`| ${row.map(escapeCell).join(' | ')} |`);
+            out.push('');
+        }
+        if (s.lines) out.push(...s.lines.map(l => `- ${l}`), '');
+    }
+    return out.join('\n');
+}
+
+function renderHtml(report) {
+    const body = report.sections.map(s => {
+        const table = s.table
+            ? `<table><thead><tr>${s.table.head.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead><tbody>${s.table.rows.map(r => `<tr>${r.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`
+            : '';
+        const lines = s.lines ? `<ul>${s.lines.map(l => `<li>${escapeHtml(l)}</li>`).join('')}</ul>` : '';
+        return `<section><h2>${escapeHtml(s.title)}</h2>${table}${lines}</section>`;
+    }).join('\n');
+    return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(report.title)}</title>
+<style>
+body { font: 14px/1.5 -apple-system, system-ui, sans-serif; max-width: 860px; margin: 2rem auto; color: #1f2328; }
+table { border-collapse: collapse; margin: 0.5rem 0 1rem; }
+th, td { border: 1px solid #d0d7de; padding: 4px 10px; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+</style></head>
+<body><h1>${escapeHtml(report.title)}</h1>
+${body}
+</body></html>
+`;
+}
+
+/** Build and render; `format` is 'markdown' (default) or 'html' */
+function generateReport({ format = 'markdown', ...options }) {
+    const report = buildReport(options);
+    return { ...report, content: format === 'html' ? renderHtml(report) : renderMarkdown(report) };
+}
+
+/** The format implied by an output file name */
+function formatForFile(file) {
+    return /\.html?$/i.test(file) ? 'html' : 'markdown';
+}
+
+module.exports = { generateReport, buildReport, renderMarkdown, renderHtml, periodBounds, formatForFile };
@@ -0,0 +1,57 @@
+// Type declarations for report.cjs
+
+import type { StatusChange } from './task-store.cjs';
+
+export type ReportPeriod = 'daily' | 'weekly';
+export type ReportFormat = 'markdown' | 'html';
+
+export interface ReportTask {
+    id: string;
+    title: string;
+    status?: string;
+    statusHistory?: StatusChange[];
+}
+
+export interface ReportSection {
+    title: string;
+    lines?: string[];
+    table?: { head: string[]; rows: string[][] };
+}
+
+export interface Report {
+    title: string;
+    period: ReportPeriod;
+    /** ISO bounds of the covered window, `to` exclusive */
+    from: string;
+    to: string;
+    sections: ReportSection[];
+    stats: {
+        moves: Record<string, number>;
+        agentRuns: number;
+        exitCodes: Record<string, number>;
+        focusCycles: number;
+        autoCompleted: number;
+    };
+}
+
+export interface ReportOptions {
+    /** Directory holding the session telemetry (~/.kaizen-term) */
+    dir: string;
+    tasks: ReportTask[];
+    period?: ReportPeriod;
+    /** Any moment inside the (last) day to report on; defaults to today */
+    date?: Date;
+    now?: number;
+}
+
+export declare function buildReport(options: ReportOptions): Report;
+
+export declare function generateReport(options: ReportOptions & { format?: ReportFormat }): Report & { content: string };
+
+export declare function renderMarkdown(report: Report): string;
+
+export declare function renderHtml(report: Report): string;
+
+export declare function periodBounds(period: ReportPeriod, date?: Date): { from: number; to: number };
+
+export declare function formatForFile(file: string): ReportFormat;
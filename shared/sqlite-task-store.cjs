@@ -0,0 +1,374 @@
+// ═══════════════════════════════════════════════════════════════
+// KaizenTerm — SQLite Task Store
+// ═══════════════════════════════════════════════════════════════
+//
+// ~/.kaizen-term/kaizen.db keeps every task field in normalized tables
+// (labels, subtasks, activity, dependencies, agent links). tasks.json is
+// still written after every commit as a read-mostly view for older tooling
+// and for JSON-store writers on runtimes without node:sqlite.
+//
+// The view is written under the JSON store's tasks.json.lock, and every
+// export also collapses tasks.journal into it. What a JSON-store writer
+// appends to the journal after that is replayed into the database — puts
+// and explicit deletes — the next time this store is touched. Edits to
+// tasks.json made without the journal only ever add or update tasks (newest
+// updatedAt wins); a task missing from the file is never deleted.
+//
+// Requires node:sqlite (Node 22.5+ / Electron 33+). Use openTaskRepository()
+// from task-repository.cjs, which falls back to the JSON store otherwise.
+
+const fs = require('fs');
+const path = require('path');
+const { createTaskStore, taskOperations, recordStatusChanges, TaskStoreError } = require('./task-store.cjs');
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT
+);
+CREATE TABLE IF NOT EXISTS tasks (
+    id TEXT PRIMARY KEY,
+    position INTEGER NOT NULL DEFAULT 0,
+    title TEXT NOT NULL,
+    description TEXT,
+    status TEXT NOT NULL,
+    priority TEXT,
+    jira_key TEXT,
+    agent_id TEXT,
+    due_date INTEGER,
+    created_at TEXT,
+    updated_at TEXT,
+    extra TEXT
+);
+CREATE TABLE IF NOT EXISTS task_labels (
+    task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    label TEXT NOT NULL,
+    PRIMARY KEY (task_id, label)
+);
+CREATE TABLE IF NOT EXISTS subtasks (
+    task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    done INTEGER NOT NULL DEFAULT 0
+);
+CREATE TABLE IF NOT EXISTS activity (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    text TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    recording TEXT
+);
+CREATE TABLE IF NOT EXISTS task_dependencies (
+    task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    blocked_by TEXT NOT NULL,
+    PRIMARY KEY (task_id, blocked_by)
+);
+CREATE TABLE IF NOT EXISTS agent_links (
+    task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    agent_id TEXT NOT NULL,
+    linked_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_activity_task ON activity(task_id);
+CREATE INDEX IF NOT EXISTS idx_subtasks_task ON subtasks(task_id);
+`;
+
+function createSqliteTaskStore({ dbFile, exportFile, writer = `pid-${process.pid}` }) {
+    const { DatabaseSync } = require('node:sqlite');
+
+    const dir = path.dirname(dbFile);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+
+    const db = new DatabaseSync(dbFile);
+    db.exec('PRAGMA journal_mode = WAL; PRAGMA busy_timeout = 5000; PRAGMA foreign_keys = ON;');
+    db.exec(SCHEMA);
+    // Databases created before activity entries linked a session recording
+    if (!db.prepare('PRAGMA table_info(activity)').all().some(c => c.name === 'recording')) {
+        db.exec('ALTER TABLE activity ADD COLUMN recording TEXT');
+    }
+
+    const q = {
+        getMeta: db.prepare('SELECT value FROM meta WHERE key = ?'),
+        setMeta: db.prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'),
+        allTasks: db.prepare('SELECT * FROM tasks ORDER BY position, rowid'),
+        allLabels: db.prepare('SELECT task_id, label FROM task_labels ORDER BY rowid'),
+        allSubtasks: db.prepare('SELECT task_id, text, done FROM subtasks ORDER BY task_id, position'),
+        allActivity: db.prepare('SELECT task_id, text, timestamp, recording FROM activity ORDER BY id'),
+        allDependencies: db.prepare('SELECT task_id, blocked_by FROM task_dependencies ORDER BY rowid'),
+        upsertTask: db.prepare(`
+            INSERT INTO tasks (id, position, title, description, status, priority, jira_key, agent_id, due_date, created_at, updated_at, extra)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(id) DO UPDATE SET
+                position = excluded.position, title = excluded.title, description = excluded.description,
+                status = excluded.status, priority = excluded.priority, jira_key = excluded.jira_key,
+                agent_id = excluded.agent_id, due_date = excluded.due_date, created_at = excluded.created_at,
+                updated_at = excluded.updated_at, extra = excluded.extra`),
+        setPosition: db.prepare('UPDATE tasks SET position = ? WHERE id = ?'),
+        deleteTask: db.prepare('DELETE FROM tasks WHERE id = ?'),
+        deleteLabels: db.prepare('DELETE FROM task_labels WHERE task_id = ?'),
+        insertLabel: db.prepare('INSERT OR IGNORE INTO task_labels (task_id, label) VALUES (?, ?)'),
+        deleteSubtasks: db.prepare('DELETE FROM subtasks WHERE task_id = ?'),
+        insertSubtask: db.prepare('INSERT INTO subtasks (task_id, position, text, done) VALUES (?, ?, ?, ?)'),
+        deleteActivity: db.prepare('DELETE FROM activity WHERE task_id = ?'),
+        insertActivity: db.prepare('INSERT INTO activity (task_id, text, timestamp, recording) VALUES (?, ?, ?, ?)'),
+        deleteDependencies: db.prepare('DELETE FROM task_dependencies WHERE task_id = ?'),
+        insertDependency: db.prepare('INSERT OR IGNORE INTO task_dependencies (task_id, blocked_by) VALUES (?, ?)'),
+        insertAgentLink: db.prepare('INSERT INTO agent_links (task_id, agent_id, linked_at) VALUES (?, ?, ?)'),
+    };
+
+    function getMeta(key) {
+        return q.getMeta.get(key)?.value ?? null;
+    }
+
+    // ─── Row mapping ─────────────────────────────────────────────────
+
+    function readAll() {
+        const group = (rows, pick) => {
+            const map = new Map();
+            for (const r of rows) {
+                if (!map.has(r.task_id)) map.set(r.task_id, []);
+                map.get(r.task_id).push(pick(r));
+            }
+            return map;
+        };
+        const labels = group(q.allLabels.all(), r => r.label);
+        const subtasks = group(q.allSubtasks.all(), r => ({ text: r.text, done: !!r.done }));
+        const activity = group(q.allActivity.all(), r => ({ text: r.text, timestamp: r.timestamp, ...(r.recording != null && { recording: r.recording }) }));
+        const deps = group(q.allDependencies.all(), r => r.blocked_by);
+
+        return q.allTasks.all().map(row => {
+            const task = {
+                id: row.id,
+                title: row.title,
+                description: row.description ?? '',
+                status: row.status,
+                priority: row.priority ?? 'medium',
+                labels: labels.get(row.id) || [],
+                ...(row.jira_key != null && { jiraKey: row.jira_key }),
+                ...(row.agent_id != null && { agentId: row.agent_id }),
+                ...(deps.has(row.id) && { blockedBy: deps.get(row.id) }),
+                ...(subtasks.has(row.id) && { subtasks: subtasks.get(row.id) }),
+                ...(row.due_date != null && { dueDate: row.due_date }),
+                ...(activity.has(row.id) && { activity: activity.get(row.id) }),
+                createdAt: row.created_at,
+                updatedAt: row.updated_at,
+            };
+            return row.extra ? { ...task, ...JSON.parse(row.extra) } : task;
+        });
+    }
+
+    function writeTask(task, position, previousAgentId) {
+        const {
+            id, title, description, status, priority, jiraKey, agentId, dueDate,
+            createdAt, updatedAt, labels, subtasks, activity, blockedBy, ...extra
+        } = task;
+
+        q.upsertTask.run(
+            id, position, title || 'Untitled', description ?? null, status || 'backlog', priority ?? null,
+            jiraKey ?? null, agentId ?? null, dueDate ?? null, createdAt ?? null, updatedAt ?? null,
+            Object.keys(extra).length > 0 ? JSON.stringify(extra) : null,
+        );
+
+        q.deleteLabels.run(id);
+        for (const label of labels || []) q.insertLabel.run(id, label);
+        q.deleteSubtasks.run(id);
+        (subtasks || []).forEach((s, i) => q.insertSubtask.run(id, i, s.text, s.done ? 1 : 0));
+        q.deleteActivity.run(id);
+        for (const a of activity || []) q.insertActivity.run(id, a.text, a.timestamp ?? Date.now(), a.recording ?? null);
+        q.deleteDependencies.run(id);
+        for (const dep of blockedBy || []) q.insertDependency.run(id, dep);
+
+        if (agentId && agentId !== previousAgentId) {
+            q.insertAgentLink.run(id, agentId, new Date().toISOString());
+        }
+    }
+
+    // ─── tasks.json view ─────────────────────────────────────────────
+
+    // The JSON store over the same tasks.json owns the lock, snapshot and journal formats
+    const view = createTaskStore({ file: exportFile, writer });
+
+    function journalSize() {
+        try {
+            return fs.statSync(view.journalFile).size;
+        } catch {
+            return 0;
+        }
+    }
+
+    /** Write the view and reset the journal to it (caller holds the view lock) */
+    function exportView(tasks) {
+        view.resetLocked(tasks, revision());
+        q.setMeta.run('export_mtime', String(fs.statSync(exportFile).mtimeMs));
+        q.setMeta.run('export_journal_size', String(journalSize()));
+    }
+
+    /** tasks.json or tasks.journal changed since our last export (JSON-store writer / older tooling) */
+    function exportChangedExternally() {
+        try {
+            return String(fs.statSync(exportFile).mtimeMs) !== getMeta('export_mtime')
+                || String(journalSize()) !== getMeta('export_journal_size');
+        } catch {
+            return false;
+        }
+    }
+
+    function readExport() {
+        try {
+            const parsed = JSON.parse(fs.readFileSync(exportFile, 'utf-8'));
+            return Array.isArray(parsed) ? parsed : null;
+        } catch {
+            return null;
+        }
+    }
+
+    // ─── Transactions ────────────────────────────────────────────────
+
+    function revision() {
+        return Number(getMeta('revision') || 0);
+    }
+
+    function inWriteTransaction(fn) {
+        db.exec('BEGIN IMMEDIATE');
+        try {
+            const result = fn();
+            db.exec('COMMIT');
+            return result;
+        } catch (err) {
+            db.exec('ROLLBACK');
+            throw err;
+        }
+    }
+
+    /** Persist the difference between `before` and `next` (caller holds the write lock) */
+    function applyChanges(before, next) {
+        const previous = new Map(before.map(t => [t.id, t]));
+        const previousJson = new Map(before.map(t => [t.id, JSON.stringify(t)]));
+        const seen = new Set();
+        let changed = before.length !== next.length;
+
+        next.forEach((task, position) => {
+            seen.add(task.id);
+            if (previousJson.get(task.id) !== JSON.stringify(task)) {
+                writeTask(task, position, previous.get(task.id)?.agentId);
+                changed = true;
+            } else if (before[position]?.id !== task.id) {
+                q.setPosition.run(position, task.id);
+                changed = true;
+            }
+        });
+        for (const id of previous.keys()) {
+            if (!seen.has(id)) q.deleteTask.run(id);
+        }
+        return changed;
+    }
+
+    function bumpRevision(tasks) {
+        const rev = revision() + 1;
+        q.setMeta.run('revision', String(rev));
+        q.setMeta.run('last_writer', writer);
+        exportView(tasks);
+        return rev;
+    }
+
+    /**
+     * Bring in what JSON-store writers and older tooling changed since our
+     * last export (caller holds the view lock, inside a write transaction).
+     * Journal entries after the last snapshot are replayed as-is; the
+     * snapshot itself and a hand-edited tasks.json only add or update.
+     */
+    function absorbExternalEdits() {
+        if (!exportChangedExternally()) return;
+        const stored = readAll();
+        const byId = new Map(stored.map(t => [t.id, t]));
+        const mergeNewer = t => {
+            const existing = byId.get(t.id);
+            if (!existing || (t.updatedAt && (!existing.updatedAt || t.updatedAt > existing.updatedAt))) byId.set(t.id, t);
+        };
+
+        // Until our first export has reset it, the journal predates the database
+        const entries = getMeta('export_journal_size') !== null ? view.readJournal() : [];
+        const lastSnapshot = entries.map(e => e.op).lastIndexOf('snapshot');
+        if (lastSnapshot !== -1) (entries[lastSnapshot].tasks || []).forEach(mergeNewer);
+        const deleted = new Set();
+        for (const entry of entries.slice(lastSnapshot + 1)) {
+            if (entry.op === 'put') {
+                byId.set(entry.task.id, entry.task);
+                deleted.delete(entry.task.id);
+            } else if (entry.op === 'delete') {
+                byId.delete(entry.id);
+                deleted.add(entry.id);
+            }
+        }
+        for (const t of readExport() || []) {
+            if (!deleted.has(t.id)) mergeNewer(t);
+        }
+
+        const tasks = [...byId.values()];
+        if (applyChanges(stored, tasks)) bumpRevision(tasks);
+        else exportView(stored);
+    }
+
+    /** One-time import of the pre-SQLite tasks.json (and its journal) */
+    function migrateFromJson() {
+        if (getMeta('migrated_from_json')) return;
+        view.withLock(() => inWriteTransaction(() => {
+            if (getMeta('migrated_from_json')) return;
+            const legacy = fs.existsSync(exportFile) ? view.load() : [];
+            legacy.forEach((task, i) => writeTask(task, i, undefined));
+            q.setMeta.run('migrated_from_json', new Date().toISOString());
+            exportView(readAll());
+        }));
+    }
+
+    function load() {
+        if (exportChangedExternally()) view.withLock(() => inWriteTransaction(absorbExternalEdits));
+        return readAll();
+    }
+
+    /**
+     * Same contract as the JSON store: `mutate` edits the array in place or
+     * returns `{ tasks }`; `expectedRevision` makes the write compare-and-swap.
+     */
+    function transact(mutate, { expectedRevision } = {}) {
+        // View lock first, then the SQLite write lock — the same order everywhere
+        return view.withLock(() => inWriteTransaction(() => {
+            absorbExternalEdits();
+            const rev = revision();
+            if (expectedRevision != null && expectedRevision !== rev) {
+                throw new TaskStoreError('revision-conflict', `Task store is at revision ${rev}, expected ${expectedRevision}`);
+            }
+
+            const before = readAll();
+            const tasks = readAll();
+            const result = mutate(tasks);
+            const next = Array.isArray(result?.tasks) ? result.tasks : tasks;
+            recordStatusChanges(new Map(before.map(t => [t.id, t.status])), next, writer);
+
+            if (!applyChanges(before, next)) return { revision: rev, result, changed: false };
+            return { revision: bumpRevision(next), result, changed: true };
+        }));
+    }
+
+    function replay() {
+        return readAll();
+    }
+
+    function compact() {
+        db.exec('VACUUM');
+        return { revision: revision(), tasks: readAll().length };
+    }
+
+    function close() {
+        db.close();
+    }
+
+    migrateFromJson();
+
+    return {
+        kind: 'sqlite', file: exportFile, dbFile,
+        load, revision, replay, transact, compact, close,
+        ...taskOperations(transact),
+    };
+}
+
+module.exports = { createSqliteTaskStore };
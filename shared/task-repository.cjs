@@ -0,0 +1,35 @@
+// ═══════════════════════════════════════════════════════════════
+// KaizenTerm — Task Repository
+// ═══════════════════════════════════════════════════════════════
+//
+// Entry point for task persistence. Prefers the SQLite store
+// (~/.kaizen-term/kaizen.db) and falls back to the locked JSON store when
+// node:sqlite is unavailable (e.g. the MCP server on Node 20). Both keep
+// ~/.kaizen-term/tasks.json current, so mixed runtimes stay in sync.
+
+const path = require('path');
+const { createTaskStore } = require('./task-store.cjs');
+
+function sqliteAvailable() {
+    try {
+        require('node:sqlite');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function openTaskRepository({ dir, writer }) {
+    const file = path.join(dir, 'tasks.json');
+    if (process.env.KAIZEN_TASK_STORE !== 'json' && sqliteAvailable()) {
+        try {
+            const { createSqliteTaskStore } = require('./sqlite-task-store.cjs');
+            return createSqliteTaskStore({ dbFile: path.join(dir, 'kaizen.db'), exportFile: file, writer });
+        } catch (err) {
+            console.error(`[kaizen] SQLite task store unavailable, using tasks.json: ${err.message}`);
+        }
+    }
+    return createTaskStore({ file, writer });
+}
+
+module.exports = { openTaskRepository };
@@ -0,0 +1,5 @@
+// Type declarations for task-repository.cjs
+
+import type { StoredTask, TaskStore } from './task-store.cjs';
+
+export declare function openTaskRepository<T extends StoredTask>(options: { dir: string; writer?: string }): TaskStore<T>;
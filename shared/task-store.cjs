@@ -0,0 +1,425 @@
+// ═══════════════════════════════════════════════════════════════
+// KaizenTerm — Shared Task Store
+// ═══════════════════════════════════════════════════════════════
+//
+// Single writer path for ~/.kaizen-term/tasks.json, used by both the
+// Electron main process and the MCP server.
+//
+//   tasks.json          snapshot (plain array, readable by older tooling)
+//   tasks.json.lock     exclusive lock held for every read-modify-write
+//   tasks.journal       append-only JSONL of changes, one revision per write
+//
+// Every mutation runs under the lock: load the snapshot, apply the change,
+// append the per-task diff to the journal, then atomically replace the
+// snapshot. The journal can rebuild the snapshot when it is missing or
+// corrupt, and compacts itself into a single snapshot entry once it grows.
+
+const fs = require('fs');
+const path = require('path');
+const { openBlockers } = require('./task-utils.cjs');
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_STALE_MS = 10000;
+const LOCK_RETRY_MS = 10;
+const COMPACT_AFTER_BYTES = 1024 * 1024;
+
+const sleepCell = new Int32Array(new SharedArrayBuffer(4));
+function sleepSync(ms) {
+    Atomics.wait(sleepCell, 0, 0, ms);
+}
+
+function isProcessAlive(pid) {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (err) {
+        return err.code === 'EPERM';
+    }
+}
+
+class TaskStoreError extends Error {
+    constructor(code, message, current) {
+        super(message);
+        this.name = 'TaskStoreError';
+        this.code = code;
+        this.current = current;
+    }
+}
+
+function createTaskStore({ file, writer = `pid-${process.pid}` }) {
+    const lockFile = file + '.lock';
+    // Per-process temp names: a fixed name lets one writer rename another's half-written file
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    const journalFile = file.replace(/\.json$/, '') + '.journal';
+
+    function ensureDir() {
+        const dir = path.dirname(file);
+        if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+    }
+
+    // ─── Locking ─────────────────────────────────────────────────────
+
+    // Breaking a stale lock is read-check-unlink; two waiters that both judged
+    // the same lock stale must not both unlink, or the second one removes the
+    // fresh lock the first has just taken. tasks.json.lock.break serializes
+    // them: under it, a waiter only unlinks a lock whose contents (which carry
+    // a per-acquisition token) are still exactly what it judged stale.
+    const breakFile = lockFile + '.break';
+    const BREAK_STALE_MS = 1000;
+    let token = null;
+
+    // When the same process writes back-to-back, give waiting writers a window
+    // to grab the lock first (their retries sleep at most 3 × LOCK_RETRY_MS)
+    let lastReleasedAt = 0;
+
+    function readLockFile() {
+        try { return fs.readFileSync(lockFile, 'utf-8'); } catch { return null; }
+    }
+
+    /** Run `fn` holding tasks.json.lock.break; false if it is busy */
+    function tryWithBreakLock(fn) {
+        let fd;
+        try {
+            fd = fs.openSync(breakFile, 'wx');
+        } catch (err) {
+            if (err.code !== 'EEXIST') throw err;
+            // Held for microseconds — an old one belongs to a writer that died inside
+            try {
+                if (Date.now() - fs.statSync(breakFile).mtimeMs > BREAK_STALE_MS) fs.unlinkSync(breakFile);
+            } catch { }
+            return false;
+        }
+        try {
+            fs.closeSync(fd);
+            fn();
+            return true;
+        } finally {
+            try { fs.unlinkSync(breakFile); } catch { }
+        }
+    }
+
+    function isStale(raw) {
+        try {
+            const holder = JSON.parse(raw);
+            const age = Date.now() - (holder.at || 0);
+            return age > LOCK_STALE_MS || (!!holder.pid && !isProcessAlive(holder.pid));
+        } catch {
+            return false; // half-written — its writer is still going
+        }
+    }
+
+    function acquireLock() {
+        ensureDir();
+        const sinceRelease = Date.now() - lastReleasedAt;
+        if (sinceRelease < LOCK_RETRY_MS * 3) sleepSync(LOCK_RETRY_MS * 3 - sinceRelease);
+
+        const deadline = Date.now() + LOCK_TIMEOUT_MS;
+        while (true) {
+            const mine = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+            try {
+                const fd = fs.openSync(lockFile, 'wx');
+                fs.writeSync(fd, JSON.stringify({ pid: process.pid, writer, at: Date.now(), token: mine }));
+                fs.closeSync(fd);
+                token = mine;
+                return;
+            } catch (err) {
+                if (err.code !== 'EEXIST') throw err;
+            }
+
+            // Break locks left behind by crashed or hung writers
+            const judged = readLockFile();
+            if (judged !== null && isStale(judged)) {
+                let broke = false;
+                tryWithBreakLock(() => {
+                    if (readLockFile() !== judged) return;
+                    fs.unlinkSync(lockFile);
+                    broke = true;
+                });
+                if (broke) continue;
+            }
+
+            if (Date.now() > deadline) {
+                throw new TaskStoreError('lock-timeout', `Timed out waiting for ${path.basename(lockFile)}`);
+            }
+            // Jitter so one busy writer can't starve the others
+            sleepSync(LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS * 2);
+        }
+    }
+
+    function releaseLock() {
+        // Only our own lock: if we overran LOCK_STALE_MS it may have been broken and re-taken
+        const release = () => {
+            const raw = readLockFile();
+            try {
+                if (raw !== null && JSON.parse(raw).token === token) fs.unlinkSync(lockFile);
+            } catch { }
+        };
+        const deadline = Date.now() + LOCK_TIMEOUT_MS;
+        while (!tryWithBreakLock(release) && Date.now() < deadline) sleepSync(LOCK_RETRY_MS);
+        token = null;
+        lastReleasedAt = Date.now();
+    }
+
+    function withLock(fn) {
+        acquireLock();
+        try {
+            return fn();
+        } finally {
+            releaseLock();
+        }
+    }
+
+    // ─── Journal ─────────────────────────────────────────────────────
+
+    function readJournal() {
+        try {
+            return fs.readFileSync(journalFile, 'utf-8')
+                .split('\n')
+                .filter(Boolean)
+                .map(line => { try { return JSON.parse(line); } catch { return null; } })
+                .filter(Boolean);
+        } catch {
+            return [];
+        }
+    }
+
+    function journalSize() {
+        try {
+            return fs.statSync(journalFile).size;
+        } catch {
+            return 0;
+        }
+    }
+
+    /** Revision of the last journal entry (reads only the tail of the file) */
+    function revision() {
+        try {
+            const size = journalSize();
+            if (size === 0) return 0;
+            const length = Math.min(size, 64 * 1024);
+            const buf = Buffer.alloc(length);
+            const fd = fs.openSync(journalFile, 'r');
+            try { fs.readSync(fd, buf, 0, length, size - length); } finally { fs.closeSync(fd); }
+            const lines = buf.toString('utf-8').split('\n').filter(Boolean);
+            for (let i = lines.length - 1; i >= 0; i--) {
+                try { return JSON.parse(lines[i]).rev || 0; } catch { /* partial first line */ }
+            }
+        } catch { }
+        return 0;
+    }
+
+    /** Rebuild the task list from the journal alone */
+    function replay(entries = readJournal()) {
+        const byId = new Map();
+        for (const entry of entries) {
+            if (entry.op === 'snapshot') {
+                byId.clear();
+                for (const t of entry.tasks || []) byId.set(t.id, t);
+            } else if (entry.op === 'put') {
+                byId.set(entry.task.id, entry.task);
+            } else if (entry.op === 'delete') {
+                byId.delete(entry.id);
+            }
+        }
+        return [...byId.values()];
+    }
+
+    /** Collapse the journal into one snapshot entry (caller holds the lock) */
+    function compactLocked(tasks, rev) {
+        const entry = { rev, ts: new Date().toISOString(), writer, op: 'snapshot', tasks };
+        const tmp = `${journalFile}.${process.pid}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(entry) + '\n');
+        fs.renameSync(tmp, journalFile);
+    }
+
+    // ─── Snapshot ────────────────────────────────────────────────────
+
+    function readSnapshot(filePath) {
+        try {
+            if (fs.existsSync(filePath)) {
+                const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+                if (Array.isArray(parsed)) return parsed;
+            }
+        } catch { /* corrupt / missing */ }
+        return null;
+    }
+
+    /** Newest `tasks.json.<pid>.tmp` left behind by an interrupted write */
+    function readLeftoverTmp() {
+        const dir = path.dirname(file);
+        const prefix = path.basename(file) + '.';
+        let newest = null;
+        try {
+            for (const name of fs.readdirSync(dir)) {
+                if (!name.startsWith(prefix) || !name.endsWith('.tmp')) continue;
+                const mtimeMs = fs.statSync(path.join(dir, name)).mtimeMs;
+                if (!newest || mtimeMs > newest.mtimeMs) newest = { name, mtimeMs };
+            }
+        } catch { }
+        return newest ? readSnapshot(path.join(dir, newest.name)) : null;
+    }
+
+    function load() {
+        ensureDir();
+        // Fallback chain: snapshot → interrupted .tmp write → journal replay
+        return readSnapshot(file) ?? readLeftoverTmp() ?? replay();
+    }
+
+    function writeSnapshot(tasks) {
+        fs.writeFileSync(tmpFile, JSON.stringify(tasks, null, 2));
+        fs.renameSync(tmpFile, file);
+    }
+
+    /**
+     * Overwrite the snapshot and collapse the journal into it (caller holds
+     * the lock). Used by the SQLite store to export its view, so JSON-store
+     * writers in other processes start from that view and everything they
+     * append afterwards is exactly what they changed.
+     */
+    function resetLocked(tasks, rev) {
+        ensureDir();
+        writeSnapshot(tasks);
+        compactLocked(tasks, rev);
+    }
+
+    // ─── Transactions ────────────────────────────────────────────────
+
+    /**
+     * Run `mutate(tasks)` under the lock and persist whatever it changed.
+     * `mutate` edits the array in place, or returns `{ tasks }` to replace it.
+     * Pass `expectedRevision` for compare-and-swap: the write is rejected
+     * with a `revision-conflict` error if anyone else wrote in between.
+     */
+    function transact(mutate, { expectedRevision } = {}) {
+        return withLock(() => {
+            const rev = revision();
+            if (expectedRevision != null && expectedRevision !== rev) {
+                throw new TaskStoreError('revision-conflict', `Task store is at revision ${rev}, expected ${expectedRevision}`);
+            }
+
+            const tasks = load();
+            const before = new Map(tasks.map(t => [t.id, JSON.stringify(t)]));
+            const beforeStatus = new Map(tasks.map(t => [t.id, t.status]));
+            const result = mutate(tasks);
+            const next = Array.isArray(result?.tasks) ? result.tasks : tasks;
+            recordStatusChanges(beforeStatus, next, writer);
+
+            const ts = new Date().toISOString();
+            const ops = [];
+            const seen = new Set();
+            for (const t of next) {
+                seen.add(t.id);
+                if (before.get(t.id) !== JSON.stringify(t)) ops.push({ op: 'put', task: t });
+            }
+            for (const id of before.keys()) {
+                if (!seen.has(id)) ops.push({ op: 'delete', id });
+            }
+            if (ops.length === 0) return { revision: rev, result, changed: false };
+
+            const nextRev = rev + 1;
+            const entries = journalSize() === 0 && before.size > 0
+                // First write against a pre-journal tasks.json: seed the journal with it
+                ? [{ rev, ts, writer, op: 'snapshot', tasks: JSON.parse(`[${[...before.values()].join(',')}]`) }]
+                : [];
+            for (const o of ops) entries.push({ rev: nextRev, ts, writer, ...o });
+            fs.appendFileSync(journalFile, entries.map(e => JSON.stringify(e)).join('\n') + '\n');
+            writeSnapshot(next);
+
+            if (journalSize() > COMPACT_AFTER_BYTES) compactLocked(next, nextRev);
+            return { revision: nextRev, result, changed: true };
+        });
+    }
+
+    function compact() {
+        return withLock(() => {
+            const tasks = load();
+            const rev = revision();
+            compactLocked(tasks, rev);
+            return { revision: rev, tasks: tasks.length };
+        });
+    }
+
+    return {
+        kind: 'json', file, journalFile,
+        load, revision, replay, transact, compact,
+        withLock, readJournal, resetLocked,
+        ...taskOperations(transact),
+    };
+}
+
+// ─── Convenience operations (shared by every store backend) ────────────────
+
+const STATUS_HISTORY_MAX = 100;
+
+/**
+ * Append `{ status, at, by }` to `statusHistory` of every task that is new or
+ * changed column, so reports can tell when tasks moved and how long they sat
+ * in each column regardless of which process moved them.
+ */
+function recordStatusChanges(beforeStatus, next, writer, at = new Date().toISOString()) {
+    for (const t of next) {
+        if (beforeStatus.get(t.id) === t.status) continue;
+        // A full-board save may carry a transition its writer already stamped
+        const last = t.statusHistory?.[t.statusHistory.length - 1];
+        if (last?.status === t.status) continue;
+        t.statusHistory = [...(t.statusHistory || []), { status: t.status, at, by: writer }].slice(-STATUS_HISTORY_MAX);
+    }
+}
+
+function taskOperations(transact) {
+    function add(task) {
+        return transact(tasks => {
+            if (tasks.some(t => t.id === task.id)) {
+                throw new TaskStoreError('duplicate', `Task ${task.id} already exists`);
+            }
+            tasks.push(task);
+            return task;
+        });
+    }
+
+    /**
+     * Merge `changes` into one task. With `expectedUpdatedAt` the update is
+     * refused if the task was modified since the caller last read it. Moving
+     * a task to doing is refused while any of its blockers is still open.
+     */
+    function update(id, changes, { expectedUpdatedAt } = {}) {
+        return transact(tasks => {
+            const task = tasks.find(t => t.id === id);
+            if (!task) throw new TaskStoreError('not-found', `Task ${id} not found`);
+            if (expectedUpdatedAt && task.updatedAt && task.updatedAt !== expectedUpdatedAt) {
+                throw new TaskStoreError('update-conflict', `Task ${id} was modified at ${task.updatedAt}`, task);
+            }
+            const blockers = changes.status === 'doing' && task.status !== 'doing' ? openBlockers(tasks, task) : [];
+            if (blockers.length > 0) {
+                throw new TaskStoreError('blocked', `Task ${id} is blocked by ${blockers.map(b => b.id).join(', ')}`, task);
+            }
+            Object.assign(task, changes, { updatedAt: new Date().toISOString() });
+            return task;
+        });
+    }
+
+    function remove(id) {
+        return transact(tasks => {
+            const idx = tasks.findIndex(t => t.id === id);
+            if (idx === -1) return null;
+            const [removed] = tasks.splice(idx, 1);
+            return removed;
+        });
+    }
+
+    /**
+     * Replace the whole list (bulk import / full-board saves). Always
+     * compare-and-swap: the list must have been read at `expectedRevision`,
+     * otherwise tasks added or deleted since would be silently undone.
+     */
+    function replaceAll(incoming, { expectedRevision } = {}) {
+        if (expectedRevision == null) {
+            throw new TaskStoreError('revision-conflict', 'replaceAll needs the revision the list was read at');
+        }
+        return transact(() => ({ tasks: incoming }), { expectedRevision });
+    }
+
+    return { add, update, remove, replaceAll };
+}
+
+module.exports = { createTaskStore, taskOperations, recordStatusChanges, TaskStoreError };
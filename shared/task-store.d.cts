@@ -0,0 +1,66 @@
+// Type declarations for task-store.cjs (consumed by the MCP server)
+
+export interface StatusChange {
+    status: string;
+    /** ISO timestamp of the move */
+    at: string;
+    /** Store writer that made it ('electron', 'mcp', ...) */
+    by: string;
+}
+
+export interface StoredTask {
+    id: string;
+    updatedAt?: string;
+    status?: string;
+    /** Appended by the store whenever the task is created or changes column */
+    statusHistory?: StatusChange[];
+}
+
+export type TaskStoreErrorCode =
+    | 'lock-timeout'
+    | 'revision-conflict'
+    | 'update-conflict'
+    | 'blocked'
+    | 'not-found'
+    | 'duplicate';
+
+export declare class TaskStoreError extends Error {
+    code: TaskStoreErrorCode;
+    /** Stored copy of the task for `update-conflict` and `blocked` errors */
+    current?: StoredTask;
+}
+
+export interface TransactResult<R> {
+    revision: number;
+    result: R;
+    changed: boolean;
+}
+
+export interface TaskStore<T extends StoredTask> {
+    readonly kind: 'json' | 'sqlite';
+    /** tasks.json (the snapshot for the JSON store, an exported view for SQLite) */
+    readonly file: string;
+    load(): T[];
+    revision(): number;
+    replay(): T[];
+    transact<R>(mutate: (tasks: T[]) => R, options?: { expectedRevision?: number }): TransactResult<R>;
+    add(task: T): TransactResult<T>;
+    update(id: string, changes: Partial<T>, options?: { expectedUpdatedAt?: string }): TransactResult<T>;
+    remove(id: string): TransactResult<T | null>;
+    /** Compare-and-swap: fails with `revision-conflict` unless the store is still at `expectedRevision` */
+    replaceAll(tasks: T[], options: { expectedRevision: number }): TransactResult<{ tasks: T[] }>;
+    compact(): { revision: number; tasks: number };
+    close?(): void;
+}
+
+/** The JSON store also exposes its lock and journal to the SQLite store sharing tasks.json */
+export interface JsonTaskStore<T extends StoredTask> extends TaskStore<T> {
+    readonly kind: 'json';
+    readonly journalFile: string;
+    withLock<R>(fn: () => R): R;
+    readJournal(): Array<{ rev: number; ts: string; writer: string; op: 'put' | 'delete' | 'snapshot'; task?: T; id?: string; tasks?: T[] }>;
+    /** Overwrite tasks.json and collapse the journal into it (caller holds the lock) */
+    resetLocked(tasks: T[], rev: number): void;
+}
+
+export declare function createTaskStore<T extends StoredTask>(options: { file: string; writer?: string }): JsonTaskStore<T>;
@@ -0,0 +1,30 @@
+// ═══════════════════════════════════════════════════════════════
+// KaizenTerm — Task helpers shared by the store, sync and trackers
+// ═══════════════════════════════════════════════════════════════
+
+let idSeq = 0;
+
+/** Same KZ-<base36 time> shape as the MCP server, plus a counter for batch imports */
+function genTaskId() {
+    return `KZ-${Date.now().toString(36).toUpperCase()}${(idSeq++ % 36).toString(36).toUpperCase()}`;
+}
+
+/** A task's external tracker link; tasks from before externalRef only carry jiraKey */
+function externalRefOf(task) {
+    if (task.externalRef?.provider && task.externalRef.key) return task.externalRef;
+    if (task.jiraKey) return { provider: 'jira', key: task.jiraKey };
+    return null;
+}
+
+function isLinkedTo(task, provider, key) {
+    const ref = externalRefOf(task);
+    return !!ref && ref.provider === provider && ref.key === key;
+}
+
+/** Blockers of a task that are not done yet (unknown IDs count as resolved) */
+function openBlockers(tasks, task) {
+    const ids = new Set(task.blockedBy || []);
+    return tasks.filter(t => ids.has(t.id) && t.status !== 'done');
+}
+
+module.exports = { genTaskId, externalRefOf, isLinkedTo, openBlockers };
@@ -0,0 +1,15 @@
+// Type declarations for task-utils.cjs
+
+export interface ExternalRef {
+    provider: string;
+    key: string;
+    url?: string;
+}
+
+export declare function genTaskId(): string;
+
+export declare function externalRefOf(task: { externalRef?: ExternalRef; jiraKey?: string }): ExternalRef | null;
+
+export declare function isLinkedTo(task: { externalRef?: ExternalRef; jiraKey?: string }, provider: string, key: string): boolean;
+
+export declare function openBlockers<T extends { id: string; status?: string }>(tasks: T[], task: { blockedBy?: string[] }): T[];
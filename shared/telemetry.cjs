@@ -0,0 +1,150 @@
+// ═══════════════════════════════════════════════════════════════
+// KaizenTerm — Session Telemetry
+// ═══════════════════════════════════════════════════════════════
+//
+// Typed session events, one JSON object per line in
+// ~/.kaizen-term/session.jsonl:
+//
+//   {"ts":"2025-01-01T12:00:00.000Z","type":"agent.exited","agentId":"term-1","exitCode":0}
+//
+// When the file would grow past `maxBytes` it is renamed to session.1.jsonl
+// (session.1 → session.2, ...) and the oldest beyond `maxFiles` is dropped,
+// so a write never has to read the log back.
+//
+// formatEvent() renders an event in the old session.log line format
+// (`[ts] EXIT term-1 CODE=0`) for the text views.
+
+const fs = require('fs');
+const path = require('path');
+
+const SESSION_FILE = 'session.jsonl';
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+// type → text rendering; the keys are the whole event schema
+const EVENT_FORMATS = {
+    'agent.spawned': e => `SPAWN ${e.agentId} PID=${e.pid} CWD=${e.cwd}`,
+    'agent.reattached': e => `REATTACH ${e.agentId} PID=${e.pid}`,
+    'agent.spawn_failed': e => `SPAWN_FAIL ${e.agentId} ERROR=${e.error}`,
+    'agent.exited': e => `EXIT ${e.agentId} CODE=${e.exitCode}`,
+    'agent.killed': e => `KILL ${e.agentId}`,
+    'agent.resource_alert': e => `RESOURCE_ALERT ${e.agentId} ${String(e.kind).toUpperCase()}=${e.value}`,
+    'agent.budget_exceeded': e => `BUDGET ${e.agentId} ${String(e.limit).toUpperCase()} ACTION=${e.action}`,
+    'agent.requested': e => `MCP_SPAWN ${e.agentId}${e.taskId ? ` TASK=${e.taskId}` : ''}${e.command ? ` CMD=${e.command}` : ''}`,
+    'terminal.input': e => `MCP_WRITE ${e.agentId} BYTES=${e.bytes}`,
+    'task.transitioned': e => `TASK_MOVE ${e.taskId} ${e.from || '(new)'} → ${e.to}${e.by ? ` BY=${e.by}` : ''}`,
+    'task.updated': e => `TASK_UPDATE ${e.taskId} ${JSON.stringify(e.changes || {})}`,
+    'task.auto_completed': e => `AUTO_COMPLETE ${e.taskId} AGENT=${e.agentId}${e.to ? ` TO=${e.to}` : ''}`,
+    'task.reviewed': e => `REVIEW ${e.taskId} ${String(e.verdict).toUpperCase()}${e.agentId ? ` AGENT=${e.agentId}` : ''}`,
+    'tracker.synced': e => `${String(e.provider).toUpperCase()}_SYNC CREATED=${e.created} PULLED=${e.pulled} PUSHED=${e.pushed} CONFLICTS=${e.conflicts}`,
+    'tracker.conflict_resolved': e => `${String(e.provider).toUpperCase()}_RESOLVE ${e.taskId} KEEP=${e.keep}`,
+    'mcp.started': e => `MCP START ${e.name}: ${[e.command, ...(e.args || [])].join(' ')}`,
+    'mcp.stopped': e => `MCP STOP ${e.name}`,
+    'ai.request': e => `AI_REQUEST ${e.provider}/${e.model}${e.source ? ` SOURCE=${e.source}` : ''}`,
+    'timer.cycle': e => `FOCUS_CYCLE CYCLES=${e.cycles}`,
+    'report.generated': e => `REPORT ${e.period} FILE=${e.file}`,
+    'app.quit': () => 'APP_QUIT',
+};
+
+const EVENT_TYPES = Object.keys(EVENT_FORMATS);
+
+function isEventType(type) {
+    return Object.prototype.hasOwnProperty.call(EVENT_FORMATS, type);
+}
+
+/** `[ts] SPAWN term-1 PID=...` — the pre-JSONL session.log line */
+function formatEvent(event) {
+    const format = EVENT_FORMATS[event.type];
+    return `[${event.ts}] ${format ? format(event) : event.type}`;
+}
+
+function parseLines(content) {
+    const events = [];
+    for (const line of content.split('\n')) {
+        if (!line) continue;
+        try {
+            const e = JSON.parse(line);
+            if (e && typeof e.type === 'string' && typeof e.ts === 'string') events.push(e);
+        } catch { /* torn or foreign line */ }
+    }
+    return events;
+}
+
+function toMillis(value) {
+    if (value == null) return null;
+    return typeof value === 'number' ? value : Date.parse(value);
+}
+
+/**
+ * @param {{ dir: string, maxBytes?: number, maxFiles?: number }} options
+ */
+function createTelemetry({ dir, maxBytes = DEFAULT_MAX_BYTES, maxFiles = DEFAULT_MAX_FILES }) {
+    const file = path.join(dir, SESSION_FILE);
+    const rotatedFile = n => path.join(dir, SESSION_FILE.replace(/\.jsonl$/, `.${n}.jsonl`));
+
+    function rotate() {
+        try { fs.unlinkSync(rotatedFile(maxFiles)); } catch { }
+        for (let n = maxFiles - 1; n >= 1; n--) {
+            try { fs.renameSync(rotatedFile(n), rotatedFile(n + 1)); } catch { }
+        }
+        try { fs.renameSync(file, rotatedFile(1)); } catch { }
+    }
+
+    /**
+     * Append one event. Telemetry must never break the caller, so I/O
+     * errors are swallowed; an unknown type is a programming error and throws.
+     */
+    function record(type, fields = {}) {
+        if (!isEventType(type)) throw new Error(`Unknown session event type "${type}"`);
+        const event = { ts: new Date().toISOString(), type, ...fields };
+        const line = JSON.stringify(event) + '\n';
+        try {
+            fs.mkdirSync(dir, { recursive: true });
+            let size = 0;
+            try { size = fs.statSync(file).size; } catch { }
+            if (size > 0 && size + Buffer.byteLength(line) > maxBytes) rotate();
+            fs.appendFileSync(file, line);
+        } catch { }
+        return event;
+    }
+
+    /** Current file first, then session.1, session.2, ... */
+    function files() {
+        const list = [file];
+        for (let n = 1; n <= maxFiles; n++) list.push(rotatedFile(n));
+        return list;
+    }
+
+    /**
+     * Events oldest → newest. `since` / `until` take epoch ms or ISO strings;
+     * `limit` keeps the most recent matches. Rotated files entirely older than
+     * `since` are not read.
+     */
+    function query({ types, agentId, taskId, since, until, limit } = {}) {
+        const from = toMillis(since);
+        const to = toMillis(until);
+        const typeSet = types?.length ? new Set(types) : null;
+        const chunks = [];
+        for (const f of files()) {
+            let content;
+            try { content = fs.readFileSync(f, 'utf-8'); } catch { continue; }
+            const events = parseLines(content);
+            chunks.unshift(events.filter(e => {
+                if (typeSet && !typeSet.has(e.type)) return false;
+                if (agentId && e.agentId !== agentId) return false;
+                if (taskId && e.taskId !== taskId) return false;
+                const at = Date.parse(e.ts);
+                if (from != null && at < from) return false;
+                if (to != null && at >= to) return false;
+                return true;
+            }));
+            if (from != null && events.length > 0 && Date.parse(events[0].ts) < from) break;
+        }
+        const all = chunks.flat();
+        return limit ? all.slice(-limit) : all;
+    }
+
+    return { file, record, query };
+}
+
+module.exports = { createTelemetry, formatEvent, isEventType, EVENT_TYPES, SESSION_FILE };
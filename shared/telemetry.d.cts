@@ -0,0 +1,65 @@
+// Type declarations for telemetry.cjs
+
+export interface SessionEventFields {
+    'agent.spawned': { agentId: string; pid: number; cwd: string };
+    /** A pane reconnected to a shell the PTY host kept running across a restart */
+    'agent.reattached': { agentId: string; pid: number };
+    'agent.spawn_failed': { agentId: string; error: string };
+    'agent.exited': { agentId: string; exitCode: number };
+    'agent.killed': { agentId: string };
+    /** rss in bytes for memory, percent of one core for cpu */
+    'agent.resource_alert': { agentId: string; kind: 'memory' | 'cpu'; value: number };
+    'agent.budget_exceeded': { agentId: string; limit: 'runtime' | 'idle' | 'output'; action: 'kill' | 'pause' };
+    /** An agent pane requested over the MCP command channel */
+    'agent.requested': { agentId: string; taskId?: string; command?: string };
+    'terminal.input': { agentId: string; bytes: number };
+    'task.transitioned': { taskId: string; from?: string; to: string; by?: string };
+    'task.updated': { taskId: string; changes: Record<string, unknown> };
+    /** A completion rule moved the card when its agent finished; `to` is the column */
+    'task.auto_completed': { taskId: string; agentId: string; to?: string };
+    /** Verdict from the task drawer's review panel */
+    'task.reviewed': { taskId: string; verdict: 'approved' | 'changes_requested'; agentId?: string };
+    'tracker.synced': { provider: string; created: number; pulled: number; pushed: number; conflicts: number };
+    'tracker.conflict_resolved': { provider: string; taskId: string; keep: string };
+    'mcp.started': { name: string; command: string; args?: string[] };
+    'mcp.stopped': { name: string };
+    'ai.request': { provider: string; model: string; source?: string };
+    'timer.cycle': { cycles: number };
+    'report.generated': { period: string; file: string };
+    'app.quit': Record<string, never>;
+}
+
+export type SessionEventType = keyof SessionEventFields;
+
+export type SessionEvent = {
+    [K in SessionEventType]: { ts: string; type: K } & SessionEventFields[K];
+}[SessionEventType];
+
+export interface SessionEventQuery {
+    types?: SessionEventType[];
+    agentId?: string;
+    taskId?: string;
+    /** Epoch ms or ISO timestamp, inclusive */
+    since?: number | string;
+    /** Epoch ms or ISO timestamp, exclusive */
+    until?: number | string;
+    /** Keep only the most recent matches */
+    limit?: number;
+}
+
+export interface Telemetry {
+    /** Path of the current (unrotated) JSONL file */
+    file: string;
+    record<K extends SessionEventType>(type: K, fields?: SessionEventFields[K]): SessionEvent;
+    query(filter?: SessionEventQuery): SessionEvent[];
+}
+
+export declare const EVENT_TYPES: SessionEventType[];
+
+export declare const SESSION_FILE: string;
+
+export declare function createTelemetry(options: { dir: string; maxBytes?: number; maxFiles?: number }): Telemetry;
+
+export declare function formatEvent(event: SessionEvent): string;
+
+export declare function isEventType(type: string): type is SessionEventType;
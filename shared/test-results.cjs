@@ -0,0 +1,306 @@
+// ═══════════════════════════════════════════════════════════════
+// KaizenTerm — Test Result Ingestion
+// ═══════════════════════════════════════════════════════════════
+//
+// Turns what a test runner left behind into pass / fail / skip counts and
+// the names of the failing tests. Two places are looked at:
+//
+//   report files   JUnit XML, TAP (.tap) and Jest / Vitest JSON written
+//                  inside the agent's cwd (a few levels deep)
+//   PTY output     a TAP stream, `jest --json` / `vitest --reporter=json`
+//                  printed to the terminal, or the runner's `Tests:` summary
+//
+// Report files win: a run that writes a report usually prints a summary of
+// the same tests too. Shared by the Electron tests:collect IPC (completion
+// rules, card badge) and the MCP get_test_results tool.
+
+const fs = require('fs');
+const path = require('path');
+
+const MAX_DEPTH = 3;
+const MAX_ENTRIES = 5000;
+const MAX_REPORT_BYTES = 20 * 1024 * 1024;
+const MAX_FAILURES = 50;
+const MAX_MESSAGE_CHARS = 500;
+const SKIP_DIRS = new Set(['node_modules', '.git', '.hg', '.svn', '.venv', 'venv', '__pycache__', '.cache', '.next', 'target', 'vendor']);
+// Names test reporters use by default (junit.xml, TEST-*.xml, test-results.json, report.tap, ...)
+const REPORT_NAME_RE = /(junit|test|spec|report|result)/i;
+
+function trimMessage(text) {
+    const message = String(text || '').trim();
+    return message.length > MAX_MESSAGE_CHARS ? `${message.slice(0, MAX_MESSAGE_CHARS)}…` : message;
+}
+
+function run(format, source, counts, failures) {
+    const { passed = 0, failed = 0, skipped = 0 } = counts;
+    return { format, source, passed, failed, skipped, total: counts.total ?? passed + failed + skipped, failures };
+}
+
+// ─── JUnit XML ───────────────────────────────────────────────────────────────
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXml(text) {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, e) => {
+        if (e[0] === '#') return String.fromCodePoint(e[1].toLowerCase() === 'x' ? parseInt(e.slice(2), 16) : Number(e.slice(1)));
+        return ENTITIES[e] ?? m;
+    });
+}
+
+function xmlAttrs(tag) {
+    const attrs = {};
+    for (const m of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) attrs[m[1]] = decodeXml(m[2] ?? m[3]);
+    return attrs;
+}
+
+/** JUnit / xUnit XML (Jest, Vitest, pytest, Maven Surefire, go-junit-report, ...); null if it isn't one */
+function parseJUnitXml(xml, source = 'junit') {
+    if (!/<testsuites?[\s>]/.test(xml)) return null;
+    const counts = { passed: 0, failed: 0, skipped: 0 };
+    const failures = [];
+    let cases = 0;
+    for (const m of xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+        cases++;
+        const attrs = xmlAttrs(m[1]);
+        const body = m[2] || '';
+        const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+        if (failure) {
+            counts.failed++;
+            if (failures.length < MAX_FAILURES) {
+                const detail = xmlAttrs(failure[2]);
+                const text = decodeXml((failure[3] || '').replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1'));
+                failures.push({
+                    name: [attrs.classname, attrs.name].filter(Boolean).join(' › ') || '(unnamed test)',
+                    message: trimMessage(detail.message || text.split('\n')[0]),
+                });
+            }
+        } else if (/<skipped\b/.test(body)) {
+            counts.skipped++;
+        } else {
+            counts.passed++;
+        }
+    }
+    if (cases === 0) {
+        // Summary-only reports: add up the <testsuite> counters
+        let total = 0;
+        for (const m of xml.matchAll(/<testsuite\b([^>]*)>/g)) {
+            const attrs = xmlAttrs(m[1]);
+            const failed = (Number(attrs.failures) || 0) + (Number(attrs.errors) || 0);
+            const skipped = Number(attrs.skipped ?? attrs.disabled) || 0;
+            total += Number(attrs.tests) || 0;
+            counts.failed += failed;
+            counts.skipped += skipped;
+        }
+        counts.passed = Math.max(0, total - counts.failed - counts.skipped);
+    }
+    return run('junit', source, counts, failures);
+}
+
+// ─── TAP ─────────────────────────────────────────────────────────────────────
+
+const TAP_LINE_RE = /^(\s*)(not ok|ok)\b\s*(\d+)?\s*(?:-\s*)?([^#]*?)\s*(?:#\s*(SKIP|TODO|skip|todo)\b.*)?$/;
+// Plan, comments, YAML diagnostics and subtests — anything that can sit inside a stream
+const TAP_CONTEXT_RE = /^(\s+\S|\s*$|\s*#|1\.\.\d+|TAP version \d+|Bail out!)/;
+
+/** A TAP stream (tape, node:test, prove, bats, ...); null without any test points */
+function parseTap(text, source = 'tap') {
+    const lines = text.split(/\r?\n/);
+    const points = [];
+    for (const line of lines) {
+        const m = line.match(TAP_LINE_RE);
+        if (m) points.push({ indent: m[1].length, ok: m[2] === 'ok', name: m[4] || `test ${m[3] || points.length + 1}`, directive: (m[5] || '').toUpperCase() });
+    }
+    if (points.length === 0) return null;
+    // Subtests are indented under their parent; count the outermost level
+    const level = Math.min(...points.map(p => p.indent));
+    const top = points.filter(p => p.indent === level);
+    const counts = { passed: 0, failed: 0, skipped: 0 };
+    const failures = [];
+    for (const p of top) {
+        if (p.directive) counts.skipped++;
+        else if (p.ok) counts.passed++;
+        else {
+            counts.failed++;
+            if (failures.length < MAX_FAILURES) failures.push({ name: p.name });
+        }
+    }
+    // Failing subtests name the actual assertion; prefer them to the suite name
+    const nested = points.filter(p => p.indent > level && !p.ok && !p.directive);
+    if (nested.length > 0) failures.splice(0, failures.length, ...nested.slice(0, MAX_FAILURES).map(p => ({ name: p.name })));
+    // The tape / node:test footer counts are authoritative when the runner prints them
+    const footer = word => text.match(new RegExp(`^# ${word}\\s+(\\d+)`, 'm'))?.[1];
+    if (footer('pass') != null || footer('fail') != null) {
+        counts.passed = Number(footer('pass') || 0);
+        counts.failed = Number(footer('fail') || 0);
+        counts.skipped = Number(footer('skip(?:ped)?') || 0) + Number(footer('todo') || 0);
+    }
+    return run('tap', source, counts, failures);
+}
+
+// ─── Jest / Vitest JSON ──────────────────────────────────────────────────────
+
+/** `jest --json` / `vitest --reporter=json` output (same shape); null if it isn't one */
+function parseJestJson(input, source = 'jest') {
+    let report = input;
+    if (typeof input === 'string') {
+        try { report = JSON.parse(input); } catch { return null; }
+    }
+    if (!report || typeof report.numTotalTests !== 'number') return null;
+    const failures = [];
+    for (const file of report.testResults || []) {
+        for (const t of file.assertionResults || []) {
+            if (t.status !== 'failed' || failures.length >= MAX_FAILURES) continue;
+            failures.push({
+                name: t.fullName || [...(t.ancestorTitles || []), t.title].join(' › '),
+                message: trimMessage(String((t.failureMessages || [])[0] || '').replace(/\x1b\[[0-9;]*m/g, '').split('\n')[0]),
+                ...(file.name ? { file: file.name } : {}),
+            });
+        }
+        // A suite that failed to load has no assertions, only a message
+        if (file.status === 'failed' && !(file.assertionResults || []).length && failures.length < MAX_FAILURES) {
+            failures.push({ name: file.name || '(test file)', message: trimMessage(String(file.message || '').replace(/\x1b\[[0-9;]*m/g, '').split('\n')[0]) });
+        }
+    }
+    return run('jest', source, {
+        passed: report.numPassedTests || 0,
+        failed: report.numFailedTests || 0,
+        skipped: (report.numPendingTests || 0) + (report.numTodoTests || 0),
+        total: report.numTotalTests,
+    }, failures);
+}
+
+// ─── PTY output ──────────────────────────────────────────────────────────────
+
+/**
+ * The last test run printed in `lines` (PTY text, ANSI stripped): a Jest /
+ * Vitest JSON line, a TAP stream, or the runner's summary line. Null when
+ * the output holds none of them.
+ */
+function parseTestOutput(lines) {
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const line = lines[i].trim();
+
+        if (line.startsWith('{') && line.includes('"numTotalTests"')) {
+            const parsed = parseJestJson(line, 'terminal');
+            if (parsed) return parsed;
+        }
+
+        // Jest: "Tests:       1 failed, 2 skipped, 12 passed, 15 total"
+        // Vitest: "Tests  1 failed | 12 passed | 2 skipped (15)"
+        const summary = line.match(/^Tests:?\s+(.*\d+ (?:passed|failed).*)$/);
+        if (summary) {
+            const count = word => Number(summary[1].match(new RegExp(`(\\d+) ${word}`))?.[1] || 0);
+            return run(/\|/.test(summary[1]) || /\(\d+\)\s*$/.test(summary[1]) ? 'vitest' : 'jest', 'terminal', {
+                passed: count('passed'),
+                failed: count('failed'),
+                skipped: count('skipped') + count('todo'),
+            }, []);
+        }
+
+        // The end of a TAP stream: its plan or the tape / node:test footer
+        if (/^1\.\.\d+/.test(line) || /^# (pass|fail)\s+\d+/.test(line)) {
+            let start = i;
+            while (start > 0 && !/^TAP version \d+/.test(lines[start]) && (TAP_LINE_RE.test(lines[start - 1]) || TAP_CONTEXT_RE.test(lines[start - 1]))) start--;
+            let end = i;
+            while (end + 1 < lines.length && /^#\s/.test(lines[end + 1])) end++;
+            const parsed = parseTap(lines.slice(start, end + 1).join('\n'), 'terminal');
+            if (parsed) return parsed;
+        }
+    }
+    return null;
+}
+
+// ─── Report files ────────────────────────────────────────────────────────────
+
+/** Candidate report files under cwd, modified at or after `since` (epoch ms) */
+async function findTestReports(cwd, { since = 0, maxDepth = MAX_DEPTH } = {}) {
+    const found = [];
+    let seen = 0;
+    async function walk(dir, depth) {
+        let entries;
+        try { entries = await fs.promises.readdir(dir, { withFileTypes: true }); } catch { return; }
+        for (const entry of entries) {
+            if (++seen > MAX_ENTRIES) return;
+            const full = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (depth < maxDepth && !SKIP_DIRS.has(entry.name) && !entry.name.startsWith('.')) await walk(full, depth + 1);
+                continue;
+            }
+            const ext = path.extname(entry.name).toLowerCase();
+            if (!entry.isFile() || !['.xml', '.tap', '.json'].includes(ext)) continue;
+            if (ext !== '.tap' && !REPORT_NAME_RE.test(entry.name)) continue;
+            try {
+                const stat = await fs.promises.stat(full);
+                if (stat.mtimeMs >= since && stat.size <= MAX_REPORT_BYTES) found.push({ file: full, mtimeMs: stat.mtimeMs });
+            } catch { }
+        }
+    }
+    await walk(cwd, 0);
+    return found.sort((a, b) => b.mtimeMs - a.mtimeMs);
+}
+
+/** Parse one report file by extension; null when it isn't a test report after all */
+async function parseReportFile(file) {
+    const text = await fs.promises.readFile(file, 'utf8');
+    const ext = path.extname(file).toLowerCase();
+    if (ext === '.xml') return parseJUnitXml(text, file);
+    if (ext === '.tap') return parseTap(text, file);
+    return text.includes('"numTotalTests"') ? parseJestJson(text, file) : null;
+}
+
+// ─── Collect ─────────────────────────────────────────────────────────────────
+
+/**
+ * Everything found for one agent run: report files in `cwd` written since
+ * `since`, or, when there are none, the last run printed in `lines`.
+ * Counts are summed over the runs; null when no test results were found.
+ *
+ * A runner with several reporters leaves the same tests in more than one
+ * format (junit.xml next to Jest JSON), so each directory contributes only
+ * the format of its newest report. Files of that format are still summed:
+ * Gradle writes one TEST-*.xml per test class.
+ */
+async function collectTestResults({ cwd, lines = [], since = 0 } = {}) {
+    const runs = [];
+    if (cwd) {
+        const formatByDir = new Map(); // dir → format of its newest report
+        for (const { file } of await findTestReports(cwd, { since })) {
+            const parsed = await parseReportFile(file).catch(() => null);
+            if (!parsed) continue;
+            const dir = path.dirname(file);
+            if (!formatByDir.has(dir)) formatByDir.set(dir, parsed.format);
+            if (formatByDir.get(dir) === parsed.format) runs.push(parsed);
+        }
+    }
+    if (runs.length === 0) {
+        const printed = parseTestOutput(lines);
+        if (printed) runs.push(printed);
+    }
+    if (runs.length === 0) return null;
+
+    const sum = key => runs.reduce((n, r) => n + r[key], 0);
+    return {
+        passed: sum('passed'),
+        failed: sum('failed'),
+        skipped: sum('skipped'),
+        total: sum('total'),
+        failures: runs.flatMap(r => r.failures).slice(0, MAX_FAILURES),
+        runs: runs.map(({ failures, ...r }) => ({ ...r, source: cwd && r.source.startsWith(cwd) ? path.relative(cwd, r.source) : r.source })),
+        collectedAt: new Date().toISOString(),
+    };
+}
+
+/** `12 passed, 1 failed, 2 skipped` */
+function formatTestCounts(results) {
+    return `${results.passed} passed, ${results.failed} failed${results.skipped ? `, ${results.skipped} skipped` : ''}`;
+}
+
+module.exports = {
+    parseJUnitXml,
+    parseTap,
+    parseJestJson,
+    parseTestOutput,
+    findTestReports,
+    collectTestResults,
+    formatTestCounts,
+};
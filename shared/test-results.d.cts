@@ -0,0 +1,50 @@
+// Type declarations for test-results.cjs
+
+export type TestFormat = 'junit' | 'tap' | 'jest' | 'vitest';
+
+export interface TestFailure {
+    /** Suite and test name, e.g. "math › adds" */
+    name: string;
+    /** First line of the assertion message */
+    message?: string;
+    /** Test file, when the report names it */
+    file?: string;
+}
+
+export interface TestRun {
+    format: TestFormat;
+    /** Report file path, or 'terminal' for output printed to the PTY */
+    source: string;
+    passed: number;
+    failed: number;
+    skipped: number;
+    total: number;
+    failures: TestFailure[];
+}
+
+export interface TestResults {
+    passed: number;
+    failed: number;
+    skipped: number;
+    total: number;
+    failures: TestFailure[];
+    /** Where the counts came from; report paths are relative to the cwd */
+    runs: Omit<TestRun, 'failures'>[];
+    /** ISO 8601 */
+    collectedAt: string;
+}
+
+export declare function parseJUnitXml(xml: string, source?: string): TestRun | null;
+
+export declare function parseTap(text: string, source?: string): TestRun | null;
+
+export declare function parseJestJson(input: string | object, source?: string): TestRun | null;
+
+export declare function parseTestOutput(lines: string[]): TestRun | null;
+
+export declare function findTestReports(cwd: string, options?: { since?: number; maxDepth?: number }): Promise<{ file: string; mtimeMs: number }[]>;
+
+export declare function collectTestResults(options: { cwd?: string; lines?: string[]; since?: number }): Promise<TestResults | null>;
+
+/** `12 passed, 1 failed, 2 skipped` */
+export declare function formatTestCounts(results: { passed: number; failed: number; skipped: number }): string;
@@ -0,0 +1,105 @@
+// ═══════════════════════════════════════════════════════════════
+// Tracker: GitHub Issues (REST v3)
+// ═══════════════════════════════════════════════════════════════
+//
+// Keys look like `owner/name#123`. Open issues map to backlog unless they
+// carry one of the status labels; closed issues are done.
+
+const DEFAULT_STATUS_LABELS = {
+    doing: 'in progress',
+    review: 'in review',
+};
+
+function createGitHubTracker({ repo, token = process.env.GITHUB_TOKEN, apiUrl = 'https://api.github.com', statusLabels, fetchImpl = fetch } = {}) {
+    if (!repo) throw new Error('GitHub tracker needs "repo": "owner/name" under "github" in ~/.kaizen-term/trackers.json');
+    const root = apiUrl.replace(/\/+$/, '');
+    const labelFor = { ...DEFAULT_STATUS_LABELS, ...statusLabels };
+    const statusLabelNames = Object.values(labelFor).map(l => l.toLowerCase());
+
+    const headers = {
+        Accept: 'application/vnd.github+json',
+        'Content-Type': 'application/json',
+        'User-Agent': 'kaizen-term',
+    };
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    async function request(method, pathname, body) {
+        const res = await fetchImpl(root + pathname, {
+            method,
+            headers,
+            body: body ? JSON.stringify(body) : undefined,
+        });
+        if (!res.ok) {
+            const text = await res.text().catch(() => '');
+            throw new Error(`GitHub ${method} ${pathname} failed: ${res.status} ${text.slice(0, 200)}`);
+        }
+        return res.status === 204 ? null : res.json();
+    }
+
+    /** Accepts `owner/name#12`, `#12` or `12` */
+    function issueNumber(key) {
+        const match = String(key).match(/(?:^|#)(\d+)$/);
+        if (!match) throw new Error(`Not a GitHub issue key: ${key}`);
+        return match[1];
+    }
+
+    function labelNames(raw) {
+        return (raw.labels || []).map(l => (typeof l === 'string' ? l : l.name));
+    }
+
+    function toIssue(raw) {
+        const labels = labelNames(raw);
+        const lower = labels.map(l => l.toLowerCase());
+        let status = 'backlog';
+        if (raw.state === 'closed') status = 'done';
+        else {
+            for (const [kaizenStatus, label] of Object.entries(labelFor)) {
+                if (lower.includes(label.toLowerCase())) status = kaizenStatus;
+            }
+        }
+        return {
+            key: `${repo}#${raw.number}`,
+            title: raw.title,
+            description: raw.body || '',
+            status,
+            priority: 'medium',
+            url: raw.html_url,
+            labels,
+        };
+    }
+
+    async function list({ query, limit = 30 } = {}) {
+        if (query) {
+            const q = new URLSearchParams({ q: `repo:${repo} is:issue ${query}`, per_page: String(limit) });
+            const res = await request('GET', `/search/issues?${q}`);
+            return (res.items || []).map(toIssue);
+        }
+        const raw = await request('GET', `/repos/${repo}/issues?state=open&per_page=${limit}`);
+        // The issues endpoint also returns pull requests
+        return raw.filter(i => !i.pull_request).map(toIssue);
+    }
+
+    async function get(key) {
+        return toIssue(await request('GET', `/repos/${repo}/issues/${issueNumber(key)}`));
+    }
+
+    async function pushStatus(key, status) {
+        const n = issueNumber(key);
+        const raw = await request('GET', `/repos/${repo}/issues/${n}`);
+        const labels = labelNames(raw).filter(l => !statusLabelNames.includes(l.toLowerCase()));
+        if (labelFor[status]) labels.push(labelFor[status]);
+        const updated = await request('PATCH', `/repos/${repo}/issues/${n}`, {
+            state: status === 'done' ? 'closed' : 'open',
+            labels,
+        });
+        return toIssue(updated);
+    }
+
+    async function comment(key, body) {
+        await request('POST', `/repos/${repo}/issues/${issueNumber(key)}/comments`, { body });
+    }
+
+    return { id: 'github', list, get, pushStatus, comment };
+}
+
+module.exports = { createGitHubTracker };
@@ -0,0 +1,122 @@
+// ═══════════════════════════════════════════════════════════════
+// KaizenTerm — Tracker Providers
+// ═══════════════════════════════════════════════════════════════
+//
+// Every external tracker implements the same adapter:
+//
+//   id                        'github' | 'linear' | 'jira'
+//   list({ query, limit })    open issues, or a provider-native search
+//   get(key)                  one issue
+//   pushStatus(key, status)   move the issue to match a Kaizen status
+//   comment(key, body)        post a comment
+//
+// Issues come back as { key, title, description, status, priority, url,
+// labels } with status / priority already in Kaizen terms. openTracker()
+// layers the task-side operations (import, link) on top, recording the
+// link as `externalRef: { provider, key, url }` on the task.
+//
+// Adapters take `apiUrl` and `fetchImpl`, so they can run against a
+// recorded-fixture HTTP stub instead of the real service.
+//
+// Credentials: ~/.kaizen-term/trackers.json ({ github: {...}, linear: {...} })
+// and ~/.kaizen-term/jira.json for Jira.
+
+const fs = require('fs');
+const path = require('path');
+const { genTaskId, externalRefOf, isLinkedTo } = require('../task-utils.cjs');
+const { loadJiraConfig } = require('../jira-sync.cjs');
+const { createGitHubTracker } = require('./github.cjs');
+const { createLinearTracker } = require('./linear.cjs');
+const { createJiraTracker } = require('./jira.cjs');
+
+const TRACKER_PROVIDERS = ['github', 'linear', 'jira'];
+
+function loadTrackerConfig(dir) {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(dir, 'trackers.json'), 'utf-8'));
+    } catch {
+        return {};
+    }
+}
+
+function createAdapter(provider, { dir, config, fetchImpl }) {
+    switch (provider) {
+        case 'github':
+            return createGitHubTracker({ ...(config ?? loadTrackerConfig(dir).github), fetchImpl });
+        case 'linear':
+            return createLinearTracker({ ...(config ?? loadTrackerConfig(dir).linear), fetchImpl });
+        case 'jira':
+            return createJiraTracker({ config: config ?? loadJiraConfig(dir), fetchImpl });
+        default:
+            throw new Error(`Unknown tracker "${provider}" (expected ${TRACKER_PROVIDERS.join(', ')})`);
+    }
+}
+
+function openTracker(provider, { dir, config, fetchImpl } = {}) {
+    const adapter = createAdapter(provider, { dir, config, fetchImpl });
+
+    function refFor(issue) {
+        return { provider: adapter.id, key: issue.key, url: issue.url };
+    }
+
+    /** Create tasks for issues (by key, or from list/search); already-linked issues are skipped */
+    async function importIssues(store, { query, keys, limit } = {}) {
+        const issues = keys?.length
+            ? await Promise.all(keys.map(k => adapter.get(k)))
+            : await adapter.list({ query, limit });
+
+        const imported = [];
+        const skipped = [];
+        store.transact(tasks => {
+            for (const issue of issues) {
+                const existing = tasks.find(t => isLinkedTo(t, adapter.id, issue.key));
+                if (existing) {
+                    skipped.push({ key: issue.key, taskId: existing.id });
+                    continue;
+                }
+                const now = new Date().toISOString();
+                const task = {
+                    id: genTaskId(),
+                    title: issue.title,
+                    description: issue.description,
+                    status: issue.status,
+                    priority: issue.priority,
+                    labels: [`${adapter.id}-import`],
+                    externalRef: refFor(issue),
+                    activity: [{ text: `Imported from ${adapter.id} ${issue.key}`, timestamp: Date.now() }],
+                    createdAt: now,
+                    updatedAt: now,
+                };
+                tasks.push(task);
+                imported.push({ key: issue.key, taskId: task.id, title: task.title });
+            }
+        });
+        return { imported, skipped };
+    }
+
+    /** Point an existing task at an issue (verifies the issue exists first) */
+    async function linkTask(store, taskId, key, { comment } = {}) {
+        const issue = await adapter.get(key);
+        const { result: task } = store.transact(tasks => {
+            const t = tasks.find(x => x.id === taskId);
+            if (!t) return null;
+            const previous = externalRefOf(t);
+            t.externalRef = refFor(issue);
+            // The legacy Jira field would otherwise keep pointing at the old issue
+            delete t.jiraKey;
+            t.activity = [...(t.activity || []), {
+                text: `Linked to ${adapter.id} ${issue.key}${previous ? ` (was ${previous.provider} ${previous.key})` : ''}`,
+                timestamp: Date.now(),
+            }];
+            t.updatedAt = new Date().toISOString();
+            return t;
+        });
+        if (!task) throw new Error(`Task ${taskId} not found`);
+        if (comment) await adapter.comment(issue.key, comment);
+        return { task, issue };
+    }
+
+    return { ...adapter, import: importIssues, link: linkTask };
+}
+
+module.exports = { openTracker, loadTrackerConfig, TRACKER_PROVIDERS };
@@ -0,0 +1,35 @@
+// Type declarations for trackers/index.cjs
+
+import type { StoredTask, TaskStore } from '../task-store.cjs';
+import type { ExternalRef } from '../task-utils.cjs';
+
+export type TrackerProviderId = 'github' | 'linear' | 'jira';
+
+export interface TrackerIssue {
+    key: string;
+    title: string;
+    description: string;
+    status: 'backlog' | 'doing' | 'review' | 'done';
+    priority: 'low' | 'medium' | 'high' | 'critical';
+    url: string;
+    labels: string[];
+}
+
+export interface TrackerProvider {
+    id: TrackerProviderId;
+    list(options?: { query?: string; limit?: number }): Promise<TrackerIssue[]>;
+    get(key: string): Promise<TrackerIssue>;
+    pushStatus(key: string, status: TrackerIssue['status']): Promise<TrackerIssue>;
+    comment(key: string, body: string): Promise<void>;
+    import<T extends StoredTask>(store: TaskStore<T>, options?: { query?: string; keys?: string[]; limit?: number }): Promise<{
+        imported: { key: string; taskId: string; title: string }[];
+        skipped: { key: string; taskId: string }[];
+    }>;
+    link<T extends StoredTask & { externalRef?: ExternalRef }>(store: TaskStore<T>, taskId: string, key: string, options?: { comment?: string }): Promise<{ task: T; issue: TrackerIssue }>;
+}
+
+export declare const TRACKER_PROVIDERS: TrackerProviderId[];
+
+export declare function loadTrackerConfig(dir: string): Record<string, any>;
+
+export declare function openTracker(provider: string, options?: { dir?: string; config?: any; fetchImpl?: typeof fetch }): TrackerProvider;
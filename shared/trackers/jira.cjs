@@ -0,0 +1,45 @@
+// ═══════════════════════════════════════════════════════════════
+// Tracker: Jira (REST, configured in ~/.kaizen-term/jira.json)
+// ═══════════════════════════════════════════════════════════════
+
+const { createJiraClient, transitionIssue } = require('../jira-sync.cjs');
+
+function createJiraTracker({ config, fetchImpl } = {}) {
+    if (!config?.baseUrl) throw new Error('Jira is not configured — add baseUrl, jql and credentials to ~/.kaizen-term/jira.json');
+    const client = createJiraClient({ ...config, fetchImpl });
+    const browseUrl = config.baseUrl.replace(/\/+$/, '') + '/browse/';
+
+    function toIssue(raw) {
+        const f = raw.fields || {};
+        return {
+            key: raw.key,
+            title: f.summary || raw.key,
+            description: typeof f.description === 'string' ? f.description : '',
+            status: config.statusMap[f.status?.name?.toLowerCase()] || 'backlog',
+            priority: config.priorityMap[f.priority?.name?.toLowerCase()] || 'medium',
+            url: browseUrl + raw.key,
+            labels: [],
+        };
+    }
+
+    async function list({ query, limit = 50 } = {}) {
+        const issues = await client.search(query || config.jql, { limit });
+        return issues.map(toIssue);
+    }
+
+    async function get(key) {
+        return toIssue(await client.getIssue(key));
+    }
+
+    async function pushStatus(key, status) {
+        return toIssue(await transitionIssue(client, config, key, status));
+    }
+
+    async function comment(key, body) {
+        await client.addComment(key, body);
+    }
+
+    return { id: 'jira', list, get, pushStatus, comment };
+}
+
+module.exports = { createJiraTracker };
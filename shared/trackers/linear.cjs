@@ -0,0 +1,127 @@
+// ═══════════════════════════════════════════════════════════════
+// Tracker: Linear (GraphQL)
+// ═══════════════════════════════════════════════════════════════
+//
+// Keys are Linear identifiers (`ENG-123`). Workflow states map by name
+// first (stateNames) and by state type otherwise.
+
+const DEFAULT_STATE_NAMES = {
+    backlog: 'Backlog',
+    doing: 'In Progress',
+    review: 'In Review',
+    done: 'Done',
+};
+
+const STATUS_BY_TYPE = {
+    triage: 'backlog',
+    backlog: 'backlog',
+    unstarted: 'backlog',
+    started: 'doing',
+    completed: 'done',
+    canceled: 'done',
+};
+
+const TYPE_BY_STATUS = {
+    backlog: ['backlog', 'unstarted'],
+    doing: ['started'],
+    review: ['started'],
+    done: ['completed'],
+};
+
+// Linear priority: 0 none, 1 urgent, 2 high, 3 medium, 4 low
+const PRIORITY = { 1: 'critical', 2: 'high', 3: 'medium', 4: 'low' };
+
+const ISSUE_FIELDS = 'id identifier title description url priority state { name type } labels { nodes { name } }';
+
+function createLinearTracker({ apiKey = process.env.LINEAR_API_KEY, teamId, apiUrl = 'https://api.linear.app/graphql', stateNames, fetchImpl = fetch } = {}) {
+    if (!apiKey) throw new Error('Linear tracker needs "apiKey" under "linear" in ~/.kaizen-term/trackers.json (or LINEAR_API_KEY)');
+    const names = { ...DEFAULT_STATE_NAMES, ...stateNames };
+
+    async function gql(query, variables = {}) {
+        const res = await fetchImpl(apiUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Authorization: apiKey },
+            body: JSON.stringify({ query, variables }),
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok || json.errors?.length) {
+            throw new Error(`Linear request failed: ${json.errors?.[0]?.message || res.status}`);
+        }
+        return json.data;
+    }
+
+    function statusOf(state) {
+        for (const [status, name] of Object.entries(names)) {
+            if (state?.name?.toLowerCase() === name.toLowerCase()) return status;
+        }
+        return STATUS_BY_TYPE[state?.type] || 'backlog';
+    }
+
+    function toIssue(raw) {
+        return {
+            key: raw.identifier,
+            title: raw.title,
+            description: raw.description || '',
+            status: statusOf(raw.state),
+            priority: PRIORITY[raw.priority] || 'medium',
+            url: raw.url,
+            labels: (raw.labels?.nodes || []).map(l => l.name),
+        };
+    }
+
+    async function list({ query, limit = 50 } = {}) {
+        if (query) {
+            const data = await gql(
+                `query($term: String!, $first: Int) { searchIssues(term: $term, first: $first) { nodes { ${ISSUE_FIELDS} } } }`,
+                { term: query, first: limit },
+            );
+            return data.searchIssues.nodes.map(toIssue);
+        }
+        const filter = { state: { type: { nin: ['completed', 'canceled'] } } };
+        if (teamId) filter.team = { id: { eq: teamId } };
+        const data = await gql(
+            `query($filter: IssueFilter, $first: Int) { issues(filter: $filter, first: $first) { nodes { ${ISSUE_FIELDS} } } }`,
+            { filter, first: limit },
+        );
+        return data.issues.nodes.map(toIssue);
+    }
+
+    async function getRaw(key) {
+        const data = await gql(`query($id: String!) { issue(id: $id) { ${ISSUE_FIELDS} } }`, { id: key });
+        if (!data.issue) throw new Error(`Linear issue ${key} not found`);
+        return data.issue;
+    }
+
+    async function get(key) {
+        return toIssue(await getRaw(key));
+    }
+
+    async function pushStatus(key, status) {
+        const data = await gql(
+            'query($id: String!) { issue(id: $id) { id team { states { nodes { id name type } } } } }',
+            { id: key },
+        );
+        const states = data.issue?.team?.states?.nodes || [];
+        const target = states.find(s => s.name.toLowerCase() === (names[status] || '').toLowerCase())
+            || states.find(s => (TYPE_BY_STATUS[status] || []).includes(s.type));
+        if (!target) throw new Error(`${key}: no Linear workflow state for "${status}"`);
+
+        await gql(
+            'mutation($id: String!, $stateId: String!) { issueUpdate(id: $id, input: { stateId: $stateId }) { success } }',
+            { id: data.issue.id, stateId: target.id },
+        );
+        return get(key);
+    }
+
+    async function comment(key, body) {
+        const { id } = await getRaw(key);
+        await gql(
+            'mutation($issueId: String!, $body: String!) { commentCreate(input: { issueId: $issueId, body: $body }) { success } }',
+            { issueId: id, body },
+        );
+    }
+
+    return { id: 'linear', list, get, pushStatus, comment };
+}
+
+module.exports = { createLinearTracker };
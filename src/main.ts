@@ -14,11 +14,14 @@ import { TerminalManager } from './modules/terminal-manager';
 import { KanbanBoard } from './modules/kanban';
 import { FocusTimer } from './modules/focus-timer';
 import { CommandPalette } from './modules/command-palette';
-import type { AppState, AgentConfig } from './modules/state';
-import { loadState, saveState, createAgent } from './modules/state';
+import type { AgentBudget, AgentConfig, AppState, KanbanTask, TaskTestResults, TaskWorktree } from './modules/state';
+import { loadState, saveState, createAgent, externalRefOf } from './modules/state';
 import { applyTheme, getThemeByName, THEMES } from './modules/themes';
 import { PluginManager } from './modules/plugin-api';
 import { CodebaseIndex } from './modules/codebase-index';
+import { RecordingPlayer } from './modules/recording-player';
+import { DiffPanel, renderDiff } from './modules/diff-panel';
+import { describeTestResults, evaluateCompletionRules, formatRules, parseRules, DEFAULT_COMPLETION_RULES } from './modules/completion-rules';
 
 class KaizenApp {
   private state: AppState;
@@ -26,6 +29,8 @@ class KaizenApp {
   private kanban: KanbanBoard;
   private timer: FocusTimer;
   private palette: CommandPalette;
+  private recordingPlayer = new RecordingPlayer();
+  private diffPanel = new DiffPanel();
   private saveDebounce: ReturnType<typeof setTimeout> | null = null;
 
   private pluginManager!: PluginManager;
@@ -60,13 +65,21 @@ class KaizenApp {
         const taskId = (agent as any).taskId;
         if (taskId) {
           if (status === 'working') {
-            this.kanban.updateTaskDetails(taskId, { status: 'doing' } as any);
-            this.addTaskActivity(taskId, `Agent "${agent.name}" started working`);
-          } else if (status === 'done') {
-            this.kanban.updateTaskDetails(taskId, { status: 'review' } as any);
-            this.addTaskActivity(taskId, `Agent "${agent.name}" completed — moved to Review`);
+            const task = this.kanban.getTasks().find(t => t.id === taskId);
+            const blockers = task && task.status !== 'doing' ? this.kanban.getOpenBlockers(task) : [];
+            if (blockers.length > 0) {
+              this.addTaskActivity(taskId, `Agent "${agent.name}" started working — card left in ${task!.status}, blocked by ${blockers.map(b => b.id).join(', ')}`);
+            } else {
+              this.kanban.updateTaskDetails(taskId, { status: 'doing' } as any);
+              this.addTaskActivity(taskId, `Agent "${agent.name}" started working`);
+            }
           }
         }
+        if (status === 'done') {
+          // An exit reports its code right after this; a pane marked done by hand never does
+          clearTimeout(this.pendingCompletions.get(id));
+          this.pendingCompletions.set(id, setTimeout(() => this.applyCompletionRules(id, null), 0));
+        }
       }
       this.scheduleStateSave();
     });
@@ -74,11 +87,13 @@ class KaizenApp {
     this.kanban.setChangeCallback((tasks) => {
       this.state.tasks = tasks;
       this.scheduleStateSave();
+      this.refreshDetailDrawer(tasks);
     });
 
     this.timer.setCycleCallback((cycles) => {
       this.state.timerCycles = cycles;
       this.scheduleStateSave();
+      (window as any).kaizenBridge?.logSessionEvent('timer.cycle', { cycles });
     });
 
     // ─── Layout Buttons ──────────────────────────────────────────────
@@ -191,22 +206,49 @@ class KaizenApp {
       this.showToast('warning', `⏳ Agent waiting for input: ${e.detail.prompt?.slice(0, 50)}`);
     }) as EventListener);
 
-    // Phase 9: Auto-close Kanban pipeline — Exit 0 → Card Done
+    // Recordings: toast + link the .cast from the agent's task
+    window.addEventListener('kaizen-recording', ((e: CustomEvent) => {
+      const { agentId, state, file, error } = e.detail;
+      const agent = this.state.agents.find(a => a.id === agentId);
+      if (state === 'error') {
+        this.showToast('error', `⚠️ Recording failed: ${error}`);
+        return;
+      }
+      this.showToast('info', state === 'started'
+        ? `⏺ Recording ${agent?.name || agentId}`
+        : `⏹ Recording saved: ${file.split('/').pop()}`);
+      const taskId = (agent as any)?.taskId;
+      if (taskId) {
+        this.addTaskActivity(taskId, state === 'started' ? `🎬 Recording agent session` : `🎬 Session recording saved`, file);
+      }
+    }) as EventListener);
+
+    // Resource monitor: an agent crossed a memory / sustained-CPU threshold (~/.kaizen-term/monitor.json)
+    window.addEventListener('kaizen-resource-alert', ((e: CustomEvent) => {
+      const { agentId, message } = e.detail;
+      const agent = this.state.agents.find(a => a.id === agentId);
+      this.showToast('warning', `🔥 ${agent?.name || agentId} ${message}`);
+      const taskId = (agent as any)?.taskId;
+      if (taskId) this.addTaskActivity(taskId, `🔥 Resource alert: ${message}`);
+    }) as EventListener);
+
+    // Pane header git badge → diff panel
+    window.addEventListener('kaizen-open-diff', ((e: CustomEvent) => this.openAgentDiff(e.detail.agentId)) as EventListener);
+
+    // Agent budgets: the main process stopped or paused an agent over its runtime / idle / output limit
+    window.addEventListener('kaizen-budget-exceeded', ((e: CustomEvent) => {
+      const { agentId, action, message } = e.detail;
+      const agent = this.state.agents.find(a => a.id === agentId);
+      this.showToast('warning', `⏳ ${agent?.name || agentId} ${message} — ${action === 'kill' ? 'stopped' : 'paused'}`);
+      const taskId = (agent as any)?.taskId || this.state.tasks.find(t => t.agentId === agentId && t.status !== 'done')?.id;
+      if (taskId) this.addTaskActivity(taskId, `⏳ Budget exceeded: ${message} — agent ${action === 'kill' ? 'stopped' : 'paused'}`);
+    }) as EventListener);
+
+    // Phase 9: Auto-close Kanban pipeline — the completion rules decide where the card goes
     window.addEventListener('kaizen-agent-exit', ((e: CustomEvent) => {
       const { agentId, exitCode } = e.detail;
-      if (exitCode !== 0) return; // Only auto-close on success
-
-      // Find linked Kanban card
-      const card = this.state.tasks.find(t => t.agentId === agentId && t.status !== 'done');
-      if (card) {
-        card.status = 'done';
-        this.scheduleStateSave();
-        this.showToast('success', `✅ Task "${card.title}" auto-completed (Exit 0)`);
-        // Refresh Kanban if open
-        if (this.state.kanbanOpen) {
-          this.kanban?.render();
-        }
-      }
+      clearTimeout(this.pendingCompletions.get(agentId));
+      this.applyCompletionRules(agentId, exitCode);
     }) as EventListener);
 
     // ─── Resize ──────────────────────────────────────────────────────
@@ -225,6 +267,7 @@ class KaizenApp {
       this.showToast('info', `🗣️ "${naturalLanguage}"...`);
 
       try {
+        (window as any).kaizenBridge?.logSessionEvent('ai.request', { provider: this.state.aiProvider, model: this.state.aiModel, source: 'nl-command' });
         const resp = await fetch(`${this.state.aiBaseUrl}/v1/chat/completions`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
@@ -297,6 +340,11 @@ Examples:
       }
     }) as EventListener);
 
+    // MCP command channel: spawn_agent requests from an orchestrator agent
+    if ((window as any).kaizenBridge?.onAgentSpawnRequest) {
+      window.kaizenBridge.onAgentSpawnRequest((req) => this.spawnAgentFromRequest(req));
+    }
+
     // Ollama model download progress
     if ((window as any).kaizenBridge?.onOllamaProgress) {
       (window as any).kaizenBridge.onOllamaProgress((progress: { status: string; percent?: number }) => {
@@ -338,21 +386,22 @@ Examples:
     }
 
     if (this.state.agents.length > 0) {
-      this.restoreAgents();
+      // Session Persistence: reattach saved agents to their shells
+      this.restoreSession();
     } else {
       this.checkEmptyState();
     }
 
     // Fix 3: wire Kanban spawn-agent callback
     this.kanban.setSpawnAgentCallback((task: any) => this.addAgentForTask(task));
+    this.kanban.setStatusChangeCallback((task) => {
+      if (task.status === 'done' && task.worktree) this.offerWorktreeFinish(task);
+    });
     // Fix 4: wire Kanban open-detail callback
     this.kanban.setOpenDetailCallback((task: any) => this.openDetailDrawer(task));
     // Fix 8: initial tab render
     this.refreshAgentTabs();
 
-    // Session Persistence: restore saved agents
-    this.restoreSession();
-
     // Discover MCP/Skills
     setTimeout(() => this.runDiscovery(), 1500);
 
@@ -371,6 +420,9 @@ Examples:
     // Phase 7: Git branch polling
     this.updateGitBranch();
     setInterval(() => this.updateGitBranch(), 30000);
+    // Dirty-file count in each pane header
+    this.refreshAgentGitStatus();
+    setInterval(() => this.refreshAgentGitStatus(), 10000);
 
     // Sprint C: Initialize plugin system
     this.initPluginSystem();
@@ -464,11 +516,12 @@ Examples:
 
   private spawnFromProfile(profile: { name: string; cwd: string; command: string }) {
     const cwd = profile.cwd || this.state.scanPaths[0];
+    const budget = this.state.profileBudgets[profile.name];
 
     // If multiple scan paths and profile has no fixed CWD, let user choose
     if (!profile.cwd && this.state.scanPaths.length > 1) {
       this.showCwdPicker((selectedCwd) => {
-        this.spawnAgentWithCwd(profile.name, undefined, selectedCwd);
+        this.spawnAgentWithCwd(profile.name, undefined, selectedCwd, undefined, { budget });
         if (profile.command) {
           setTimeout(() => {
             const agents = this.state.agents;
@@ -480,7 +533,7 @@ Examples:
       return;
     }
 
-    this.spawnAgentWithCwd(profile.name, undefined, cwd);
+    this.spawnAgentWithCwd(profile.name, undefined, cwd, undefined, { budget });
     if (profile.command) {
       setTimeout(() => {
         const agents = this.state.agents;
@@ -490,8 +543,15 @@ Examples:
     }
   }
 
-  private spawnAgentWithCwd(name?: string, taskContext?: { id: string; title: string }, cwd?: string) {
-    const agent = createAgent(this.state, name, cwd);
+  private spawnAgentWithCwd(
+    name?: string,
+    taskContext?: { id: string; title: string },
+    cwd?: string,
+    id?: string,
+    opts: { restore?: boolean; budget?: AgentBudget } = {},
+  ) {
+    const agent = createAgent(this.state, name, cwd, id);
+    if (opts.budget) agent.budget = opts.budget;
     if (taskContext) {
       (agent as any).taskId = taskContext.id;
       (agent as any).taskTitle = taskContext.title;
@@ -508,7 +568,8 @@ Examples:
       this.setLayout(newLayout as 1 | 2 | 4 | 6);
     }
 
-    this.terminalManager.createTerminal(agent, grid, taskContext);
+    this.terminalManager.createTerminal(agent, grid, taskContext, opts.restore);
+    if (taskContext) this.recordReviewBase(taskContext.id, agent);
 
     // Activate the new agent so it's visible (especially in layout-1)
     this.terminalManager.setActive(agent.id);
@@ -529,10 +590,11 @@ Examples:
     // Set saved layout
     this.setLayout(this.state.layout);
 
-    // Stagger spawns to avoid PTY overload
+    // Same ids, so each pane reattaches to the shell the PTY host kept running.
+    // Stagger in case they have to be spawned fresh, to avoid PTY overload
     savedAgents.forEach((saved, i) => {
       setTimeout(() => {
-        this.spawnAgentWithCwd(saved.name, undefined, saved.cwd);
+        this.spawnAgentWithCwd(saved.name, undefined, saved.cwd, saved.id, { restore: true, budget: saved.budget });
       }, i * 300);
     });
   }
@@ -602,8 +664,18 @@ Examples:
   }
 
   // Fix 3: Spawn agent pre-wired to a specific Kanban task
-  addAgentForTask(task: { id: string; title: string; description?: string; subtasks?: any[] }) {
-    this.addAgent(`agent-${task.id.slice(-4)}`, task);
+  async addAgentForTask(
+    task: { id: string; title: string; description?: string; subtasks?: any[]; worktree?: TaskWorktree },
+    opts: { isolated?: boolean } = {},
+  ) {
+    // Isolated: the agent gets the task's own worktree (every later agent for the card reuses it)
+    let cwd: string | undefined;
+    if (opts.isolated || task.worktree) {
+      const worktree = await this.ensureTaskWorktree(task);
+      if (!worktree) return;
+      cwd = worktree.path;
+    }
+    this.addAgent(`agent-${task.id.slice(-4)}`, task, cwd);
     if (!this.state.kanbanOpen) { /* keep kanban visible */ }
     this.showToast('success', `⚡ Spawning agent for: ${task.title}`);
 
@@ -644,20 +716,99 @@ Examples:
     }
   }
 
-  private restoreAgents() {
-    const grid = document.getElementById('terminal-grid')!;
-    const agents = [...this.state.agents];
-    this.state.agents = [];
-    for (const cfg of agents) {
-      const agent: AgentConfig = { ...cfg, status: 'idle' };
-      this.state.agents.push(agent);
-      this.terminalManager.createTerminal(agent, grid);
+  /** Create (or reuse) the git worktree for a task and record it on the card */
+  private async ensureTaskWorktree(task: { id: string; title: string; worktree?: TaskWorktree }): Promise<TaskWorktree | null> {
+    const repo = task.worktree?.repo
+      ?? (this.state.scanPaths.length > 1
+        ? await new Promise<string>((resolve) => this.showCwdPicker(resolve))
+        : this.state.scanPaths[0]);
+    const result = await window.kaizenBridge.createTaskWorktree(repo, task.id, task.title);
+    if (!result.ok) {
+      this.showToast('error', `🌿 Worktree: ${result.error}`);
+      return null;
     }
-    setTimeout(() => {
-      this.terminalManager.fitAll();
-      this.refreshAgentTabs();
-    }, 200);
-    this.updateStatusBar();
+    if (!task.worktree || task.worktree.path !== result.worktree.path) {
+      this.kanban.updateTaskDetails(task.id, { worktree: result.worktree });
+      this.addTaskActivity(task.id, `🌿 Worktree ${result.worktree.branch} ${result.reused ? 'reattached' : 'created'} from ${result.worktree.base}`);
+    }
+    return task.worktree?.path === result.worktree.path ? task.worktree : result.worktree;
+  }
+
+  /** Remember the commit the task's agent started from, so its review diffs against it */
+  private async recordReviewBase(taskId: string, agent: AgentConfig) {
+    const result = await window.kaizenBridge.gitHead(agent.cwd);
+    this.kanban.updateTaskDetails(taskId, {
+      reviewBase: { agentId: agent.id, cwd: agent.cwd, commit: result.ok ? result.head : null, spawnedAt: Date.now() },
+    });
+  }
+
+  /** A card with a worktree reached Done — open its drawer on merge / rebase / cleanup */
+  private offerWorktreeFinish(task: KanbanTask) {
+    this.showToast('info', `🌿 ${task.title} is done — merge, rebase or clean up ${task.worktree!.branch}`);
+    if (!this.currentDetailTaskId) this.openDetailDrawer(task);
+  }
+
+  private async finishTaskWorktree(task: KanbanTask, action: 'merge' | 'rebase' | 'cleanup') {
+    const worktree = task.worktree;
+    if (!worktree) return;
+    let result = await window.kaizenBridge.finishTaskWorktree(worktree, action);
+    if (!result.ok && action === 'cleanup'
+      && confirm(`${result.error}\n\nForce-remove ${worktree.path} and delete ${worktree.branch}? Unmerged work is lost.`)) {
+      result = await window.kaizenBridge.finishTaskWorktree(worktree, action, true);
+    }
+    if (!result.ok) {
+      this.showToast('error', `🌿 ${result.error}`);
+      return;
+    }
+
+    const done = { merge: `merged into ${worktree.base}`, rebase: `rebased onto ${worktree.base}`, cleanup: 'worktree and branch removed' }[action];
+    this.showToast('success', `🌿 ${worktree.branch} ${done}`);
+    this.addTaskActivity(task.id, `🌿 ${worktree.branch} ${done}`);
+    if (action === 'cleanup') {
+      this.kanban.updateTaskDetails(task.id, { worktree: undefined });
+    } else if (action === 'merge' && confirm(`Merged. Remove the worktree and delete ${worktree.branch}?`)) {
+      await this.finishTaskWorktree(task, 'cleanup');
+      return;
+    }
+    this.renderWorktree(task);
+  }
+
+  private async renderWorktree(task: KanbanTask) {
+    const box = document.getElementById('task-detail-worktree')!;
+    const worktree = task.worktree;
+    box.classList.toggle('hidden', !worktree);
+    if (!worktree) return;
+
+    const textEl = document.getElementById('task-detail-worktree-text')!;
+    textEl.textContent = `🌿 ${worktree.branch} ← ${worktree.base}`;
+    textEl.title = worktree.path;
+    (document.getElementById('task-detail-worktree-merge') as HTMLButtonElement).onclick = () => this.finishTaskWorktree(task, 'merge');
+    (document.getElementById('task-detail-worktree-rebase') as HTMLButtonElement).onclick = () => this.finishTaskWorktree(task, 'rebase');
+    (document.getElementById('task-detail-worktree-cleanup') as HTMLButtonElement).onclick = () => this.finishTaskWorktree(task, 'cleanup');
+
+    const status = await window.kaizenBridge.getWorktreeStatus(worktree);
+    if (!status.ok || this.currentDetailTaskId !== task.id) return;
+    const parts = !status.exists
+      ? ['worktree missing']
+      : [`${status.ahead} ahead`, `${status.behind} behind`, ...(status.dirty ? ['uncommitted changes'] : [])];
+    textEl.textContent = `🌿 ${worktree.branch} ← ${worktree.base} · ${parts.join(', ')}`;
+  }
+
+  /** Spawn a pane requested over the MCP command channel (spawn_agent tool) */
+  private spawnAgentFromRequest(req: { id: string; name?: string; cwd?: string; taskId?: string }) {
+    const task = req.taskId ? this.kanban.getTasks().find(t => t.id === req.taskId) : undefined;
+    const taskContext = task ? { id: task.id, title: task.title } : undefined;
+    const name = req.name || (task ? `agent-${task.id.slice(-4)}` : undefined);
+
+    // Agents for an isolated task work in its worktree unless told otherwise
+    this.spawnAgentWithCwd(name, taskContext, req.cwd || task?.worktree?.path, req.id);
+    this.showToast('info', `🔌 MCP spawned agent${task ? ` for: ${task.title}` : ` ${name || req.id}`}`);
+
+    if (task) {
+      this.kanban.updateTaskDetails(task.id, { agentId: req.id });
+      this.addTaskActivity(task.id, `Agent spawned via MCP`);
+    }
+    // The startup command is typed by the main process once the shell is up
   }
 
   // ─── Layout ────────────────────────────────────────────────────────
@@ -1088,6 +1239,18 @@ Examples:
       // Phase 10: Workspace Sharing
       { id: 'export-workspace', icon: '📦', title: 'Export Workspace', description: 'Save agents + tasks as .kaizen file to share', action: () => this.exportWorkspace(), keywords: ['export', 'share', 'workspace', 'save'] },
       { id: 'import-workspace', icon: '📥', title: 'Import Workspace', description: 'Load a .kaizen workspace file', action: () => this.importWorkspace(), keywords: ['import', 'load', 'workspace', 'open'] },
+      { id: 'record-toggle', icon: '⏺', title: 'Start/Stop Recording', description: 'Record the active pane\'s raw terminal stream (asciicast)', action: () => { const id = this.terminalManager.getActiveId(); if (id) this.terminalManager.toggleRecording(id); }, keywords: ['record', 'recording', 'asciicast', 'session', 'capture'] },
+      { id: 'replay-recording', icon: '🎬', title: 'Replay Recording…', description: 'Watch a recorded agent session (~/.kaizen-term/recordings)', action: () => this.pickRecording(), keywords: ['replay', 'recording', 'asciicast', 'watch', 'playback'] },
+      { id: 'show-diff', icon: '±', title: 'Show Agent Diff', description: 'Changed files, diff and recent commits in the active agent\'s directory', action: () => this.openAgentDiff(), keywords: ['git', 'diff', 'changes', 'status', 'review'] },
+      { id: 'agent-budget', icon: '⏳', title: 'Set Agent Budget…', description: 'Max runtime, idle time and output for the active agent — kill or pause when exceeded', action: () => this.configureAgentBudget(), keywords: ['budget', 'timeout', 'limit', 'idle', 'runtime', 'kill', 'pause'] },
+      { id: 'profile-budget', icon: '⏳', title: 'Set Profile Budget…', description: 'Default budget for agents spawned from a profile', action: () => this.configureProfileBudget(), keywords: ['budget', 'profile', 'timeout', 'limit'] },
+      { id: 'completion-rules', icon: '🏁', title: 'Edit Completion Rules', description: 'Where cards move when their agent exits — by exit code, failed commands and test results', action: () => this.editCompletionRules(), keywords: ['rules', 'auto', 'complete', 'exit', 'review', 'tests'] },
+      { id: 'test-results', icon: '🧪', title: 'Collect Test Results', description: 'Read JUnit / TAP / Jest reports or the printed test summary of the active agent onto its card', action: () => this.showAgentTestResults(), keywords: ['tests', 'junit', 'tap', 'jest', 'vitest', 'results'] },
+      { id: 'agent-resume', icon: '▶️', title: 'Resume Paused Agent', description: 'Continue the active agent after its budget paused it', action: () => this.resumeActiveAgent(), keywords: ['resume', 'continue', 'budget', 'pause', 'sigcont'] },
+      { id: 'quit-end-sessions', icon: '⏻', title: 'Quit and End All Sessions', description: 'Quit and stop every shell instead of keeping them running for the next launch', action: () => (window as any).kaizenBridge?.quitEndingSessions?.(), keywords: ['quit', 'exit', 'kill', 'sessions', 'shells', 'detach'] },
+      { id: 'report-daily', icon: '📝', title: 'Generate Daily Report', description: 'Today\'s moves, time in doing, agent runs and focus cycles — saved as Markdown or HTML', action: () => this.generateReport('daily'), keywords: ['report', 'standup', 'daily', 'summary', 'export'] },
+      { id: 'report-weekly', icon: '📝', title: 'Generate Weekly Report', description: 'The same report for the last 7 days', action: () => this.generateReport('weekly'), keywords: ['report', 'weekly', 'summary', 'export'] },
+      { id: 'jira-sync', icon: '🔄', title: 'Sync with Jira', description: 'Pull issues by JQL and push status changes back (~/.kaizen-term/jira.json)', action: () => this.syncJira(), keywords: ['jira', 'sync', 'issues', 'import'] },
       // Sprint E: Agent switching
       { id: 'switch-agent-1', icon: '1️⃣', title: 'Switch to Agent 1', description: 'Focus Agent 1 terminal', shortcut: '⌘1', action: () => this.switchToAgentByIndex(0), keywords: ['agent', 'switch', 'terminal', 'one'] },
       { id: 'switch-agent-2', icon: '2️⃣', title: 'Switch to Agent 2', description: 'Focus Agent 2 terminal', shortcut: '⌘2', action: () => this.switchToAgentByIndex(1), keywords: ['agent', 'switch', 'terminal', 'two'] },
@@ -1190,8 +1353,8 @@ Examples:
       let context = '';
       if (activeId) {
         try {
-          const output = await window.kaizenBridge.readTerminalOutput(activeId);
-          context = output.lines.slice(-30).join('\n');
+          const output = await window.kaizenBridge.readTerminalOutput(activeId, 30);
+          context = output.lines.join('\n');
         } catch { /* ignore */ }
       }
 
@@ -1243,8 +1406,8 @@ Examples:
           );
           if (agent) {
             try {
-              const output = await window.kaizenBridge.readTerminalOutput(agent.id);
-              const lines = output.lines.slice(-30).join('\n');
+              const output = await window.kaizenBridge.readTerminalOutput(agent.id, 30);
+              const lines = output.lines.join('\n');
               termContext += `\n--- Terminal: ${agent.name} (${agent.id}) ---\n${lines}\n`;
               contextSources.push(agent.name);
             } catch { /* ignore */ }
@@ -1258,8 +1421,8 @@ Examples:
         const activeId = this.terminalManager.getActiveId();
         if (activeId) {
           try {
-            const output = await window.kaizenBridge.readTerminalOutput(activeId);
-            termContext = output.lines.slice(-40).join('\n');
+            const output = await window.kaizenBridge.readTerminalOutput(activeId, 40);
+            termContext = output.lines.join('\n');
             const activeAgent = this.state.agents.find(a => a.id === activeId);
             if (activeAgent) contextSources.push(activeAgent.name);
           } catch { /* ignore */ }
@@ -1298,6 +1461,7 @@ ${codebaseStats?.symbols ? `\nProject has ${codebaseStats.files} indexed files a
         } else {
           throw new Error('Unknown provider');
         }
+        (window as any).kaizenBridge?.logSessionEvent('ai.request', { provider: this.state.aiProvider, model: this.state.aiModel, source: 'omni-chat' });
 
         // Anthropic has a different format
         if (this.state.aiProvider === 'anthropic') {
@@ -1501,6 +1665,7 @@ ${codebaseStats?.symbols ? `\nProject has ${codebaseStats.files} indexed files a
     const statusSel = document.getElementById('task-detail-status') as HTMLSelectElement;
     const prioritySel = document.getElementById('task-detail-priority') as HTMLSelectElement;
     const spawnBtn = document.getElementById('task-detail-spawn')!;
+    const spawnIsolatedBtn = document.getElementById('task-detail-spawn-isolated')!;
 
     const save = () => {
       if (!this.currentDetailTaskId) return;
@@ -1528,6 +1693,20 @@ ${codebaseStats?.symbols ? `\nProject has ${codebaseStats.files} indexed files a
       const task = this.kanban.getTasks().find(t => t.id === this.currentDetailTaskId);
       if (task) { this.closeDetailDrawer(); this.addAgentForTask(task); }
     });
+
+    document.getElementById('task-detail-review-approve')!.addEventListener('click', () => this.submitReview('approved'));
+    document.getElementById('task-detail-review-changes')!.addEventListener('click', () => this.submitReview('changes_requested'));
+    document.getElementById('task-detail-review-diff-btn')!.addEventListener('click', () => {
+      const task = this.kanban.getTasks().find(t => t.id === this.currentDetailTaskId);
+      const target = task && this.reviewTarget(task);
+      if (target?.cwd) this.diffPanel.open(target.agentName, target.cwd, target.commit ?? undefined);
+    });
+
+    spawnIsolatedBtn.addEventListener('click', () => {
+      if (!this.currentDetailTaskId) return;
+      const task = this.kanban.getTasks().find(t => t.id === this.currentDetailTaskId);
+      if (task) { this.closeDetailDrawer(); this.addAgentForTask(task, { isolated: true }); }
+    });
   }
 
   openDetailDrawer(task: { id: string; title: string;[key: string]: any }) {
@@ -1537,8 +1716,10 @@ ${codebaseStats?.symbols ? `\nProject has ${codebaseStats.files} indexed files a
     (document.getElementById('task-detail-desc') as HTMLTextAreaElement).value = task.description || '';
     (document.getElementById('task-detail-status') as HTMLSelectElement).value = task.status || 'backlog';
     (document.getElementById('task-detail-priority') as HTMLSelectElement).value = task.priority || 'medium';
-    const jiraEl = document.getElementById('task-detail-jira')!;
-    jiraEl.textContent = task.jiraKey || '—';
+    const ref = externalRefOf(task as KanbanTask);
+    const trackerEl = document.getElementById('task-detail-tracker')!;
+    trackerEl.textContent = ref ? `${ref.provider} · ${ref.key}` : '—';
+    trackerEl.title = ref?.url || '';
 
     // Due Date
     const dueInput = document.getElementById('task-detail-due') as HTMLInputElement;
@@ -1559,9 +1740,349 @@ ${codebaseStats?.symbols ? `\nProject has ${codebaseStats.files} indexed files a
     // Activity Log
     this.renderActivityLog(task);
 
+    // Jira sync conflict
+    this.renderJiraConflict(task);
+
+    // Isolated worktree
+    this.renderWorktree(task as KanbanTask);
+
+    // Review panel (cards in the review column)
+    (document.getElementById('task-detail-review-comments') as HTMLTextAreaElement).value = '';
+    this.reviewRenderedFor = null;
+    this.renderReview(task as KanbanTask);
+
     drawer.classList.remove('hidden');
   }
 
+  /** Keep the open drawer in step with its task when agents change it over MCP */
+  private refreshDetailDrawer(tasks: KanbanTask[]) {
+    if (!this.currentDetailTaskId) return;
+    const task = tasks.find(t => t.id === this.currentDetailTaskId);
+    if (!task) { this.closeDetailDrawer(); return; }
+
+    // Don't clobber a field the user is typing in
+    const fields: [string, string][] = [
+      ['task-detail-title', task.title],
+      ['task-detail-desc', task.description || ''],
+      ['task-detail-status', task.status],
+      ['task-detail-priority', task.priority || 'medium'],
+    ];
+    for (const [id, value] of fields) {
+      const el = document.getElementById(id) as HTMLInputElement | null;
+      if (el && el !== document.activeElement) el.value = value;
+    }
+    this.renderSubtasks(task);
+    this.renderActivityLog(task);
+    this.renderJiraConflict(task);
+    this.renderWorktree(task);
+    this.renderReview(task);
+  }
+
+  // ─── Completion Rules ──────────────────────────────────────────────
+
+  /** Panes that went to done, waiting a tick for the exit code that may follow */
+  private pendingCompletions = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /** The open card an agent works on: the one it was spawned for, else the one linked to it */
+  private taskForAgent(agentId: string): KanbanTask | undefined {
+    const taskId = (this.state.agents.find(a => a.id === agentId) as any)?.taskId;
+    const tasks = this.kanban.getTasks();
+    return tasks.find(t => t.id === taskId && t.status !== 'done')
+      || tasks.find(t => t.agentId === agentId && t.status !== 'done');
+  }
+
+  /** The one place a finished agent moves its card — see completion-rules.ts */
+  private async applyCompletionRules(agentId: string, exitCode: number | null) {
+    this.pendingCompletions.delete(agentId);
+    const agent = this.state.agents.find(a => a.id === agentId);
+    const task = this.taskForAgent(agentId);
+    if (!task) return;
+
+    const bridge = window.kaizenBridge;
+    const since = task.reviewBase?.agentId === agentId ? task.reviewBase.spawnedAt : undefined;
+    const [errors, output, tests] = await Promise.all([
+      bridge.readCommandBlocks(agentId, { errorsOnly: true, since, limit: 10 }),
+      bridge.readTerminalOutput(agentId, 10),
+      this.collectTestResults(agentId, task),
+    ]);
+    const decision = evaluateCompletionRules(this.state.completionRules, task, { exitCode, errorBlocks: errors.length, tests });
+
+    const name = agent?.name || agentId;
+    const how = exitCode === null ? `Agent "${name}" marked done` : `Agent "${name}" exited with code ${exitCode}`;
+    // Reviewers can replay the session straight from the activity log
+    const recording = this.terminalManager.getRecording(agentId);
+    if (decision.moveTo && decision.moveTo !== task.status) {
+      const column = decision.moveTo[0].toUpperCase() + decision.moveTo.slice(1);
+      this.kanban.updateTaskDetails(task.id, { status: decision.moveTo });
+      this.addTaskActivity(task.id, `${how} — moved to ${column} (${decision.movedBy})`, recording);
+      bridge.logSessionEvent('task.auto_completed', { taskId: task.id, agentId, to: decision.moveTo });
+      const backwards = decision.moveTo === 'doing' || decision.moveTo === 'backlog';
+      this.showToast(backwards ? 'warning' : 'success', `${backwards ? '↩' : '✅'} "${task.title}" → ${column}`);
+    } else {
+      this.addTaskActivity(task.id, `${how}${decision.matched.length ? '' : ' — no completion rule matched'}`, recording);
+    }
+
+    if (decision.logErrorTail) {
+      // The last failed command, or the pane's last lines when no block was recorded
+      const last = errors[errors.length - 1];
+      const tail = last
+        ? `$ ${last.command || '(no command)'}${last.exitCode != null ? ` · exit ${last.exitCode}` : ''}\n${last.output.slice(-10).join('\n')}`
+        : output.lines.join('\n');
+      if (tail.trim()) this.addTaskActivity(task.id, `⚠ ${tail}`);
+    }
+    if (decision.attachTests && tests) {
+      const failing = tests.failures.slice(0, 5).map(f => `\n✗ ${f.name}${f.message ? ` — ${f.message}` : ''}`).join('');
+      this.addTaskActivity(task.id, `🧪 Tests: ${describeTestResults(tests)}${failing}`);
+    }
+  }
+
+  // ─── Test Results ──────────────────────────────────────────────────
+
+  /**
+   * Test reports in the agent's cwd, else the last run printed to its pane
+   * (shared/test-results.cjs); kept on `task` for the card badge. Report
+   * files are only trusted when we know when the agent started, so an old
+   * junit.xml never passes for this run.
+   */
+  private async collectTestResults(agentId: string, task?: KanbanTask): Promise<TaskTestResults | null> {
+    const spawn = task?.reviewBase?.agentId === agentId ? task.reviewBase : undefined;
+    const result = await window.kaizenBridge.collectTestResults({ id: agentId, cwd: spawn?.cwd, since: spawn?.spawnedAt });
+    if (!result.ok) {
+      this.showToast('warning', `⚠️ Test results: ${result.error}`);
+      return null;
+    }
+    if (!result.results) return null;
+    const tests = { ...result.results, agentId };
+    if (task) this.kanban.updateTaskDetails(task.id, { testResults: tests });
+    return tests;
+  }
+
+  private async showAgentTestResults() {
+    const agentId = this.terminalManager.getActiveId();
+    if (!agentId) {
+      this.showToast('warning', 'No active agent');
+      return;
+    }
+    const task = this.taskForAgent(agentId);
+    const tests = await this.collectTestResults(agentId, task);
+    if (!tests) {
+      this.showToast('info', '🧪 No test results found — no JUnit / TAP / Jest report and no test summary in the output');
+      return;
+    }
+    this.showToast(tests.failed > 0 ? 'warning' : 'success', `🧪 ${describeTestResults(tests)}${task ? ` → "${task.title}"` : ''}`);
+  }
+
+  private editCompletionRules() {
+    const text = prompt(
+      'Completion rules — "[label:] conditions -> actions", ";" between rules.\n' +
+      'Conditions: exit=0 exit!=0 errors=none errors=some tests tests=passed tests=failed\n' +
+      'Actions: backlog doing review done, tail (log the error tail), attach (log test counts)\n' +
+      'Leave empty to restore the defaults.',
+      formatRules(this.state.completionRules)
+    );
+    if (text === null) return;
+    try {
+      this.state.completionRules = text.trim() ? parseRules(text) : DEFAULT_COMPLETION_RULES;
+    } catch (err: any) {
+      this.showToast('warning', `⚠ ${err.message}`);
+      return;
+    }
+    this.scheduleStateSave();
+    this.showToast('success', `🏁 ${this.state.completionRules.length} completion rule${this.state.completionRules.length !== 1 ? 's' : ''} saved`);
+  }
+
+  // ─── Review Panel ──────────────────────────────────────────────────
+
+  /** `<taskId>:<status>:<agentId>` last rendered — refreshes don't refetch or clear the comments */
+  private reviewRenderedFor: string | null = null;
+
+  /** The agent under review: the last one spawned for the task, else the linked one */
+  private reviewTarget(task: KanbanTask) {
+    const agentId = task.reviewBase?.agentId || task.agentId || this.state.agents.find(a => (a as any).taskId === task.id)?.id;
+    const agent = this.state.agents.find(a => a.id === agentId);
+    return {
+      agentId,
+      agentName: agent?.name || agentId || 'agent',
+      live: !!agent,
+      cwd: task.reviewBase?.cwd || agent?.cwd,
+      commit: task.reviewBase?.commit ?? null,
+      since: task.reviewBase?.spawnedAt,
+    };
+  }
+
+  private async renderReview(task: KanbanTask) {
+    const box = document.getElementById('task-detail-review')!;
+    box.classList.toggle('hidden', task.status !== 'review');
+    if (task.status !== 'review') {
+      this.reviewRenderedFor = null;
+      return;
+    }
+    const target = this.reviewTarget(task);
+    const key = `${task.id}:${task.status}:${target.agentId}`;
+    if (this.reviewRenderedFor === key) return;
+    this.reviewRenderedFor = key;
+
+    const meta = document.getElementById('task-detail-review-meta')!;
+    const diffEl = document.getElementById('task-detail-review-diff')!;
+    const errorsEl = document.getElementById('task-detail-review-errors')!;
+    const outputEl = document.getElementById('task-detail-review-output')!;
+    meta.textContent = target.agentId ? `${target.agentName}${target.commit ? ` · since ${target.commit.slice(0, 7)}` : ''}` : 'no agent linked';
+    diffEl.textContent = '';
+    errorsEl.textContent = '';
+    outputEl.textContent = '';
+    if (!target.agentId) return;
+
+    const bridge = window.kaizenBridge;
+    const [diff, blocks, output] = await Promise.all([
+      target.cwd
+        ? bridge.gitDiff({ cwd: target.cwd, base: target.commit ?? undefined, untracked: true })
+        : Promise.resolve({ ok: false as const, error: 'Unknown working directory' }),
+      bridge.readCommandBlocks(target.agentId, { errorsOnly: true, since: target.since, limit: 10 }),
+      target.live ? bridge.readTerminalOutput(target.agentId, 40) : Promise.resolve({ lines: [] as string[], count: 0, total: 0 }),
+    ]);
+    if (this.reviewRenderedFor !== key) return; // drawer moved on meanwhile
+
+    if (diff.ok) {
+      renderDiff(diffEl, diff.diff, diff.truncated);
+      const files = (diff.diff.match(/^diff --git /gm) || []).length;
+      meta.textContent += ` · ${files} file${files !== 1 ? 's' : ''} changed`;
+    } else {
+      diffEl.textContent = `⚠️ ${diff.error}`;
+    }
+
+    for (const block of blocks.reverse()) {
+      const el = document.createElement('div');
+      el.className = 'review-error';
+      const head = document.createElement('div');
+      head.className = 'review-error-command';
+      head.textContent = `⚠ $ ${block.command || '(no command)'}${block.exitCode != null ? ` · exit ${block.exitCode}` : ''}`;
+      const pre = document.createElement('pre');
+      pre.textContent = block.output.slice(-8).join('\n');
+      el.append(head, pre);
+      errorsEl.appendChild(el);
+    }
+
+    outputEl.textContent = output.lines.join('\n') || (target.live ? '(no output)' : '(agent pane is closed)');
+  }
+
+  private submitReview(verdict: 'approved' | 'changes_requested') {
+    const task = this.kanban.getTasks().find(t => t.id === this.currentDetailTaskId);
+    if (!task) return;
+    const commentsEl = document.getElementById('task-detail-review-comments') as HTMLTextAreaElement;
+    const comments = commentsEl.value.trim();
+    const target = this.reviewTarget(task);
+
+    if (verdict === 'approved') {
+      this.kanban.updateTaskDetails(task.id, { status: 'done' });
+      this.addTaskActivity(task.id, `✅ Review approved${comments ? `: ${comments}` : ''}`);
+      this.showToast('success', `✅ Approved: ${task.title}`);
+    } else {
+      if (!comments) {
+        this.showToast('warning', 'Write what should change first');
+        commentsEl.focus();
+        return;
+      }
+      if (target.live && target.agentId) {
+        // One line, so an agent CLI takes it as a single prompt
+        const followUp = `Review feedback on "${task.title}" — please address: ${comments.replace(/\s*\n\s*/g, ' ')}`;
+        this.terminalManager.writeRaw(target.agentId, followUp + '\r');
+        this.showToast('info', `↩ Sent review feedback to ${target.agentName}`);
+      } else {
+        this.showToast('warning', 'Agent pane is closed — feedback saved to the activity log only');
+      }
+      this.kanban.updateTaskDetails(task.id, { status: 'doing' });
+      this.addTaskActivity(task.id, `↩ Changes requested: ${comments}`);
+    }
+    commentsEl.value = '';
+    window.kaizenBridge.logSessionEvent('task.reviewed', {
+      taskId: task.id,
+      verdict,
+      ...(target.agentId ? { agentId: target.agentId } : {}),
+    });
+  }
+
+  private renderJiraConflict(task: any) {
+    const box = document.getElementById('task-detail-jira-conflict')!;
+    const conflict = task.jiraConflict;
+    box.classList.toggle('hidden', !conflict);
+    if (!conflict) return;
+
+    document.getElementById('task-detail-jira-conflict-text')!.textContent =
+      `⚠️ ${externalRefOf(task)?.key} changed on both sides — Jira: "${conflict.jiraStatus}", Kaizen: "${conflict.kaizenStatus}"`;
+
+    const resolve = async (keep: 'kaizen' | 'jira') => {
+      const result = await window.kaizenBridge.resolveJiraConflict(task.id, keep);
+      if (!result.ok) {
+        this.showToast('error', `⚠️ Jira: ${result.error}`);
+        return;
+      }
+      delete task.jiraConflict;
+      box.classList.add('hidden');
+      this.showToast('success', `🔄 ${externalRefOf(task)?.key}: kept ${keep === 'kaizen' ? 'Kaizen' : 'Jira'} status`);
+    };
+    (document.getElementById('task-detail-keep-kaizen') as HTMLButtonElement).onclick = () => resolve('kaizen');
+    (document.getElementById('task-detail-keep-jira') as HTMLButtonElement).onclick = () => resolve('jira');
+  }
+
+  private async syncJira() {
+    if (!(window as any).kaizenBridge?.syncJira) return;
+    this.showToast('info', '🔄 Syncing with Jira...');
+    const result = await window.kaizenBridge.syncJira();
+    if ('error' in result) {
+      this.showToast('error', `⚠️ Jira: ${result.error}`);
+      return;
+    }
+    const parts = [`${result.created.length} new`, `${result.pulled.length} pulled`, `${result.pushed.length} pushed`];
+    if (result.conflicts.length > 0) parts.push(`${result.conflicts.length} conflict${result.conflicts.length !== 1 ? 's' : ''}`);
+    this.showToast(result.conflicts.length > 0 || result.errors.length > 0 ? 'warning' : 'success', `🔄 Jira sync: ${parts.join(', ')}`);
+  }
+
+  private async openRecording(file: string) {
+    if (!(window as any).kaizenBridge?.readRecording) return;
+    const content = await window.kaizenBridge.readRecording(file);
+    if (!content) {
+      this.showToast('error', `⚠️ Recording not found: ${file.split('/').pop()}`);
+      return;
+    }
+    try {
+      this.recordingPlayer.open(content);
+    } catch (err: any) {
+      this.showToast('error', `⚠️ ${err.message}`);
+    }
+  }
+
+  /** List recordings as palette entries, then reopen the palette filtered to them */
+  private async pickRecording() {
+    if (!(window as any).kaizenBridge?.listRecordings) return;
+    const recordings = await window.kaizenBridge.listRecordings();
+    if (recordings.length === 0) {
+      this.showToast('info', '🎬 No recordings yet — use ⏺ on a terminal pane to start one');
+      return;
+    }
+    for (const r of recordings.slice(0, 30)) {
+      const mins = Math.floor(r.duration / 60);
+      const secs = Math.round(r.duration % 60);
+      this.palette.registerCommand({
+        id: `replay:${r.file}`, icon: r.recording ? '⏺' : '🎬', title: `Replay: ${r.title}`,
+        description: `${new Date(r.startedAt).toLocaleString()} · ${mins}m ${secs}s${r.recording ? ' · still recording' : ''}`,
+        action: () => this.openRecording(r.file),
+        keywords: ['replay', 'recording'],
+      });
+    }
+    this.palette.open('Replay:');
+  }
+
+  private async generateReport(period: 'daily' | 'weekly') {
+    if (!(window as any).kaizenBridge?.saveReport) return;
+    const result = await window.kaizenBridge.saveReport(period);
+    if (!result) return; // dialog cancelled
+    if ('error' in result) {
+      this.showToast('error', `⚠️ Report: ${result.error}`);
+      return;
+    }
+    this.showToast('success', `📝 ${period === 'weekly' ? 'Weekly' : 'Daily'} report saved to ${result.filePath}`);
+  }
+
   private renderSubtasks(task: any) {
     const container = document.getElementById('task-detail-subtasks')!;
     const progressEl = document.getElementById('task-detail-subtask-progress')!;
@@ -1627,7 +2148,7 @@ ${codebaseStats?.symbols ? `\nProject has ${codebaseStats.files} indexed files a
 
   private renderActivityLog(task: any) {
     const container = document.getElementById('task-detail-activity')!;
-    const activities: { text: string; timestamp: number }[] = task.activity || [];
+    const activities: { text: string; timestamp: number; recording?: string }[] = task.activity || [];
 
     if (activities.length === 0) {
       container.innerHTML = '<div class="activity-empty">No activity yet</div>';
@@ -1643,16 +2164,24 @@ ${codebaseStats?.symbols ? `\nProject has ${codebaseStats.files} indexed files a
       const time = new Date(a.timestamp);
       const timeStr = `${time.getHours().toString().padStart(2, '0')}:${time.getMinutes().toString().padStart(2, '0')}`;
       el.innerHTML = `<span class="activity-time">${timeStr}</span><span class="activity-text">${this.escapeHtml(a.text)}</span>`;
+      if (a.recording) {
+        const watch = document.createElement('button');
+        watch.className = 'activity-watch';
+        watch.textContent = '▶ Watch';
+        watch.title = a.recording;
+        watch.addEventListener('click', () => this.openRecording(a.recording!));
+        el.appendChild(watch);
+      }
       container.appendChild(el);
     }
   }
 
-  private addTaskActivity(taskId: string, text: string) {
+  private addTaskActivity(taskId: string, text: string, recording?: string) {
     const tasks = this.kanban.getTasks();
     const task = tasks.find((t: any) => t.id === taskId);
     if (!task) return;
     if (!task.activity) task.activity = [];
-    task.activity.push({ text, timestamp: Date.now() });
+    task.activity.push({ text, timestamp: Date.now(), ...(recording ? { recording } : {}) });
     this.kanban.updateTaskDetails(taskId, { activity: [...task.activity] } as any);
   }
 
@@ -1992,6 +2521,27 @@ ${codebaseStats?.symbols ? `\nProject has ${codebaseStats.files} indexed files a
     }
   }
 
+  /** Poll git status for every agent's cwd (shared cwds are asked once) */
+  private async refreshAgentGitStatus() {
+    const bridge = (window as any).kaizenBridge;
+    if (!bridge?.gitStatus) return;
+    const byCwd = new Map<string, ReturnType<typeof window.kaizenBridge.gitStatus>>();
+    for (const agent of this.state.agents) {
+      if (!byCwd.has(agent.cwd)) byCwd.set(agent.cwd, window.kaizenBridge.gitStatus(agent.cwd));
+      const result = await byCwd.get(agent.cwd)!;
+      this.terminalManager.updateGitStatus(agent.id, result.ok ? result : null);
+    }
+  }
+
+  private openAgentDiff(id?: string | null) {
+    const agent = this.state.agents.find(a => a.id === (id ?? this.terminalManager.getActiveId()));
+    if (!agent) {
+      this.showToast('warning', 'No active agent');
+      return;
+    }
+    this.diffPanel.open(agent.name, agent.cwd);
+  }
+
   // Phase 7: Theme cycling
   // Sprint C: Plugin system initialization
   private initPluginSystem() {
@@ -2140,6 +2690,85 @@ ${codebaseStats?.symbols ? `\nProject has ${codebaseStats.files} indexed files a
     this.showToast('success', `🤖 AI: ${this.state.aiProvider} / ${this.state.aiModel}`);
   }
 
+  /** Ask for "runtime / idle / output" limits; null when cancelled, undefined when every limit is 0 */
+  private promptBudget(current?: AgentBudget): AgentBudget | null | undefined {
+    const limits = prompt(
+      'Budget — max runtime / max idle / max output (min / min / MB, 0 = no limit):',
+      `${current?.maxRuntimeMin || 0} / ${current?.maxIdleMin || 0} / ${current?.maxOutputMB || 0}`
+    );
+    if (!limits) return null;
+    const [runtime, idle, output] = limits.split('/').map(s => Math.max(0, parseFloat(s.trim()) || 0));
+    if (!runtime && !idle && !output) return undefined;
+
+    const action = prompt('When exceeded (kill / pause):', current?.action || 'kill');
+    if (!action) return null;
+    return {
+      ...(runtime ? { maxRuntimeMin: runtime } : {}),
+      ...(idle ? { maxIdleMin: idle } : {}),
+      ...(output ? { maxOutputMB: output } : {}),
+      action: action.trim().toLowerCase() === 'pause' ? 'pause' : 'kill',
+    };
+  }
+
+  private describeBudget(budget?: AgentBudget): string {
+    if (!budget) return 'no limits';
+    const parts = [
+      budget.maxRuntimeMin ? `${budget.maxRuntimeMin}min runtime` : '',
+      budget.maxIdleMin ? `${budget.maxIdleMin}min idle` : '',
+      budget.maxOutputMB ? `${budget.maxOutputMB}MB output` : '',
+    ].filter(Boolean);
+    return `${parts.join(' / ')} → ${budget.action}`;
+  }
+
+  private configureAgentBudget() {
+    const id = this.terminalManager.getActiveId();
+    const agent = this.state.agents.find(a => a.id === id);
+    if (!agent) {
+      this.showToast('warning', 'No active agent');
+      return;
+    }
+    const budget = this.promptBudget(agent.budget);
+    if (budget === null) return;
+
+    agent.budget = budget;
+    (window as any).kaizenBridge?.setAgentBudget?.(agent.id, budget ?? null);
+    this.scheduleStateSave();
+    this.showToast('success', `⏳ ${agent.name}: ${this.describeBudget(budget)}`);
+  }
+
+  private configureProfileBudget() {
+    const profiles = this.state.agentProfiles;
+    if (profiles.length === 0) {
+      this.showToast('warning', 'No agent profiles');
+      return;
+    }
+    const choice = prompt(
+      `Profile (type number):\n${profiles.map((p, i) => `${i + 1}. ${p.name} — ${this.describeBudget(this.state.profileBudgets[p.name])}`).join('\n')}`,
+      '1'
+    );
+    if (!choice) return;
+    const profile = profiles[parseInt(choice) - 1];
+    if (!profile) return;
+
+    const budget = this.promptBudget(this.state.profileBudgets[profile.name]);
+    if (budget === null) return;
+    if (budget) this.state.profileBudgets[profile.name] = budget;
+    else delete this.state.profileBudgets[profile.name];
+
+    this.scheduleStateSave();
+    this.showToast('success', `⏳ ${profile.name} agents: ${this.describeBudget(budget)}`);
+  }
+
+  private resumeActiveAgent() {
+    const id = this.terminalManager.getActiveId();
+    const agent = this.state.agents.find(a => a.id === id);
+    if (!agent) return;
+    (window as any).kaizenBridge?.resumeAgent?.(agent.id);
+    agent.status = 'working';
+    this.refreshAgentTabs();
+    this.showToast('info', `▶️ Resumed ${agent.name}`);
+  }
+
   // Phase 10: Workspace Sharing
   private exportWorkspace() {
     const workspace = {
@@ -2162,6 +2791,7 @@ ${codebaseStats?.symbols ? `\nProject has ${codebaseStats.files} indexed files a
         aiModel: this.state.aiModel,
         aiBaseUrl: this.state.aiBaseUrl,
         layout: this.state.layout,
+        completionRules: this.state.completionRules,
       },
     };
 
@@ -2230,6 +2860,7 @@ ${codebaseStats?.symbols ? `\nProject has ${codebaseStats.files} indexed files a
           if (workspace.config.aiProvider) this.state.aiProvider = workspace.config.aiProvider;
           if (workspace.config.aiModel) this.state.aiModel = workspace.config.aiModel;
           if (workspace.config.layout) this.state.layout = workspace.config.layout;
+          if (Array.isArray(workspace.config.completionRules)) this.state.completionRules = workspace.config.completionRules;
         }
 
         this.scheduleStateSave();
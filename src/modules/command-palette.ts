@@ -67,10 +67,10 @@ export class CommandPalette {
         }
     }
 
-    open() {
+    open(query = '') {
         this.isOpen = true;
         this.paletteEl.classList.remove('hidden');
-        this.inputEl.value = '';
+        this.inputEl.value = query;
         this.selectedIndex = 0;
         this.filterCommands();
         // Use setTimeout to ensure the element is visible before focusing
@@ -0,0 +1,163 @@
+// ===================================================
+// KaizenTerm — Completion Rules
+// ===================================================
+// What happens to a Kanban card when its agent finishes. Every finish
+// (shell exit, or the pane marked done by hand) is checked against the
+// rules here, in one place, instead of each event moving cards on its own.
+//
+// Rules are edited as one line of text, `;` between rules:
+//
+//   exit=0 errors=none -> review; exit!=0 -> doing tail; tests -> attach
+//   bug: exit=0 -> done
+//
+// `label:` limits a rule to cards with that label; without it the rule
+// covers the whole board. Every matching rule applies; label rules are
+// checked first, so their column wins over the board's.
+
+import type { KanbanTask, TaskTestResults } from './state';
+
+export type TaskStatus = KanbanTask['status'];
+
+export interface CompletionRule {
+    /** Only cards carrying this label; unset = every card on the board */
+    label?: string;
+    when: {
+        /** A pane marked done by hand counts as exit 0 */
+        exit?: 'zero' | 'nonzero';
+        /** Failed command blocks since the agent was spawned for the card */
+        errors?: 'none' | 'some';
+        /** Test results were found for the run; passed / failed narrow it */
+        tests?: 'found' | 'passed' | 'failed';
+    };
+    then: {
+        moveTo?: TaskStatus;
+        /** Copy the last failed command's output into the activity log */
+        logErrorTail?: boolean;
+        /** Add the pass / fail counts to the activity log */
+        attachTests?: boolean;
+    };
+}
+
+/** What a finished agent left behind, as the rules see it */
+export interface CompletionOutcome {
+    /** null when the pane was marked done rather than exiting */
+    exitCode: number | null;
+    errorBlocks: number;
+    tests: TaskTestResults | null;
+}
+
+export interface CompletionDecision {
+    moveTo?: TaskStatus;
+    /** The rule that picked the column, as text */
+    movedBy?: string;
+    logErrorTail: boolean;
+    attachTests: boolean;
+    /** The rules that matched, as text */
+    matched: string[];
+}
+
+export const DEFAULT_COMPLETION_RULES: CompletionRule[] = [
+    { when: { exit: 'zero', errors: 'none' }, then: { moveTo: 'review' } },
+    { when: { exit: 'nonzero' }, then: { moveTo: 'doing', logErrorTail: true } },
+    { when: { tests: 'found' }, then: { attachTests: true } },
+];
+
+const STATUSES: TaskStatus[] = ['backlog', 'doing', 'review', 'done'];
+
+function ruleMatches(rule: CompletionRule, outcome: CompletionOutcome): boolean {
+    const { exit, errors, tests } = rule.when;
+    const exitedZero = outcome.exitCode === null || outcome.exitCode === 0;
+    if (exit === 'zero' && !exitedZero) return false;
+    if (exit === 'nonzero' && exitedZero) return false;
+    if (errors === 'none' && outcome.errorBlocks > 0) return false;
+    if (errors === 'some' && outcome.errorBlocks === 0) return false;
+    if (tests && !outcome.tests) return false;
+    if (tests === 'passed' && outcome.tests!.failed > 0) return false;
+    if (tests === 'failed' && outcome.tests!.failed === 0) return false;
+    return true;
+}
+
+/** Apply every rule that covers the card and matches the outcome */
+export function evaluateCompletionRules(rules: CompletionRule[], task: KanbanTask, outcome: CompletionOutcome): CompletionDecision {
+    const labels = task.labels || [];
+    const applicable = [
+        ...rules.filter(r => r.label && labels.includes(r.label)),
+        ...rules.filter(r => !r.label),
+    ];
+    const decision: CompletionDecision = { logErrorTail: false, attachTests: false, matched: [] };
+    for (const rule of applicable) {
+        if (!ruleMatches(rule, outcome)) continue;
+        decision.matched.push(formatRule(rule));
+        if (rule.then.moveTo && !decision.moveTo) {
+            decision.moveTo = rule.then.moveTo;
+            decision.movedBy = formatRule(rule);
+        }
+        decision.logErrorTail ||= !!rule.then.logErrorTail;
+        decision.attachTests ||= !!rule.then.attachTests;
+    }
+    return decision;
+}
+
+// ─── Text form ───────────────────────────────────────────────────────
+
+export function formatRule(rule: CompletionRule): string {
+    const when = [
+        rule.when.exit === 'zero' ? 'exit=0' : rule.when.exit === 'nonzero' ? 'exit!=0' : '',
+        rule.when.errors ? `errors=${rule.when.errors}` : '',
+        rule.when.tests === 'found' ? 'tests' : rule.when.tests ? `tests=${rule.when.tests}` : '',
+    ].filter(Boolean);
+    const then = [
+        rule.then.moveTo || '',
+        rule.then.logErrorTail ? 'tail' : '',
+        rule.then.attachTests ? 'attach' : '',
+    ].filter(Boolean);
+    return `${rule.label ? `${rule.label}: ` : ''}${when.join(' ') || 'always'} -> ${then.join(' ')}`;
+}
+
+export function formatRules(rules: CompletionRule[]): string {
+    return rules.map(formatRule).join('; ');
+}
+
+/** Parse the `;`-separated text form; throws with the offending rule on bad input */
+export function parseRules(text: string): CompletionRule[] {
+    const rules: CompletionRule[] = [];
+    for (const raw of text.split(';').map(s => s.trim()).filter(Boolean)) {
+        const arrow = raw.indexOf('->');
+        if (arrow === -1) throw new Error(`Missing "->" in "${raw}"`);
+        let head = raw.slice(0, arrow).trim();
+        const rule: CompletionRule = { when: {}, then: {} };
+
+        const colon = head.indexOf(':');
+        if (colon !== -1) {
+            rule.label = head.slice(0, colon).trim() || undefined;
+            head = head.slice(colon + 1).trim();
+        }
+        for (const cond of head.split(/\s+/).filter(Boolean)) {
+            if (cond === 'always') continue;
+            else if (cond === 'exit=0') rule.when.exit = 'zero';
+            else if (cond === 'exit!=0') rule.when.exit = 'nonzero';
+            else if (cond === 'errors=none' || cond === 'errors=some') rule.when.errors = cond.slice(7) as 'none' | 'some';
+            else if (cond === 'tests') rule.when.tests = 'found';
+            else if (cond === 'tests=passed' || cond === 'tests=failed') rule.when.tests = cond.slice(6) as 'passed' | 'failed';
+            else throw new Error(`Unknown condition "${cond}" in "${raw}"`);
+        }
+        for (const action of raw.slice(arrow + 2).trim().split(/\s+/).filter(Boolean)) {
+            if (STATUSES.includes(action as TaskStatus)) rule.then.moveTo = action as TaskStatus;
+            else if (action === 'tail') rule.then.logErrorTail = true;
+            else if (action === 'attach') rule.then.attachTests = true;
+            else throw new Error(`Unknown action "${action}" in "${raw}"`);
+        }
+        if (!rule.then.moveTo && !rule.then.logErrorTail && !rule.then.attachTests) throw new Error(`No action in "${raw}"`);
+        rules.push(rule);
+    }
+    return rules;
+}
+
+// ─── Test results ────────────────────────────────────────────────────
+
+/** `12 passed, 1 failed (junit.xml)` */
+export function describeTestResults(tests: TaskTestResults): string {
+    const sources = [...new Set(tests.runs.map(r => r.source))];
+    const from = sources.length > 2 ? `${sources.length} reports` : sources.join(', ');
+    return `${tests.passed} passed, ${tests.failed} failed${tests.skipped ? `, ${tests.skipped} skipped` : ''} (${from})`;
+}
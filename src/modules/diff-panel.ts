@@ -0,0 +1,262 @@
+// ===================================================
+// KaizenTerm — Diff Panel (what an agent changed)
+// ===================================================
+// Side panel over the workspace showing the git changes in an agent's cwd:
+// changed files with diffstats, the unified diff (all files or one), and
+// the last few commits. Data comes from the git:* IPC (shared/git-info.cjs).
+
+// Mirrors shared/git-info.d.cts — the renderer doesn't import from shared/
+export interface GitFileStatus {
+    path: string;
+    origPath?: string;
+    index: string;
+    worktree: string;
+    staged: boolean;
+    unstaged: boolean;
+    untracked: boolean;
+    conflicted: boolean;
+}
+
+export interface GitStatus {
+    root: string;
+    branch: string | null;
+    upstream: string | null;
+    ahead: number;
+    behind: number;
+    files: GitFileStatus[];
+    counts: { changed: number; staged: number; unstaged: number; untracked: number; conflicted: number };
+}
+
+export interface GitFileDiffStat {
+    path: string;
+    origPath?: string;
+    added: number;
+    deleted: number;
+    binary: boolean;
+}
+
+export interface GitChanges {
+    status: GitStatus;
+    staged: GitFileDiffStat[];
+    unstaged: GitFileDiffStat[];
+    base?: string;
+    sinceBase?: GitFileDiffStat[];
+}
+
+export interface GitLogEntry {
+    hash: string;
+    shortHash: string;
+    author: string;
+    date: string;
+    subject: string;
+}
+
+export type GitResult<T> = ({ ok: true } & T) | { ok: false; error: string };
+
+type DiffView = 'unstaged' | 'staged' | 'base';
+
+const LOG_ENTRIES = 8;
+
+/** Render a unified diff as colored lines into `container` (replaces its content) */
+export function renderDiff(container: HTMLElement, diff: string, truncated = false) {
+    container.innerHTML = '';
+    if (!diff.trim()) {
+        const empty = document.createElement('div');
+        empty.className = 'diff-empty';
+        empty.textContent = 'No changes';
+        container.appendChild(empty);
+        return;
+    }
+    const fragment = document.createDocumentFragment();
+    for (const line of diff.replace(/\n$/, '').split('\n')) {
+        const el = document.createElement('div');
+        el.className = 'diff-line';
+        if (line.startsWith('diff --git')) el.classList.add('diff-file');
+        else if (line.startsWith('+++') || line.startsWith('---') || /^(index|new file|deleted file|similarity|rename|old mode|new mode) /.test(line)) el.classList.add('diff-meta');
+        else if (line.startsWith('@@')) el.classList.add('diff-hunk');
+        else if (line.startsWith('+')) el.classList.add('diff-add');
+        else if (line.startsWith('-')) el.classList.add('diff-del');
+        el.textContent = line || ' ';
+        fragment.appendChild(el);
+    }
+    if (truncated) {
+        const more = document.createElement('div');
+        more.className = 'diff-empty';
+        more.textContent = '… diff truncated — select a single file to see the rest';
+        fragment.appendChild(more);
+    }
+    container.appendChild(fragment);
+}
+
+export class DiffPanel {
+    private el: HTMLElement | null = null;
+    private cwd = '';
+    private base?: string;
+    private view: DiffView = 'unstaged';
+    private selectedPath: string | null = null;
+    private keyHandler = (e: KeyboardEvent) => {
+        if (e.key === 'Escape') { e.stopPropagation(); this.close(); }
+    };
+
+    /** Open for a working directory; `base` adds a "since" view against that commit */
+    open(title: string, cwd: string, base?: string) {
+        this.close();
+        this.cwd = cwd;
+        this.base = base;
+        this.view = base ? 'base' : 'unstaged';
+        this.selectedPath = null;
+
+        const el = document.createElement('div');
+        el.className = 'diff-panel';
+        el.innerHTML = `
+      <div class="diff-panel-header">
+        <span class="diff-panel-title"></span>
+        <span class="diff-panel-branch"></span>
+        <button class="diff-panel-btn diff-refresh" title="Refresh">↻</button>
+        <button class="diff-panel-btn diff-close" title="Close (Esc)">✕</button>
+      </div>
+      <div class="diff-panel-tabs">
+        ${base ? '<button class="diff-tab" data-view="base">Since spawn</button>' : ''}
+        <button class="diff-tab" data-view="unstaged">Unstaged</button>
+        <button class="diff-tab" data-view="staged">Staged</button>
+      </div>
+      <div class="diff-panel-body">
+        <div class="diff-panel-side">
+          <div class="diff-files"></div>
+          <div class="diff-log-title">Recent commits</div>
+          <div class="diff-log"></div>
+        </div>
+        <div class="diff-panel-content"></div>
+      </div>
+    `;
+        el.querySelector('.diff-panel-title')!.textContent = `± ${title}`;
+        (el.querySelector('.diff-panel-title') as HTMLElement).title = cwd;
+        el.querySelector('.diff-close')!.addEventListener('click', () => this.close());
+        el.querySelector('.diff-refresh')!.addEventListener('click', () => this.refresh());
+        el.querySelectorAll('.diff-tab').forEach(tab => tab.addEventListener('click', () => {
+            this.view = (tab as HTMLElement).dataset.view as DiffView;
+            this.selectedPath = null;
+            this.refresh();
+        }));
+        document.body.appendChild(el);
+        this.el = el;
+        document.addEventListener('keydown', this.keyHandler, true);
+        this.refresh();
+    }
+
+    close() {
+        document.removeEventListener('keydown', this.keyHandler, true);
+        this.el?.remove();
+        this.el = null;
+    }
+
+    isOpen(): boolean {
+        return this.el !== null;
+    }
+
+    async refresh() {
+        const el = this.el;
+        if (!el) return;
+        el.querySelectorAll('.diff-tab').forEach(tab =>
+            tab.classList.toggle('active', (tab as HTMLElement).dataset.view === this.view));
+
+        const bridge = window.kaizenBridge;
+        const [changes, log] = await Promise.all([
+            bridge.gitChanges(this.cwd, this.base),
+            bridge.gitLog(this.cwd, LOG_ENTRIES),
+        ]);
+        if (this.el !== el) return; // closed or reopened meanwhile
+
+        const content = el.querySelector('.diff-panel-content') as HTMLElement;
+        if (!changes.ok) {
+            el.querySelector('.diff-files')!.innerHTML = '';
+            content.innerHTML = '';
+            const err = document.createElement('div');
+            err.className = 'diff-empty';
+            err.textContent = `⚠️ ${changes.error}`;
+            content.appendChild(err);
+            return;
+        }
+
+        const { status } = changes;
+        const sync = [status.ahead ? `↑${status.ahead}` : '', status.behind ? `↓${status.behind}` : ''].filter(Boolean).join(' ');
+        el.querySelector('.diff-panel-branch')!.textContent = `⎇ ${status.branch || 'detached'}${sync ? ` ${sync}` : ''} · ${status.counts.changed} changed`;
+
+        this.renderFiles(el, changes);
+        this.renderLog(el, log.ok ? log.entries : []);
+
+        const diff = await bridge.gitDiff({
+            cwd: this.cwd,
+            staged: this.view === 'staged',
+            base: this.view === 'base' ? this.base : undefined,
+            untracked: this.view !== 'staged',
+            paths: this.selectedPath ? [this.selectedPath] : undefined,
+        });
+        if (this.el !== el) return;
+        if (diff.ok) renderDiff(content, diff.diff, diff.truncated);
+        else content.textContent = `⚠️ ${diff.error}`;
+    }
+
+    private renderFiles(el: HTMLElement, changes: GitChanges) {
+        const stats = this.view === 'staged' ? changes.staged
+            : this.view === 'base' ? changes.sinceBase || []
+                : changes.unstaged;
+        // Untracked files have no diffstat but are part of the working tree view
+        const untracked = this.view === 'staged' ? [] : changes.status.files.filter(f => f.untracked);
+
+        const list = el.querySelector('.diff-files') as HTMLElement;
+        list.innerHTML = '';
+        const addRow = (label: string, path: string | null, detail: string, cls = '') => {
+            const row = document.createElement('button');
+            row.className = `diff-file-row ${cls}`;
+            row.classList.toggle('active', this.selectedPath === path);
+            const name = document.createElement('span');
+            name.className = 'diff-file-name';
+            name.textContent = label;
+            name.title = path || '';
+            const stat = document.createElement('span');
+            stat.className = 'diff-file-stat';
+            stat.innerHTML = detail;
+            row.append(name, stat);
+            row.addEventListener('click', () => {
+                this.selectedPath = path;
+                this.refresh();
+            });
+            list.appendChild(row);
+        };
+
+        const total = stats.reduce((n, f) => ({ added: n.added + f.added, deleted: n.deleted + f.deleted }), { added: 0, deleted: 0 });
+        addRow(`All files (${stats.length + untracked.length})`, null,
+            `<span class="diff-stat-add">+${total.added}</span> <span class="diff-stat-del">−${total.deleted}</span>`);
+        for (const f of stats) {
+            addRow(f.origPath ? `${f.origPath} → ${f.path}` : f.path, this.relativePath(changes.status.root, f.path),
+                f.binary ? 'binary' : `<span class="diff-stat-add">+${f.added}</span> <span class="diff-stat-del">−${f.deleted}</span>`);
+        }
+        for (const f of untracked) {
+            if (stats.some(s => s.path === f.path)) continue;
+            addRow(f.path, this.relativePath(changes.status.root, f.path), '<span class="diff-stat-add">new</span>', 'untracked');
+        }
+    }
+
+    private renderLog(el: HTMLElement, entries: GitLogEntry[]) {
+        const log = el.querySelector('.diff-log') as HTMLElement;
+        log.innerHTML = '';
+        for (const entry of entries) {
+            const row = document.createElement('div');
+            row.className = 'diff-log-entry';
+            row.title = `${entry.author} · ${new Date(entry.date).toLocaleString()}`;
+            const hash = document.createElement('span');
+            hash.className = 'diff-log-hash';
+            hash.textContent = entry.shortHash;
+            row.append(hash, ` ${entry.subject}`);
+            log.appendChild(row);
+        }
+    }
+
+    /** Status paths are repo-relative; diff pathspecs are relative to the cwd */
+    private relativePath(root: string, file: string): string {
+        const prefix = this.cwd.startsWith(root) ? this.cwd.slice(root.length).replace(/^\/+/, '') : '';
+        if (!prefix) return file;
+        return file.startsWith(`${prefix}/`) ? file.slice(prefix.length + 1) : `:/${file}`;
+    }
+}
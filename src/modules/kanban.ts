@@ -5,14 +5,21 @@
 // The main process watches the file and pushes updates via IPC.
 
 import type { KanbanTask } from './state';
-import { generateId } from './state';
+import { externalRefOf, generateId } from './state';
 
 type SpawnAgentCallback = (task: KanbanTask) => void;
 type OpenDetailCallback = (task: KanbanTask) => void;
+type StatusChangeCallback = (task: KanbanTask, from: KanbanTask['status']) => void;
 
 let bridge: typeof window.kaizenBridge | null = null;
 try { bridge = window.kaizenBridge; } catch { }
 
+const TRACKER_ICONS: Record<string, string> = {
+    github: '🐙',
+    linear: '◆',
+    jira: '🔷',
+};
+
 const PRIORITY_META: Record<string, { dot: string; color: string; label: string }> = {
     low: { dot: '🔵', color: 'var(--text-muted)', label: 'Low' },
     medium: { dot: '🟡', color: 'var(--agent-amber)', label: 'Medium' },
@@ -26,11 +33,14 @@ export class KanbanBoard {
     private onTasksChange?: (tasks: KanbanTask[]) => void;
     private spawnAgentCallback?: SpawnAgentCallback;
     private openDetailCallback?: OpenDetailCallback;
+    private statusChangeCallback?: StatusChangeCallback;
     private draggedTask: KanbanTask | null = null;
     private filterText: string = '';
     private filterPriority: string = '';
 
     private pendingWrite = false;
+    /** Task store revision the board last loaded; full saves are compare-and-swap against it */
+    private revision = 0;
 
     constructor(containerEl: HTMLElement, _initialTasks: KanbanTask[] = []) {
         this.containerEl = containerEl;
@@ -41,20 +51,24 @@ export class KanbanBoard {
 
         // Listen for live updates (from MCP server writing to file)
         if (bridge?.onTasksUpdated) {
-            bridge.onTasksUpdated((tasks: any[]) => {
+            bridge.onTasksUpdated((tasks: any[], revision: number) => {
+                this.revision = revision;
                 // Skip if we just wrote to the file ourselves
                 if (this.pendingWrite) {
                     this.pendingWrite = false;
                     return;
                 }
                 const normalized = this.normalizeFileTasks(tasks);
-                // Only update if task set actually changed (avoid feedback loop)
-                const currentIds = this.tasks.map(t => t.id).sort().join(',');
-                const newIds = normalized.map(t => t.id).sort().join(',');
-                if (currentIds === newIds && this.tasks.length === normalized.length) return;
+                // Only update if the tasks actually changed (avoid feedback loop)
+                if (JSON.stringify(normalized) === JSON.stringify(this.tasks)) return;
+                const previous = new Map(this.tasks.map(t => [t.id, t.status]));
                 this.tasks = normalized;
                 this.render();
                 this.onTasksChange?.(this.tasks);
+                for (const t of normalized) {
+                    const from = previous.get(t.id);
+                    if (from && from !== t.status) this.statusChangeCallback?.(t, from);
+                }
             });
         }
     }
@@ -67,7 +81,8 @@ export class KanbanBoard {
             return;
         }
         try {
-            const fileTasks = await bridge.loadTasks();
+            const { tasks: fileTasks, revision } = await bridge.loadTasks();
+            this.revision = revision;
             this.tasks = this.normalizeFileTasks(fileTasks || []);
             this.render();
         } catch {
@@ -78,15 +93,24 @@ export class KanbanBoard {
     /** Normalize MCP-format tasks to KanbanTask format */
     private normalizeFileTasks(fileTasks: any[]): KanbanTask[] {
         return fileTasks.map(t => ({
+            // Keep fields the board doesn't know about (jiraConflict, ...) for round-trips
+            ...t,
             id: t.id || generateId(),
             title: t.title || 'Untitled',
             status: this.mapStatus(t.status),
             priority: t.priority || 'medium',
             description: t.description || '',
             labels: t.labels || [],
-            jiraKey: t.jiraKey,
+            // Legacy jiraKey is folded into externalRef
+            externalRef: externalRefOf(t) || undefined,
+            jiraKey: undefined,
             agentId: t.agentId,
+            blockedBy: t.blockedBy || [],
+            subtasks: t.subtasks,
+            dueDate: t.dueDate,
+            activity: t.activity,
             createdAt: t.createdAt ? new Date(t.createdAt).getTime() : Date.now(),
+            updatedAt: t.updatedAt,
         }));
     }
 
@@ -106,6 +130,7 @@ export class KanbanBoard {
     /** Convert a KanbanTask to MCP-compatible format */
     private toMcpFormat(t: KanbanTask) {
         return {
+            ...t,
             id: t.id,
             title: t.title,
             description: t.description || '',
@@ -113,15 +138,21 @@ export class KanbanBoard {
             priority: t.priority || 'medium',
             agentId: t.agentId,
             labels: t.labels || [],
-            jiraKey: t.jiraKey,
+            externalRef: t.externalRef,
+            blockedBy: t.blockedBy || [],
+            subtasks: t.subtasks,
+            dueDate: t.dueDate,
+            activity: t.activity,
             createdAt: new Date(t.createdAt).toISOString(),
-            updatedAt: new Date().toISOString(),
+            updatedAt: t.updatedAt || new Date().toISOString(),
         };
     }
 
     setChangeCallback(cb: (tasks: KanbanTask[]) => void) { this.onTasksChange = cb; }
     setSpawnAgentCallback(cb: SpawnAgentCallback) { this.spawnAgentCallback = cb; }
     setOpenDetailCallback(cb: OpenDetailCallback) { this.openDetailCallback = cb; }
+    /** Fires after a task changes column, whether moved here or by another writer */
+    setStatusChangeCallback(cb: StatusChangeCallback) { this.statusChangeCallback = cb; }
 
     private init() {
         // Filter bar
@@ -182,6 +213,12 @@ export class KanbanBoard {
                 (col as HTMLElement).classList.remove('drag-over');
                 if (this.draggedTask) {
                     const newStatus = (col as HTMLElement).dataset.status as KanbanTask['status'];
+                    // Dependencies: a task can't start while its blockers are open
+                    if (newStatus === 'doing' && this.getOpenBlockers(this.draggedTask).length > 0) {
+                        this.flashBlocked(this.draggedTask.id);
+                        this.draggedTask = null;
+                        return;
+                    }
                     this.moveTask(this.draggedTask.id, newStatus);
                     this.draggedTask = null;
                 }
@@ -279,12 +316,14 @@ export class KanbanBoard {
     moveTask(id: string, newStatus: KanbanTask['status']) {
         const task = this.tasks.find(t => t.id === id);
         if (task) {
+            const from = task.status;
             task.status = newStatus;
             this.render();
             this.emitChange();
             // Granular IPC: only update this task's status
             this.pendingWrite = true;
             bridge?.updateTask?.(id, { status: newStatus });
+            if (from !== newStatus) this.statusChangeCallback?.(task, from);
         }
     }
 
@@ -368,9 +407,10 @@ export class KanbanBoard {
         const priority = task.priority || 'medium';
         const pMeta = PRIORITY_META[priority] || PRIORITY_META.medium;
 
-        // Jira badge
-        const jiraBadge = task.jiraKey
-            ? `<span class="task-jira-badge">${this.escapeHtml(task.jiraKey)}</span>`
+        // Tracker badge (GitHub / Linear / Jira)
+        const ref = externalRefOf(task);
+        const trackerBadge = ref
+            ? `<span class="task-tracker-badge ${this.escapeHtml(ref.provider)}" title="${this.escapeHtml(ref.url || ref.provider)}">${TRACKER_ICONS[ref.provider] || '🔗'} ${this.escapeHtml(ref.key)}</span>`
             : '';
 
         // Description preview (first line, max 60 chars)
@@ -411,18 +451,37 @@ export class KanbanBoard {
             subtaskBadge = `<span class="task-subtask-badge" style="color:${color}">☑ ${done}/${total}</span>`;
         }
 
+        // Test badge: latest run of the task's agent, failing tests in the tooltip
+        let testBadge = '';
+        if (task.testResults) {
+            const t = task.testResults;
+            const tip = t.failed > 0
+                ? `Failing:\n${t.failures.slice(0, 10).map(f => f.name).join('\n')}${t.failed > 10 ? '\n…' : ''}`
+                : `${t.passed} passed${t.skipped ? `, ${t.skipped} skipped` : ''}`;
+            testBadge = `<span class="task-test-badge ${t.failed > 0 ? 'failed' : 'passed'}" title="${this.escapeHtml(tip).replace(/"/g, '&quot;')}">🧪 ${t.failed > 0 ? `${t.failed} failed` : `${t.passed}/${t.total}`}</span>`;
+        }
+
+        // Blocked indicator (open blockers only)
+        const blockers = this.getOpenBlockers(task);
+        const blockedBadge = blockers.length > 0
+            ? `<span class="task-blocked-badge" title="Blocked by: ${this.escapeHtml(blockers.map(b => b.title).join(', '))}">🔒 ${blockers.length}</span>`
+            : '';
+        if (blockers.length > 0) card.classList.add('blocked');
+
         card.innerHTML = `
             <div class="task-card-row">
                 <span class="priority-dot priority-${priority}" title="${pMeta.label} priority"></span>
                 <span class="task-card-title">${this.escapeHtml(task.title)}</span>
+                ${blockedBadge}
             </div>
             ${descPreview ? `<div class="task-card-desc">${descPreview}</div>` : ''}
             <div class="task-card-footer">
                 <div class="task-card-tags">
-                    ${jiraBadge}
+                    ${trackerBadge}
                     ${labelsHtml}
                     ${dueBadge}
                     ${subtaskBadge}
+                    ${testBadge}
                 </div>
                 <div class="task-card-meta-right">
                     <span class="task-card-age">${age}</span>
@@ -499,6 +558,22 @@ export class KanbanBoard {
 
     // ─── Helpers ─────────────────────────────────────────────────────────
 
+    /** Blockers of a task that are not done yet */
+    getOpenBlockers(task: KanbanTask): KanbanTask[] {
+        const ids = new Set(task.blockedBy || []);
+        return this.tasks.filter(t => ids.has(t.id) && t.status !== 'done');
+    }
+
+    /** Shake a card that refused a drop because it is blocked */
+    private flashBlocked(id: string) {
+        const card = this.containerEl.querySelector(`.task-card[data-task-id="${id}"]`) as HTMLElement | null;
+        if (!card) return;
+        card.classList.remove('drop-refused');
+        void card.offsetWidth; // restart animation
+        card.classList.add('drop-refused');
+        setTimeout(() => card.classList.remove('drop-refused'), 600);
+    }
+
     private formatAge(timestamp: number): string {
         const diff = Date.now() - timestamp;
         const mins = Math.floor(diff / 60000);
@@ -518,18 +593,27 @@ export class KanbanBoard {
     updateTaskDetails(id: string, updates: Partial<KanbanTask>) {
         const task = this.tasks.find(t => t.id === id);
         if (!task) return;
+        const from = task.status;
+        // Same rule as a drop (and the store): a card can't start while its blockers are open
+        if (updates.status === 'doing' && from !== 'doing' && this.getOpenBlockers(task).length > 0) {
+            this.flashBlocked(id);
+            const { status: _refused, ...rest } = updates;
+            updates = rest;
+        }
         Object.assign(task, updates);
         this.render();
         this.emitChange();
         this.pendingWrite = true;
         bridge?.updateTask?.(id, updates);
+        if (from !== task.status) this.statusChangeCallback?.(task, from);
     }
 
     setTasks(tasks: KanbanTask[]) {
         this.tasks = tasks;
         this.render();
-        // Bulk save only used for external full-set operations (e.g., import)
-        bridge?.saveTasks?.(tasks.map(t => this.toMcpFormat(t)));
+        // Bulk save only used for external full-set operations (e.g., import).
+        // On a revision conflict the main process pushes the current tasks back.
+        bridge?.saveTasks?.(tasks.map(t => this.toMcpFormat(t)), this.revision);
     }
 
     private escapeHtml(str: string): string {
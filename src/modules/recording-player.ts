@@ -0,0 +1,226 @@
+// ===================================================
+// KaizenTerm — Recording Player (asciicast v2 replay)
+// ===================================================
+
+import { Terminal } from 'xterm';
+
+interface CastHeader {
+    version: number;
+    width: number;
+    height: number;
+    timestamp?: number;
+    title?: string;
+    idle_time_limit?: number;
+}
+
+interface CastEvent {
+    /** Seconds from the start, after idle compression */
+    time: number;
+    type: string;
+    data: string;
+}
+
+// Long pauses (an agent waiting on a build) are shortened like asciinema's idle_time_limit
+const DEFAULT_IDLE_LIMIT = 2;
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+/** Throws on anything that isn't asciicast v2 */
+export function parseCast(content: string): { header: CastHeader; events: CastEvent[] } {
+    const lines = content.split('\n').filter(Boolean);
+    const header = JSON.parse(lines[0] || '{}') as CastHeader;
+    if (header.version !== 2) throw new Error('Not an asciicast v2 recording');
+
+    const idleLimit = header.idle_time_limit ?? DEFAULT_IDLE_LIMIT;
+    const events: CastEvent[] = [];
+    let lastRaw = 0;
+    let time = 0;
+    for (const line of lines.slice(1)) {
+        let ev: [number, string, string];
+        try { ev = JSON.parse(line); } catch { continue; } // torn last line of a live recording
+        time += Math.min(Math.max(ev[0] - lastRaw, 0), idleLimit);
+        lastRaw = ev[0];
+        events.push({ time, type: ev[1], data: ev[2] });
+    }
+    return { header, events };
+}
+
+function formatTime(seconds: number): string {
+    const s = Math.floor(seconds);
+    return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+export class RecordingPlayer {
+    private el: HTMLElement | null = null;
+    private terminal: Terminal | null = null;
+    private events: CastEvent[] = [];
+    private duration = 0;
+    private position = 0;
+    /** Index of the next event to write */
+    private cursor = 0;
+    private speed = 1;
+    private playing = false;
+    private frame: number | null = null;
+    private lastTick = 0;
+    private keyHandler = (e: KeyboardEvent) => this.handleKey(e);
+
+    /** Open the player over the workspace; replaces a recording already open */
+    open(content: string, title?: string) {
+        const { header, events } = parseCast(content);
+        this.close();
+
+        this.events = events;
+        this.duration = events.length > 0 ? events[events.length - 1].time : 0;
+        this.position = 0;
+        this.cursor = 0;
+
+        const el = document.createElement('div');
+        el.className = 'recording-player';
+        el.innerHTML = `
+      <div class="recording-backdrop"></div>
+      <div class="recording-dialog">
+        <div class="recording-header">
+          <span class="recording-title"></span>
+          <span class="recording-meta"></span>
+          <button class="recording-close" title="Close (Esc)">✕</button>
+        </div>
+        <div class="recording-screen"></div>
+        <div class="recording-controls">
+          <button class="recording-play" title="Play/Pause (Space)">▶</button>
+          <input class="recording-seek" type="range" min="0" step="0.1" value="0" />
+          <span class="recording-time">0:00 / 0:00</span>
+          <select class="recording-speed" title="Playback speed">
+            ${SPEEDS.map(s => `<option value="${s}"${s === 1 ? ' selected' : ''}>${s}×</option>`).join('')}
+          </select>
+        </div>
+      </div>
+    `;
+        el.querySelector('.recording-title')!.textContent = `🎬 ${title || header.title || 'Recording'}`;
+        el.querySelector('.recording-meta')!.textContent = header.timestamp
+            ? new Date(header.timestamp * 1000).toLocaleString()
+            : '';
+        document.body.appendChild(el);
+        this.el = el;
+
+        this.terminal = new Terminal({
+            cols: header.width || 80,
+            rows: header.height || 24,
+            theme: { background: '#07070d', foreground: '#e8e8f0' },
+            fontFamily: "'JetBrains Mono', 'Fira Code', 'SF Mono', monospace",
+            fontSize: 13,
+            disableStdin: true,
+            cursorBlink: false,
+            scrollback: 0,
+        });
+        this.terminal.open(el.querySelector('.recording-screen') as HTMLElement);
+
+        const seek = el.querySelector('.recording-seek') as HTMLInputElement;
+        seek.max = String(this.duration);
+        seek.addEventListener('input', () => this.seek(parseFloat(seek.value)));
+        el.querySelector('.recording-play')!.addEventListener('click', () => this.toggle());
+        (el.querySelector('.recording-speed') as HTMLSelectElement).addEventListener('change', (e) => {
+            this.speed = parseFloat((e.target as HTMLSelectElement).value) || 1;
+        });
+        el.querySelector('.recording-close')!.addEventListener('click', () => this.close());
+        el.querySelector('.recording-backdrop')!.addEventListener('click', () => this.close());
+        document.addEventListener('keydown', this.keyHandler, true);
+
+        this.updateControls();
+        this.play();
+    }
+
+    close() {
+        this.pause();
+        document.removeEventListener('keydown', this.keyHandler, true);
+        this.terminal?.dispose();
+        this.terminal = null;
+        this.el?.remove();
+        this.el = null;
+    }
+
+    isOpen(): boolean {
+        return this.el !== null;
+    }
+
+    toggle() {
+        if (this.playing) this.pause();
+        else this.play();
+    }
+
+    play() {
+        if (this.playing || !this.terminal) return;
+        // Play again from the start once finished
+        if (this.position >= this.duration) this.seek(0);
+        this.playing = true;
+        this.lastTick = performance.now();
+        this.frame = requestAnimationFrame(() => this.tick());
+        this.updateControls();
+    }
+
+    pause() {
+        this.playing = false;
+        if (this.frame !== null) cancelAnimationFrame(this.frame);
+        this.frame = null;
+        this.updateControls();
+    }
+
+    /** Jump to `time` seconds by replaying everything before it into a reset terminal */
+    seek(time: number) {
+        if (!this.terminal) return;
+        this.position = Math.min(Math.max(time, 0), this.duration);
+        this.terminal.reset();
+        this.cursor = 0;
+        this.advanceTo(this.position);
+        this.updateControls();
+    }
+
+    private tick() {
+        const now = performance.now();
+        this.position = Math.min(this.position + ((now - this.lastTick) / 1000) * this.speed, this.duration);
+        this.lastTick = now;
+        this.advanceTo(this.position);
+        this.updateControls();
+
+        if (this.position >= this.duration) {
+            this.pause();
+            return;
+        }
+        this.frame = requestAnimationFrame(() => this.tick());
+    }
+
+    /** Write every event up to `time`, batching output into one terminal write */
+    private advanceTo(time: number) {
+        if (!this.terminal) return;
+        let out = '';
+        while (this.cursor < this.events.length && this.events[this.cursor].time <= time) {
+            const ev = this.events[this.cursor++];
+            if (ev.type === 'o') {
+                out += ev.data;
+            } else if (ev.type === 'r') {
+                const [cols, rows] = ev.data.split('x').map(Number);
+                if (out) { this.terminal.write(out); out = ''; }
+                if (cols > 0 && rows > 0) this.terminal.resize(cols, rows);
+            }
+        }
+        if (out) this.terminal.write(out);
+    }
+
+    private updateControls() {
+        if (!this.el) return;
+        (this.el.querySelector('.recording-play') as HTMLElement).textContent = this.playing ? '⏸' : '▶';
+        (this.el.querySelector('.recording-seek') as HTMLInputElement).value = String(this.position);
+        (this.el.querySelector('.recording-time') as HTMLElement).textContent = `${formatTime(this.position)} / ${formatTime(this.duration)}`;
+    }
+
+    private handleKey(e: KeyboardEvent) {
+        if (!this.el) return;
+        const seekStep = e.shiftKey ? 30 : 5;
+        if (e.key === 'Escape') this.close();
+        else if (e.key === ' ') this.toggle();
+        else if (e.key === 'ArrowRight') this.seek(this.position + seekStep);
+        else if (e.key === 'ArrowLeft') this.seek(this.position - seekStep);
+        else return;
+        // Keep Escape / Space away from the palette, drawers and terminals underneath
+        e.preventDefault();
+        e.stopPropagation();
+    }
+}
@@ -2,12 +2,25 @@
 // KaizenTerm — State Management
 // ===================================================
 
+import { DEFAULT_COMPLETION_RULES, type CompletionRule } from './completion-rules';
+
 export interface AgentConfig {
     id: string;
     name: string;
     color: string;
     status: 'idle' | 'working' | 'done' | 'error';
     cwd: string;
+    budget?: AgentBudget;
+}
+
+/** Limits the Electron main process enforces on an agent; unset or 0 = no limit */
+export interface AgentBudget {
+    maxRuntimeMin?: number;
+    /** Minutes without any terminal output */
+    maxIdleMin?: number;
+    maxOutputMB?: number;
+    /** kill escalates SIGINT → SIGTERM → SIGKILL; pause stops the process tree until resumed */
+    action: 'kill' | 'pause';
 }
 
 export interface KanbanTask {
@@ -17,12 +30,64 @@ export interface KanbanTask {
     priority?: 'low' | 'medium' | 'high' | 'critical';
     description?: string;
     labels?: string[];
+    /** Link to a GitHub / Linear / Jira issue */
+    externalRef?: ExternalRef;
+    /** @deprecated pre-externalRef Jira link — read through externalRefOf() */
     jiraKey?: string;
     agentId?: string;
+    blockedBy?: string[];
     createdAt: number;
+    updatedAt?: string;
     subtasks?: { text: string; done: boolean }[];
     dueDate?: number;
-    activity?: { text: string; timestamp: number }[];
+    /** `recording` links an asciicast of the agent session for replay */
+    activity?: { text: string; timestamp: number; recording?: string }[];
+    /** Column moves, stamped by the shared task store — read by the reports */
+    statusHistory?: { status: string; at: string; by: string }[];
+    jiraConflict?: { jiraStatus: string; kaizenStatus: string; jiraUpdated: string; detectedAt: string };
+    /** Set when agents for this task run in their own git worktree */
+    worktree?: TaskWorktree;
+    /** Where the task's latest agent started — the review panel diffs against it */
+    reviewBase?: { agentId: string; cwd: string; commit: string | null; spawnedAt: number };
+    /** Latest test run of the task's agent — drives the card's test badge */
+    testResults?: TaskTestResults;
+}
+
+/** Mirrors TestResults in shared/test-results.d.cts */
+export interface TaskTestResults {
+    passed: number;
+    failed: number;
+    skipped: number;
+    total: number;
+    failures: { name: string; message?: string; file?: string }[];
+    /** Report files (relative to the agent's cwd) or 'terminal' */
+    runs: { format: string; source: string; passed: number; failed: number; skipped: number; total: number }[];
+    collectedAt: string;
+    agentId?: string;
+}
+
+export interface TaskWorktree {
+    path: string;
+    /** kz/<taskId>-<slug> */
+    branch: string;
+    /** Branch the worktree was cut from — where it merges back */
+    base: string;
+    /** Main checkout the worktree belongs to */
+    repo: string;
+    createdAt: string;
+}
+
+export interface ExternalRef {
+    provider: 'github' | 'linear' | 'jira' | string;
+    key: string;
+    url?: string;
+}
+
+/** A task's tracker link, treating the legacy jiraKey as a Jira ref */
+export function externalRefOf(task: { externalRef?: ExternalRef; jiraKey?: string }): ExternalRef | null {
+    if (task.externalRef?.provider && task.externalRef.key) return task.externalRef;
+    if (task.jiraKey) return { provider: 'jira', key: task.jiraKey };
+    return null;
 }
 
 export interface AgentProfile {
@@ -59,6 +124,10 @@ export interface AppState {
     onboarded: boolean;
     // Agent profiles & command history
     agentProfiles: AgentProfile[];
+    /** Budget applied to agents spawned from a profile, by profile name */
+    profileBudgets: Record<string, AgentBudget>;
+    /** What a card does when its agent finishes — see completion-rules.ts */
+    completionRules: CompletionRule[];
     commandHistory: Record<string, string[]>;
 }
 
@@ -103,9 +172,11 @@ export function createDefaultState(): AppState {
         onboarded: false,
         agentProfiles: [
             { name: 'Coder', icon: '💻', cwd: '', command: 'npm test --watch', description: 'Run tests in watch mode' },
-            { name: 'Monitor', icon: '📊', cwd: '', command: 'tail -f ~/.kaizen-term/session.log', description: 'Monitor session logs' },
+            { name: 'Monitor', icon: '📊', cwd: '', command: 'tail -f ~/.kaizen-term/session.jsonl', description: 'Monitor session events' },
             { name: 'Shell', icon: '🐚', cwd: '', command: '', description: 'Blank shell, no startup command' },
         ],
+        profileBudgets: {},
+        completionRules: DEFAULT_COMPLETION_RULES,
         commandHistory: {},
     };
 }
@@ -138,6 +209,8 @@ export function saveState(state: AppState): void {
             timerCycles: state.timerCycles,
             scanPaths: state.scanPaths,
             toolUsage: state.toolUsage,
+            profileBudgets: state.profileBudgets,
+            completionRules: state.completionRules,
         }));
     } catch { /* ignore */ }
 }
@@ -146,10 +219,10 @@ export function generateId(): string {
     return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 }
 
-export function createAgent(state: AppState, name?: string, cwd?: string): AgentConfig {
+export function createAgent(state: AppState, name?: string, cwd?: string, id?: string): AgentConfig {
     const index = state.agents.length;
     const agent: AgentConfig = {
-        id: generateId(),
+        id: id || generateId(),
         name: name || `Agent ${index + 1}`,
         color: getAgentColor(index),
         status: 'idle',
@@ -8,25 +8,50 @@ import { WebLinksAddon } from '@xterm/addon-web-links';
 import { WebglAddon } from '@xterm/addon-webgl';
 import { SearchAddon } from '@xterm/addon-search';
 import { ImageAddon } from '@xterm/addon-image';
-import type { AgentConfig } from './state';
+import type { AgentBudget, AgentConfig, TaskTestResults, TaskWorktree } from './state';
+import type { GitChanges, GitLogEntry, GitResult, GitStatus } from './diff-panel';
 
 declare global {
     interface Window {
         kaizenBridge: {
-            spawnTerminal: (opts: { id: string; cols: number; rows: number; cwd: string; timerState?: string }) => Promise<{ pid?: number; error?: string }>;
+            spawnTerminal: (opts: { id: string; name?: string; cols: number; rows: number; cwd: string; timerState?: string; budget?: AgentBudget }) => Promise<{ pid?: number; error?: string }>;
             writeTerminal: (id: string, data: string) => void;
             resizeTerminal: (id: string, cols: number, rows: number) => void;
             killTerminal: (id: string) => void;
+            renameTerminal: (id: string, name: string) => void;
+            recordCommandBlock: (id: string, block: { command: string; output: string[]; startedAt: number; endedAt: number; hasError: boolean; exitCode?: number }) => void;
+            readCommandBlocks: (id: string, opts?: { errorsOnly?: boolean; since?: number; limit?: number }) => Promise<StoredCommandBlock[]>;
+            // asciicast recordings
+            startRecording: (id: string, opts: { cols: number; rows: number; title?: string }) => Promise<{ file: string } | { error: string }>;
+            stopRecording: (id: string) => Promise<{ file: string } | null>;
+            onRecordingStopped: (cb: (id: string, file: string) => void) => void;
+            listRecordings: () => Promise<{ file: string; title: string; startedAt: number; duration: number; size: number; recording: boolean }[]>;
+            readRecording: (file: string) => Promise<string | null>;
             onTerminalData: (cb: (id: string, data: string) => void) => void;
             onTerminalExit: (cb: (id: string, exitCode: number) => void) => void;
-            readTerminalOutput: (id: string) => Promise<{ lines: string[]; count: number }>;
+            attachTerminal: (opts: { id: string; name?: string; cols: number; rows: number; budget?: AgentBudget }) => Promise<{ status: 'running' | 'exited' | 'missing'; pid?: number; exitCode?: number; scrollback?: string }>;
+            quitEndingSessions: () => void;
+            setAgentBudget: (id: string, budget: AgentBudget | null) => void;
+            resumeAgent: (id: string) => void;
+            onBudgetExceeded: (cb: (info: { id: string; limit: 'runtime' | 'idle' | 'output'; action: 'kill' | 'pause'; message: string }) => void) => void;
+            getAgentResources: () => Promise<Record<string, AgentResources>>;
+            onAgentResources: (cb: (agents: Record<string, AgentResources>) => void) => void;
+            onResourceAlert: (cb: (alert: { id: string; kind: 'memory' | 'cpu'; message: string }) => void) => void;
+            readTerminalOutput: (id: string, count?: number) => Promise<{ lines: string[]; count: number; total: number }>;
+            onAgentSpawnRequest: (cb: (request: { id: string; name?: string; cwd?: string; taskId?: string }) => void) => void;
             // Tasks (shared with MCP server)
-            loadTasks: () => Promise<any[]>;
-            saveTasks: (tasks: any[]) => Promise<{ ok: boolean }>;
+            loadTasks: () => Promise<{ tasks: any[]; revision: number }>;
+            saveTasks: (tasks: any[], expectedRevision: number) => Promise<{ ok: true } | { error: string; conflict?: boolean }>;
             addTask: (task: any) => Promise<{ ok: boolean }>;
             updateTask: (id: string, updates: any) => Promise<{ ok: boolean; error?: string }>;
             deleteTask: (id: string) => Promise<{ ok: boolean }>;
-            onTasksUpdated: (cb: (tasks: any[]) => void) => void;
+            onTasksUpdated: (cb: (tasks: any[], revision: number) => void) => void;
+            // Jira sync
+            syncJira: () => Promise<{ created: string[]; pulled: string[]; pushed: string[]; conflicts: string[]; errors: string[] } | { error: string }>;
+            resolveJiraConflict: (taskId: string, keep: 'kaizen' | 'jira') => Promise<{ ok: boolean; error?: string }>;
+            // Session log + reports
+            logSessionEvent: (type: 'timer.cycle' | 'task.auto_completed' | 'ai.request' | 'task.reviewed', fields: Record<string, string | number>) => void;
+            saveReport: (period: 'daily' | 'weekly') => Promise<{ filePath: string } | { error: string } | null>;
             // Discovery
             discoverSkills: (paths: string[]) => Promise<any>;
             discoverMCP: (paths: string[]) => Promise<any>;
@@ -37,6 +62,21 @@ declare global {
             onAppError: (cb: (message: string) => void) => void;
             // Git
             gitBranch: (cwd?: string) => Promise<{ branch: string | null }>;
+            gitStatus: (cwd?: string) => Promise<GitResult<GitStatus>>;
+            gitChanges: (cwd: string, base?: string) => Promise<GitResult<GitChanges>>;
+            gitDiff: (opts: { cwd: string; staged?: boolean; base?: string; paths?: string[]; untracked?: boolean; context?: number }) =>
+                Promise<GitResult<{ diff: string; truncated: boolean; untracked: number }>>;
+            gitLog: (cwd: string, limit?: number, range?: string) => Promise<GitResult<{ entries: GitLogEntry[] }>>;
+            gitHead: (cwd: string) => Promise<GitResult<{ head: string | null }>>;
+            createTaskWorktree: (cwd: string | undefined, taskId: string, title: string) =>
+                Promise<{ ok: true; reused: boolean; worktree: TaskWorktree } | { ok: false; error: string }>;
+            getWorktreeStatus: (worktree: TaskWorktree) =>
+                Promise<{ ok: true; exists: boolean; dirty: boolean; ahead: number; behind: number } | { ok: false; error: string }>;
+            finishTaskWorktree: (worktree: TaskWorktree, action: 'merge' | 'rebase' | 'cleanup', force?: boolean) =>
+                Promise<{ ok: true; output: string } | { ok: false; error: string }>;
+            // Test results
+            collectTestResults: (opts: { id?: string; cwd?: string; since?: number }) =>
+                Promise<{ ok: true; results: TaskTestResults | null } | { ok: false; error: string }>;
             // Dialogs
             openFolderDialog: () => Promise<string | null>;
             saveFileDialog: (defaultName: string, content: string) => Promise<string | null>;
@@ -45,11 +85,38 @@ declare global {
 }
 
 // Phase 8: Command block tracking
+/** A finished block as persisted in terminal-buffers/<id>.blocks.jsonl */
+export interface StoredCommandBlock {
+    seq: number;
+    command: string;
+    startedAt: number;
+    endedAt: number;
+    durationMs?: number;
+    exitCode?: number;
+    hasError: boolean;
+    outputLines: number;
+    output: string[];
+}
+
 interface CommandBlock {
     command: string;
     output: string[];
     timestamp: number;
     hasError: boolean;
+    /** From an OSC 133;D shell-integration mark, or the process exit code */
+    exitCode?: number;
+    endedAt?: number;
+}
+
+/** One sample of an agent's process tree, from the Electron process monitor */
+export interface AgentResources {
+    pid: number;
+    /** Percent of one core, summed over the tree */
+    cpu: number;
+    /** Resident memory in bytes */
+    rss: number;
+    processes: { pid: number; command: string; args: string; cpu: number; rss: number }[];
+    alerts: { kind: 'memory' | 'cpu'; message: string }[];
 }
 
 export interface TerminalInstance {
@@ -68,15 +135,24 @@ export interface TerminalInstance {
     lineBuffer: string;
 }
 
+function formatBytes(bytes: number): string {
+    if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+    return `${Math.round(bytes / 1024 ** 2)} MB`;
+}
+
 export class TerminalManager {
     private terminals: Map<string, TerminalInstance> = new Map();
     private activeId: string | null = null;
     private watchingAgents: Set<string> = new Set();
+    private recordings: Map<string, string> = new Map(); // id → .cast file being written
+    private budgetKilled: Set<string> = new Set(); // ids being stopped for exceeding their budget
     private onStatusChange?: (id: string, status: AgentConfig['status']) => void;
     private bridge = window.kaizenBridge;
     private ipcInitialized = false;
 
     // ANSI error pattern: red/bright-red sequences or common error keywords
+    // Shell integration (FinalTerm / iTerm2 / VS Code): ESC ] 133 ; D ; <exit code> marks command end
+    private static readonly OSC_COMMAND_DONE_RE = /\x1b\](?:133|633);D;(-?\d+)/;
     private static readonly ANSI_ERROR_RE = /\x1b\[(?:31|91|1;31)m|\b(error|Error|ERROR|FAILED|failed|exception|Exception)\b/;
     // Strip ANSI for last-line display
     private static readonly ANSI_STRIP_RE = /\x1b\[\?]?[0-9;]*[a-zA-Z]|\x1b\](?:[^\x07\x1b]*(?:\x07|\x1b\\))|\x1b\][^\x07]*$|\x1b\(B/g;
@@ -118,8 +194,17 @@ export class TerminalManager {
 
         this.bridge.onTerminalExit((id: string, exitCode: number) => {
             const inst = this.terminals.get(id);
+            if (inst && this.budgetKilled.delete(id)) {
+                // Stopped over budget: stays in error, never counts as a finished run
+                inst.terminal.write(`\r\n\x1b[90m[Process stopped by budget (code ${exitCode})]\x1b[0m\r\n`);
+                this.finishBlock(inst, exitCode);
+                this.showRestartButton(inst, exitCode);
+                return;
+            }
             if (inst) {
                 inst.terminal.write(`\r\n\x1b[90m[Process exited with code ${exitCode}]\x1b[0m\r\n`);
+                // Whatever was running when the shell died ends with the process
+                this.finishBlock(inst, exitCode);
                 this.onStatusChange?.(id, 'done');
                 // Phase 6: Show restart button in panel header
                 this.showRestartButton(inst, exitCode);
@@ -129,6 +214,23 @@ export class TerminalManager {
                 }));
             }
         });
+
+        // Electron closes a recording itself when the shell exits
+        this.bridge.onRecordingStopped((id: string, file: string) => this.recordingStopped(id, file));
+
+        this.bridge.onBudgetExceeded(({ id, limit, action, message }) => {
+            const inst = this.terminals.get(id);
+            if (!inst) return;
+            if (action === 'kill') this.budgetKilled.add(id);
+            inst.terminal.write(`\r\n\x1b[33m[Budget exceeded: ${message} — ${action === 'kill' ? 'stopping agent' : 'agent paused'}]\x1b[0m\r\n`);
+            this.onStatusChange?.(id, 'error');
+            window.dispatchEvent(new CustomEvent('kaizen-budget-exceeded', { detail: { agentId: id, limit, action, message } }));
+        });
+
+        this.bridge.onAgentResources((agents) => this.updateResources(agents));
+        this.bridge.onResourceAlert((alert) => {
+            window.dispatchEvent(new CustomEvent('kaizen-resource-alert', { detail: { agentId: alert.id, kind: alert.kind, message: alert.message } }));
+        });
     }
 
     private stripANSI(data: string): string {
@@ -234,6 +336,7 @@ export class TerminalManager {
             const { cols, rows } = inst.terminal;
             this.bridge.spawnTerminal({
                 id: inst.id,
+                name: inst.agent.name,
                 cols,
                 rows,
                 cwd: inst.agent.cwd,
@@ -255,7 +358,8 @@ export class TerminalManager {
         this.onStatusChange = cb;
     }
 
-    createTerminal(agent: AgentConfig, container: HTMLElement, taskContext?: { id: string; title: string } | null): TerminalInstance {
+    /** `restore` reconnects to a shell the PTY host kept from a previous launch before spawning a new one */
+    createTerminal(agent: AgentConfig, container: HTMLElement, taskContext?: { id: string; title: string } | null, restore = false): TerminalInstance {
         const terminal = new Terminal({
             theme: {
                 background: '#07070d',
@@ -313,9 +417,12 @@ export class TerminalManager {
         <span class="panel-name" title="Double-click to rename">${agent.name}</span>
         <span class="panel-status status-cycle status-idle" data-term-id="${agent.id}">idle</span>
         <span class="panel-lastline" title="Last terminal output"></span>
+        <span class="panel-resources"></span>
+        <span class="panel-git" title="Git changes — click for the diff"></span>
         <div class="panel-actions">
           <button class="panel-action-btn copy-output" title="Copy last output">📋</button>
           <button class="panel-action-btn export" title="Export terminal output">📤</button>
+          <button class="panel-action-btn record" title="Record session (asciicast)">⏺</button>
           <button class="panel-action-btn watch" title="Watch Mode: notify on errors">👁</button>
           <button class="panel-action-btn maximize" title="Maximize">⤢</button>
           <button class="panel-action-btn close" title="Close">✕</button>
@@ -371,28 +478,8 @@ export class TerminalManager {
         // Spawn shell AFTER fit so PTY gets correct dimensions (avoids zsh prompt garble)
         requestAnimationFrame(() => {
             try { fitAddon.fit(); } catch { }
-
-            const { cols, rows } = terminal;
-            this.bridge.spawnTerminal({
-                id: agent.id,
-                cols,
-                rows,
-                cwd: agent.cwd,
-                ...(taskContext ? { timerState: `task:${taskContext.id}` } : {}),
-            }).then((result) => {
-                // Remove loading indicator
-                inst.element.querySelector('.terminal-loading')?.remove();
-                if (result.error) {
-                    terminal.write(`\r\n\x1b[31m Error: ${result.error}\x1b[0m\r\n`);
-                    this.onStatusChange?.(agent.id, 'error');
-                    // Fix #6: only show dead shell overlay on actual spawn failure
-                    this.showDeadShellOverlay(inst, agent);
-                } else {
-                    this.onStatusChange?.(agent.id, 'idle');
-                    // Discoverability: show a subtle hint overlay for new users
-                    this.showDiscoverabilityHint(inst);
-                }
-            });
+            if (restore) this.reattachShell(inst, taskContext);
+            else this.spawnShell(inst, taskContext);
         });
 
         // Fix #13: show loading indicator while shell is spawning
@@ -444,6 +531,7 @@ export class TerminalManager {
             const finish = () => {
                 const newName = input.value.trim() || agent.name;
                 agent.name = newName;
+                this.bridge.renameTerminal(agent.id, newName);
                 const newNameEl = document.createElement('span');
                 newNameEl.className = 'panel-name';
                 newNameEl.title = 'Double-click to rename';
@@ -522,6 +610,20 @@ export class TerminalManager {
             this.exportTerminal(agent.id);
         });
 
+        // Record button
+        const recordBtn = panel.querySelector('.panel-action-btn.record') as HTMLElement;
+        recordBtn.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.toggleRecording(agent.id);
+        });
+
+        // Git badge → diff panel (opened by main.ts)
+        const gitBadge = panel.querySelector('.panel-git') as HTMLElement;
+        gitBadge.addEventListener('click', (e) => {
+            e.stopPropagation();
+            window.dispatchEvent(new CustomEvent('kaizen-open-diff', { detail: { agentId: agent.id } }));
+        });
+
         // Drag & Drop files → paste path into terminal
         body.addEventListener('dragover', (e) => {
             e.preventDefault();
@@ -622,7 +724,9 @@ export class TerminalManager {
         const inst = this.terminals.get(id);
         if (!inst) return;
 
+        const recording = this.recordings.get(id);
         this.bridge.killTerminal(id);
+        if (recording) this.recordingStopped(id, recording);
         inst.terminal.dispose();
 
         inst.element.style.transition = 'opacity 0.2s, transform 0.2s';
@@ -693,6 +797,96 @@ export class TerminalManager {
         }
     }
 
+    // ─── Resource Monitor ────────────────────────────────────────────
+
+    private updateResources(agents: Record<string, AgentResources>) {
+        for (const inst of this.terminals.values()) {
+            const el = inst.element.querySelector('.panel-resources') as HTMLElement | null;
+            if (!el) continue;
+            const usage = agents[inst.id];
+            if (!usage) {
+                el.textContent = '';
+                el.title = '';
+                el.classList.remove('resource-alert');
+                continue;
+            }
+            // Children of the shell are what the agent is actually running
+            const children = [...new Set(usage.processes.filter(p => p.pid !== usage.pid).map(p => p.command))];
+            el.textContent = `${Math.round(usage.cpu)}% · ${formatBytes(usage.rss)}${children.length ? ` · ${children.slice(0, 2).join(', ')}${children.length > 2 ? '…' : ''}` : ''}`;
+            el.title = [
+                ...usage.alerts.map(a => `⚠ ${a.message}`),
+                ...usage.processes.map(p => `${p.pid}  ${Math.round(p.cpu)}%  ${formatBytes(p.rss)}  ${p.args || p.command}`),
+            ].join('\n');
+            el.classList.toggle('resource-alert', usage.alerts.length > 0);
+        }
+    }
+
+    // ─── Git Status ──────────────────────────────────────────────────
+
+    /** Branch and dirty-file count in the header; null hides it (not a repo) */
+    updateGitStatus(id: string, status: GitStatus | null) {
+        const inst = this.terminals.get(id);
+        const el = inst?.element.querySelector('.panel-git') as HTMLElement | null;
+        if (!el) return;
+        if (!status) {
+            el.textContent = '';
+            el.classList.remove('dirty');
+            return;
+        }
+        const { changed, staged, untracked, conflicted } = status.counts;
+        el.textContent = `⎇ ${status.branch || 'detached'}${changed ? ` ●${changed}` : ''}`;
+        el.title = changed
+            ? `${changed} changed (${staged} staged, ${untracked} untracked${conflicted ? `, ${conflicted} conflicted` : ''}) — click for the diff`
+            : 'Clean working tree — click for the diff';
+        el.classList.toggle('dirty', changed > 0);
+    }
+
+    // ─── Recording (asciicast v2) ────────────────────────────────────
+
+    /** The .cast file the pane is recording into, if any */
+    getRecording(id: string): string | undefined {
+        return this.recordings.get(id);
+    }
+
+    /** Start or stop recording the raw PTY stream; outcome goes out as `kaizen-recording` */
+    async toggleRecording(id: string) {
+        const inst = this.terminals.get(id);
+        if (!inst) return;
+
+        if (this.recordings.has(id)) {
+            const result = await this.bridge.stopRecording(id);
+            this.recordingStopped(id, result?.file || this.recordings.get(id)!);
+            return;
+        }
+
+        const result = await this.bridge.startRecording(id, {
+            cols: inst.terminal.cols,
+            rows: inst.terminal.rows,
+            title: inst.agent.name,
+        });
+        if ('error' in result) {
+            window.dispatchEvent(new CustomEvent('kaizen-recording', { detail: { agentId: id, state: 'error', error: result.error } }));
+            return;
+        }
+        this.recordings.set(id, result.file);
+        this.setRecordingIndicator(inst, true);
+        window.dispatchEvent(new CustomEvent('kaizen-recording', { detail: { agentId: id, state: 'started', file: result.file } }));
+    }
+
+    private recordingStopped(id: string, file: string) {
+        if (!this.recordings.delete(id)) return;
+        const inst = this.terminals.get(id);
+        if (inst) this.setRecordingIndicator(inst, false);
+        window.dispatchEvent(new CustomEvent('kaizen-recording', { detail: { agentId: id, state: 'stopped', file } }));
+    }
+
+    private setRecordingIndicator(inst: TerminalInstance, on: boolean) {
+        const btn = inst.element.querySelector('.panel-action-btn.record') as HTMLElement;
+        if (!btn) return;
+        btn.classList.toggle('recording', on);
+        btn.title = on ? 'Recording — click to stop' : 'Record session (asciicast)';
+    }
+
     private async exportTerminal(id: string) {
         const inst = this.terminals.get(id);
         if (!inst) return;
@@ -1095,8 +1289,62 @@ export class TerminalManager {
         return inst ? inst.terminal.cols : 80;
     }
 
-    /** Fix 7: Dead shell overlay for restored sessions */
-    private showDeadShellOverlay(inst: TerminalInstance, agent: AgentConfig) {
+    private spawnShell(inst: TerminalInstance, taskContext?: { id: string; title: string } | null) {
+        const { agent, terminal } = inst;
+        const { cols, rows } = terminal;
+        this.bridge.spawnTerminal({
+            id: agent.id,
+            name: agent.name,
+            cols,
+            rows,
+            cwd: agent.cwd,
+            budget: agent.budget,
+            ...(taskContext ? { timerState: `task:${taskContext.id}` } : {}),
+        }).then((result) => {
+            // Remove loading indicator
+            inst.element.querySelector('.terminal-loading')?.remove();
+            if (result.error) {
+                terminal.write(`\r\n\x1b[31m Error: ${result.error}\x1b[0m\r\n`);
+                this.onStatusChange?.(agent.id, 'error');
+                // Fix #6: only show dead shell overlay on actual spawn failure
+                this.showDeadShellOverlay(inst, agent);
+            } else {
+                this.onStatusChange?.(agent.id, 'idle');
+                // Discoverability: show a subtle hint overlay for new users
+                this.showDiscoverabilityHint(inst);
+            }
+        });
+    }
+
+    /** Reconnect a restored pane to the shell the PTY host kept running, replaying its screen */
+    private async reattachShell(inst: TerminalInstance, taskContext?: { id: string; title: string } | null) {
+        const { agent, terminal } = inst;
+        const { cols, rows } = terminal;
+        const result = await this.bridge.attachTerminal({ id: agent.id, name: agent.name, cols, rows, budget: agent.budget });
+        if (result.status === 'missing') {
+            // The host doesn't know it (reboot, host crash) — start a fresh shell as before
+            this.spawnShell(inst, taskContext);
+            return;
+        }
+
+        inst.element.querySelector('.terminal-loading')?.remove();
+        if (result.scrollback) terminal.write(result.scrollback);
+
+        if (result.status === 'exited') {
+            const exitCode = result.exitCode ?? -1;
+            terminal.write(`\r\n\x1b[90m[Process exited with code ${exitCode} while KaizenTerm was closed]\x1b[0m\r\n`);
+            this.onStatusChange?.(agent.id, 'done');
+            this.showDeadShellOverlay(inst, agent, `Shell exited (code ${exitCode}) while KaizenTerm was closed`);
+            window.dispatchEvent(new CustomEvent('kaizen-agent-exit', {
+                detail: { agentId: agent.id, exitCode }
+            }));
+            return;
+        }
+        this.onStatusChange?.(agent.id, 'idle');
+    }
+
+    /** Fix 7: Dead shell overlay — a spawn failure, or a restored session that really ended */
+    private showDeadShellOverlay(inst: TerminalInstance, agent: AgentConfig, message = 'Shell exited — session was restored') {
         // Remove existing overlay if any
         inst.element.querySelector('.shell-dead-overlay')?.remove();
 
@@ -1104,10 +1352,12 @@ export class TerminalManager {
         overlay.className = 'shell-dead-overlay';
         overlay.innerHTML = `
             <span class="shell-dead-icon">💀</span>
-            <span class="shell-dead-text">Shell exited — session was restored</span>
+            <span class="shell-dead-text"></span>
             <button class="shell-reconnect-btn">⟳ Reconnect Shell</button>
         `;
 
+        overlay.querySelector('.shell-dead-text')!.textContent = message;
+
         const body = inst.element.querySelector('.panel-body') as HTMLElement;
         body.style.position = 'relative';
         body.appendChild(overlay);
@@ -1115,7 +1365,7 @@ export class TerminalManager {
         overlay.querySelector('.shell-reconnect-btn')!.addEventListener('click', () => {
             overlay.remove();
             const { cols, rows } = inst.terminal;
-            this.bridge.spawnTerminal({ id: agent.id, cols, rows, cwd: agent.cwd })
+            this.bridge.spawnTerminal({ id: agent.id, name: agent.name, cols, rows, cwd: agent.cwd })
                 .then((result) => {
                     if (result.error) {
                         inst.terminal.write(`\r\n\x1b[31mFailed to reconnect: ${result.error}\x1b[0m\r\n`);
@@ -1171,14 +1421,11 @@ export class TerminalManager {
         const lines = inst.lineBuffer.split('\n');
         const lastLine = lines[lines.length - 1].trim();
 
+        const done = data.match(TerminalManager.OSC_COMMAND_DONE_RE);
+        if (done && inst.currentBlock) inst.currentBlock.exitCode = Number(done[1]);
+
         if (TerminalManager.SHELL_PROMPT_RE.test(lastLine) && inst.lineBuffer.length > 10) {
-            // Finalize current block
-            if (inst.currentBlock && (inst.currentBlock.command || inst.currentBlock.output.length > 0)) {
-                inst.blocks.push(inst.currentBlock);
-                this.renderBlock(inst, inst.currentBlock);
-                // Keep max 50 blocks
-                if (inst.blocks.length > 50) inst.blocks.shift();
-            }
+            this.finishBlock(inst);
 
             // Start new block
             inst.currentBlock = {
@@ -1205,6 +1452,29 @@ export class TerminalManager {
         }
     }
 
+    /** Close the current block: render it and persist it for the MCP get_command_blocks tool */
+    private finishBlock(inst: TerminalInstance, exitCode?: number) {
+        const block = inst.currentBlock;
+        if (!block || (!block.command && block.output.length === 0)) return;
+        block.endedAt = Date.now();
+        if (exitCode !== undefined && block.exitCode === undefined) block.exitCode = exitCode;
+
+        inst.blocks.push(block);
+        this.renderBlock(inst, block);
+        // Keep max 50 blocks
+        if (inst.blocks.length > 50) inst.blocks.shift();
+
+        this.bridge.recordCommandBlock(inst.id, {
+            command: block.command,
+            output: block.output,
+            startedAt: block.timestamp,
+            endedAt: block.endedAt,
+            hasError: block.hasError,
+            exitCode: block.exitCode,
+        });
+        inst.currentBlock = null;
+    }
+
     private renderBlock(inst: TerminalInstance, block: CommandBlock) {
         const container = inst.element.querySelector('.block-container');
         if (!container) return;